@@ -0,0 +1,22 @@
+// Local HTTP sink for testing notification channels: prints every request it receives.
+// Usage: node scripts/notification-sink.mjs [port]   (SINK_STATUS=500 to simulate a failing endpoint)
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8788);
+const status = Number(process.env.SINK_STATUS ?? 200);
+
+createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    let printed = body;
+    try {
+      printed = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      // not JSON; print as-is
+    }
+    console.log(`\n[${new Date().toISOString()}] ${req.method} ${req.url}\n${printed}`);
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(status < 400 ? 'ok' : 'error');
+  });
+}).listen(port, () => console.log(`Notification sink listening on http://localhost:${port}`));
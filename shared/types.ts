@@ -5,7 +5,7 @@ export interface ApiResponse<T = unknown> {
 }
 // --- Aegis Dashboard Types ---
 export type ImpactLevel = 'Outage' | 'Degradation';
-export type VendorStatusOption = 'Operational' | 'Degraded' | 'Outage';
+export type VendorStatusOption = 'Operational' | 'Degraded' | 'Outage' | 'Unknown'; // Unknown: status source unreachable or unreadable
 export type AlertSeverity = 'Critical' | 'Warning' | 'Info';
 export type TicketStatus = 'New' | 'In Progress' | 'On Hold' | 'Resolved';
 export interface Outage {
@@ -17,16 +17,122 @@ export interface Outage {
   teamsBridgeUrl: string | null;
   description: string;
 }
+// Outage detail drawer (/api/outages/:id/detail)
+export interface OutageJournalEntry {
+  id: string;
+  element: 'work_notes' | 'comments';
+  value: string;
+  createdBy: string;
+  createdAt: string; // ISO 8601 string
+}
+export interface OutageDetail {
+  outage: Outage;
+  recordUrl: string; // Outage record in the ServiceNow UI
+  ciName: string | null;
+  journal: OutageJournalEntry[]; // Newest first
+  incidents: ServiceNowTicket[]; // Active or recent incidents on the same CI
+  warnings: string[]; // Sections that could not be loaded
+}
+// Persisted outage lifecycle (one record per outage ever seen)
+export interface OutageImpactChange {
+  at: string; // ISO 8601 string
+  from: ImpactLevel;
+  to: ImpactLevel;
+}
+export interface OutageEtaChange {
+  at: string; // ISO 8601 string
+  from: string | null; // ISO 8601 string
+  to: string | null; // ISO 8601 string
+}
+export interface OutageRecord extends Outage {
+  firstSeen: string; // ISO 8601 string
+  lastSeen: string; // ISO 8601 string
+  resolvedAt: string | null; // ISO 8601 string, null while ongoing
+  impactChanges: OutageImpactChange[];
+  etaChanges?: OutageEtaChange[]; // Missing on records stored before ETA changes were tracked
+}
+// Records are partitioned by the month of their start time (id = "yyyy-MM")
+export interface OutageHistoryMonth {
+  id: string;
+  records: OutageRecord[];
+}
+export interface OutageHistorySyncState {
+  id: string; // Singleton ID
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  imported: number;
+}
+// Paginated response of /api/outages/history
+export interface OutageHistoryPage {
+  items: OutageRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+  from: string; // ISO 8601 string
+  to: string; // ISO 8601 string
+  lastSyncedAt: string | null;
+}
+// Reliability metrics served by /api/outages/analytics (durations in minutes)
+export interface AvailabilityMetrics {
+  outages: number;
+  downtimeMinutes: number; // Union of outage windows, clipped to the period
+  mttrMinutes: number | null; // Mean time to restore (resolved outages only)
+  mtbfMinutes: number | null; // Mean time between failures: uptime / outages
+  availability: number; // Percentage, 0-100
+}
+export interface SystemAvailabilityMonth extends AvailabilityMetrics {
+  month: string; // "yyyy-MM"
+}
+export interface SystemAvailability extends AvailabilityMetrics {
+  systemName: string;
+  months: SystemAvailabilityMonth[];
+}
+export interface AvailabilityReport {
+  from: string; // ISO 8601 string
+  to: string; // ISO 8601 string
+  impact: ImpactLevel[]; // Impact levels counted as downtime
+  systems: SystemAvailability[];
+}
 // Extended Vendor entity for dynamic configuration
-export type VendorStatusType = 'API_JSON' | 'MANUAL';
+// STATUSPAGE_IO, STATUS_IO and INSTATUS read the hosted status page's native summary JSON
+export type VendorProviderType = 'STATUSPAGE_IO' | 'STATUS_IO' | 'INSTATUS';
+// FEED reads an RSS/Atom status feed (apiUrl)
+export type VendorStatusType = 'API_JSON' | 'MANUAL' | 'FEED' | VendorProviderType;
+export interface VendorIndicatorMappingItem {
+  providerValue: string; // Provider indicator or component status (e.g. "major_outage", Status.io code "500")
+  dashboardValue: Exclude<VendorStatusOption, 'Unknown'>;
+}
+export interface VendorFeedRule {
+  keyword: string; // Case-insensitive match on the entry title and summary
+  status: 'Degraded' | 'Outage';
+}
+// API_JSON rules, evaluated in order; the first rule whose path selects a matching value sets the status
+export type VendorRuleOperator = 'equals' | 'in' | 'regex' | 'gt' | 'gte' | 'lt' | 'lte';
+export interface VendorRule {
+  path: string; // Dot path with [n] indexing and * wildcards, e.g. "components[*].status"
+  operator: VendorRuleOperator;
+  value: string; // Comma-separated list for "in", a pattern for "regex", a number for comparisons
+  status: Exclude<VendorStatusOption, 'Unknown'>;
+}
 export interface Vendor {
   id: string;
   name: string;
   url: string;
   statusType: VendorStatusType;
-  apiUrl?: string | null;
-  jsonPath?: string | null;
+  apiUrl?: string | null; // Providers: summary endpoint, derived from url when empty (required for Status.io)
+  jsonPath?: string | null; // Legacy API_JSON check, read as one "in" rule when rules are empty
   expectedValue?: string | null;
+  rules?: VendorRule[] | null; // API_JSON
+  defaultStatus?: Exclude<VendorStatusOption, 'Unknown'> | null; // API_JSON: status when no rule matches (default Outage)
+  components?: string[] | null; // Providers: component ids to track; empty uses the page's overall indicator
+  indicatorMapping?: VendorIndicatorMappingItem[] | null; // Providers: overrides of the default mapping
+  feedWindowHours?: number | null; // FEED: entries older than this are ignored (default 24)
+  feedRules?: VendorFeedRule[] | null; // FEED: first matching rule classifies an active entry; unmatched ones are Degraded
+}
+export interface VendorComponentStatus {
+  id: string;
+  name: string;
+  status: VendorStatusOption;
 }
 // Updated VendorStatus to align with Vendor entity
 export interface VendorStatus {
@@ -34,6 +140,41 @@ export interface VendorStatus {
   name: string;
   status: VendorStatusOption;
   url: string;
+  incident?: string | null; // Title of the provider's current incident (newest active entry for FEED)
+  components?: VendorComponentStatus[]; // Tracked components (provider types only)
+}
+// A component as listed by a provider, with its raw status value
+export interface VendorProviderComponent {
+  id: string;
+  name: string;
+  status: string;
+}
+// Result of the "evaluate now" action in the vendor sheet
+export interface VendorEvaluation {
+  status: VendorStatusOption;
+  incident: string | null;
+  detail: string; // Which rule or indicator decided the status, or why it is Unknown
+}
+// Result of the "load components" action in the vendor sheet
+export interface VendorProviderPreview {
+  overall: string; // Raw page-level indicator
+  status: VendorStatusOption; // What the dashboard would show with the given components and mapping
+  incident: string | null;
+  components: VendorProviderComponent[];
+  defaultMapping: VendorIndicatorMappingItem[];
+}
+// Vendor status transitions observed by the poller (/api/feeds/vendors.atom)
+export interface VendorStatusTransition {
+  vendorId: string;
+  name: string;
+  url: string;
+  from: VendorStatusOption;
+  to: VendorStatusOption;
+  at: string; // ISO 8601 string
+}
+export interface VendorStatusHistory {
+  id: string; // Singleton ID
+  transitions: VendorStatusTransition[]; // Most recent first (bounded)
 }
 export interface MonitoringAlert {
   id: string;
@@ -44,6 +185,19 @@ export interface MonitoringAlert {
   validated: boolean;
   nodeCaption?: string;
   issue?: string;
+  acknowledgedBy?: string | null;
+  acknowledgedAt?: string | null; // ISO 8601 string
+}
+// Acknowledgements made from the dashboard (Orion records the API account, not the operator)
+export interface AlertAcknowledgement {
+  alertId: string;
+  acknowledgedBy: string;
+  acknowledgedAt: string; // ISO 8601 string
+  note: string | null;
+}
+export interface AlertAcknowledgementLog {
+  id: string; // Singleton ID
+  acknowledgements: Record<string, AlertAcknowledgement>; // Keyed by alert id
 }
 export interface ServiceNowTicket {
   id: string;
@@ -61,6 +215,195 @@ export interface CollaborationBridge {
   isHighSeverity: boolean;
   teamsCallUrl: string;
 }
+// Normalized change request served by /api/changes/today and /api/changes
+export type ChangeConflictKind = 'offering' | 'ci' | 'outage';
+export interface ChangeConflict {
+  kind: ChangeConflictKind; // Same offering / same CI as another change, or an active outage
+  with: string; // Other change number or outage id
+}
+export interface ScheduledChange {
+  id: string;
+  sysId: string;
+  number: string;
+  offering: string;
+  ci: string | null;
+  title: string;
+  summary: string;
+  state: string;
+  type: string;
+  start: string | null; // ISO 8601 string
+  end: string | null; // ISO 8601 string
+  windowStart: string | null;
+  windowEnd: string | null;
+  url: string;
+  conflicts?: ChangeConflict[]; // /api/changes only
+}
+// Integration feeds polled on a schedule and cached as snapshots
+export type IntegrationFeed = 'outages' | 'alerts' | 'vendors' | 'tickets' | 'changes' | 'change-calendar';
+export interface FeedSnapshot<T = unknown> {
+  id: IntegrationFeed;
+  data: T | null;
+  fetchedAt: string | null; // ISO 8601 string of the last poll
+  error: string | null; // Error from the last poll, if it failed
+}
+// Change events pushed to connected dashboards over /api/stream
+export type DashboardEventBody =
+  | { type: 'outage.added' | 'outage.updated'; outage: Outage }
+  | { type: 'outage.resolved'; id: string }
+  | { type: 'alert.triggered' | 'alert.acknowledged'; alert: MonitoringAlert }
+  | { type: 'alert.cleared'; id: string }
+  | { type: 'vendor.status'; vendor: VendorStatus; previous: VendorStatusOption }
+  | { type: 'bridge.created' | 'bridge.updated'; bridge: CollaborationBridge }
+  | { type: 'bridge.deleted'; id: string };
+export type DashboardEvent = DashboardEventBody & {
+  seq: number; // Monotonic sequence number (used as the SSE event id)
+  ts: string; // ISO 8601 string
+};
+export interface DashboardEventLog {
+  id: string; // Singleton ID
+  seq: number;
+  events: DashboardEvent[]; // Most recent events only (ring buffer)
+}
+// Outbound notification channels
+export type NotificationChannelType = 'TEAMS' | 'SLACK' | 'WEBHOOK';
+export type NotificationRuleType = 'OUTAGE_IMPACT' | 'VENDOR_OUTAGE' | 'ALERT_UNACKNOWLEDGED';
+export interface NotificationRule {
+  type: NotificationRuleType;
+  systemPattern?: string | null; // Case-insensitive regex on system/vendor name; empty matches all
+  impactLevels?: ImpactLevel[] | null; // OUTAGE_IMPACT only (default ['Outage'])
+  minutes?: number | null; // ALERT_UNACKNOWLEDGED only (default 15)
+}
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  webhookUrl: string;
+  enabled: boolean;
+  rules: NotificationRule[];
+  rateLimitPerHour: number;
+}
+export type NotificationDeliveryStatus = 'sent' | 'failed' | 'rate-limited';
+export interface NotificationDelivery {
+  id: string;
+  channelId: string;
+  channelName: string;
+  ruleType: NotificationRuleType | 'TEST';
+  dedupeKey: string;
+  title: string;
+  status: NotificationDeliveryStatus;
+  httpStatus: number | null;
+  error: string | null;
+  at: string; // ISO 8601 string
+}
+export interface NotificationLog {
+  id: string; // Singleton ID
+  deliveries: NotificationDelivery[]; // Most recent first (bounded)
+  notified: Record<string, string>; // "<channelId>|<dedupeKey>" -> ISO time first notified
+}
+// Inbound webhooks (/api/ingest/*): payloads that were refused, kept for troubleshooting
+export type IngestSource = 'servicenow' | 'solarwinds';
+export interface IngestRejection {
+  id: string;
+  source: IngestSource;
+  status: number; // HTTP status returned to the sender
+  reason: string;
+  payloadExcerpt: string; // First characters of the raw body
+  at: string; // ISO 8601 string
+}
+export interface IngestLog {
+  id: string; // Singleton ID
+  rejections: IngestRejection[]; // Most recent first (bounded)
+}
+// Public status page (/status, /api/status): published systems and vendors only, no internal
+// IDs, descriptions or bridge links
+export interface StatusPageSystem {
+  systemName: string; // Outage system name as reported by ServiceNow (case-insensitive match)
+  displayName: string; // Name shown publicly
+}
+export interface StatusPageMessage {
+  message: string;
+  updatedAt: string; // ISO 8601 string
+}
+export interface StatusPageConfig {
+  id: string; // Singleton ID
+  title: string;
+  systems: StatusPageSystem[];
+  vendorIds: string[];
+  messages: Record<string, StatusPageMessage>; // Public message keyed by outage id
+}
+export interface PublicStatusComponent {
+  name: string;
+  group: 'system' | 'vendor';
+  status: VendorStatusOption;
+}
+export interface PublicIncident {
+  id: string; // Opaque, stable across requests (hash of the outage id)
+  component: string; // Display name of the published system
+  status: VendorStatusOption; // Degraded or Outage
+  message: string;
+  startedAt: string; // ISO 8601 string
+  eta: string | null; // ISO 8601 string
+  resolvedAt: string | null; // ISO 8601 string
+  updatedAt: string; // ISO 8601 string
+}
+export interface PublicStatus {
+  title: string;
+  overall: VendorStatusOption; // Worst component status
+  components: PublicStatusComponent[];
+  incidents: PublicIncident[]; // Ongoing first, then resolved in the last 7 days
+  generatedAt: string; // ISO 8601 string
+}
+// Access control: callers are identified by a Cloudflare Access JWT or an API token
+export type UserRole = 'viewer' | 'operator' | 'admin';
+export interface DashboardPermissions {
+  operate: boolean; // Declare / update outages, acknowledge alerts, bridges, status page messages
+  configure: boolean; // Integrations, vendors, notifications, API tokens
+}
+export interface DashboardConfig {
+  enableManagement: boolean; // True when the caller may change anything (kept for older clients)
+  authMode: 'access' | 'legacy'; // legacy: no Access configured, ENABLE_MANAGEMENT decides
+  user: { name: string; via: 'access' | 'token' } | null;
+  role: UserRole;
+  permissions: DashboardPermissions;
+}
+export interface ApiToken {
+  id: string; // SHA-256 hex of the token; the token itself is only returned once
+  name: string;
+  role: UserRole;
+  prefix: string; // First characters of the token, to tell tokens apart
+  createdBy: string;
+  createdAt: string; // ISO 8601 string
+  lastUsedAt: string | null; // ISO 8601 string
+}
+export interface ApiTokenCreated {
+  token: string;
+  apiToken: ApiToken;
+}
+// Audit log: one entry per POST / PUT / PATCH / DELETE request
+export interface AuditChange {
+  path: string; // Field path, e.g. "impactLevelMapping[2].dashboardValue"
+  before: unknown; // null when the field was added
+  after: unknown; // null when the field was removed
+}
+export interface AuditEntry {
+  id: string; // Inverted timestamp + random suffix, so the index lists newest first
+  at: string; // ISO 8601 string
+  actor: string; // Access email, API token name, 'webhook' or 'anonymous' (legacy mode)
+  via: 'access' | 'token' | 'webhook' | null;
+  role: UserRole | null;
+  method: string;
+  route: string; // Route pattern, e.g. /api/vendors/:id
+  path: string;
+  status: number; // HTTP status of the response
+  entity: string | null; // e.g. 'vendor', 'servicenow-config'; null for actions that change nothing stored
+  entityId: string | null;
+  changes: AuditChange[];
+  omittedChanges: number; // Changes beyond the stored limit
+}
+export interface AuditPage {
+  items: AuditEntry[];
+  next: string | null; // Cursor for the next (older) page
+}
 // New ServiceNow Configuration Types
 export interface ServiceNowFieldMapping {
   systemName: string;
@@ -78,10 +421,39 @@ export interface ServiceNowTicketFieldMapping {
   assignedTeam: string;
   priority: string;
 }
+export interface ServiceNowChangeFieldMapping {
+  id: string;
+  summary: string;
+  state: string;
+  type: string;
+  start: string;
+  end: string;
+  plannedStart: string; // Used when the actual start/end are empty
+  plannedEnd: string;
+  offering: string;
+  ci: string;
+}
 export interface ImpactLevelMappingItem {
   servicenowValue: string;
   dashboardValue: ImpactLevel;
 }
+// Editable filter/limit/order for each ServiceNow feed. Time windows (history range, "today" for
+// changes) are still added by the worker; the query here is ANDed with them.
+export type ServiceNowFeedName = 'outages' | 'tickets' | 'history' | 'changes';
+export interface ServiceNowFeedQuery {
+  query: string; // Encoded query (sysparm_query) without ORDERBY
+  limit: number; // sysparm_limit (page size for history)
+  orderBy: string; // Comma-separated fields, "-" prefix for descending (e.g. "-sys_updated_on")
+}
+// Result of the "preview results" action in the ServiceNow sheet
+export interface ServiceNowFeedPreview {
+  feed: ServiceNowFeedName;
+  table: string;
+  query: string; // Full encoded query sent to ServiceNow
+  count: number; // Rows returned (at most the limit)
+  columns: string[];
+  rows: Record<string, string>[]; // First rows, display values
+}
 export interface ServiceNowConfig {
   id: string; // Singleton ID
   enabled: boolean;
@@ -93,14 +465,95 @@ export interface ServiceNowConfig {
   impactLevelMapping: ImpactLevelMappingItem[];
   ticketTable: string;
   ticketFieldMapping: ServiceNowTicketFieldMapping;
+  changeTable: string;
+  changeFieldMapping: ServiceNowChangeFieldMapping;
+  changeAllowedStates: string[]; // State labels shown (substring match, case-insensitive); empty allows all
+  feedQueries: Record<ServiceNowFeedName, ServiceNowFeedQuery>;
 }
 // New SolarWinds Configuration Type
+export interface SeverityMappingItem {
+  solarwindsValue: string; // Orion.AlertConfigurations.Severity (e.g. "2") or its name
+  dashboardValue: AlertSeverity;
+}
 export interface SolarWindsConfig {
   id: string; // Singleton ID
   enabled: boolean;
   apiUrl: string;
   usernameVar: string;
   passwordVar: string;
+  severityMapping: SeverityMappingItem[];
+}
+// Saved versions of the ServiceNow / SolarWinds configs, kept on every save for diff and rollback
+export type VersionedConfigName = 'servicenow' | 'solarwinds';
+export interface ConfigVersion<T = ServiceNowConfig | SolarWindsConfig> {
+  id: string; // "<config>:<inverted version>", so the index lists each config's versions newest first
+  configName: VersionedConfigName;
+  version: number; // Storage document version (Doc.v) written by the save
+  savedAt: string | null; // ISO 8601 string; null for the config found when version history started
+  savedBy: string | null; // Caller name, 'anonymous' (legacy mode); null when unknown
+  rollbackOf: number | null; // Version restored when the save was a rollback
+  config: T;
+}
+export interface ConfigVersionPage<T = ServiceNowConfig | SolarWindsConfig> {
+  items: ConfigVersion<T>[];
+  next: string | null; // Cursor for the next (older) page
+}
+export interface ConfigVersionDiff {
+  from: number;
+  to: number;
+  changes: AuditChange[];
+}
+// Runtime settings kept in KV with an env fallback (/api/settings)
+export type RuntimeSettingType = 'boolean' | 'integer' | 'url' | 'list';
+export interface RuntimeSetting {
+  key: string; // KV key and env var name, e.g. SOLARWINDS_EXCLUDE_CAPTIONS
+  type: RuntimeSettingType;
+  description: string;
+  value: string; // Effective value as stored; lists are comma-separated
+  source: 'kv' | 'env' | 'default';
+  envValue: string | null; // Used once the KV key is removed; null falls back to the default
+  defaultValue: string;
+  min: number | null; // Integer bounds
+  max: number | null;
+}
+// Portable dashboard configuration (/api/admin/export, /api/admin/import). Credentials are never
+// included: the integration configs only name the environment variables that hold them.
+export interface ConfigBundle {
+  format: 'aegis-dashboard-config';
+  version: 1; // Bumped on incompatible changes; import rejects other versions
+  exportedAt: string; // ISO 8601 string
+  exportedBy: string | null;
+  vendors: Vendor[];
+  servicenowConfig: ServiceNowConfig;
+  solarwindsConfig: SolarWindsConfig;
+  bridges: CollaborationBridge[];
+  kv: Record<string, string>; // Runtime settings set in KV (env values are not exported)
+}
+// merge: create and update what the bundle contains; replace: also delete what it doesn't
+export type ConfigImportMode = 'merge' | 'replace';
+export type ConfigImportAction = 'create' | 'update' | 'delete' | 'unchanged';
+export interface ConfigImportItem {
+  kind: 'vendor' | 'bridge' | 'servicenow-config' | 'solarwinds-config' | 'kv';
+  id: string; // Entity id, or the KV key
+  label: string;
+  action: ConfigImportAction;
+  changes: AuditChange[];
+}
+export interface ConfigImportResult {
+  mode: ConfigImportMode;
+  dryRun: boolean; // true: nothing was written
+  items: ConfigImportItem[]; // Created, updated and deleted items; unchanged ones are only counted
+  counts: Record<ConfigImportAction, number>;
+  blocked: string | null; // Why applying would be refused (KV settings that lock the caller out)
+}
+// Result of the SolarWinds "test connection" action
+export interface SolarWindsConnectionTestResult {
+  ok: boolean;
+  status: number | null; // HTTP status, null when the request never completed
+  auth: 'ok' | 'failed' | 'missing-credentials' | 'unknown';
+  tls: 'ok' | 'failed' | 'not-used' | 'unknown';
+  latencyMs: number | null;
+  message: string;
 }
 // --- Original Template Types (can be removed if not used) ---
 export interface User {
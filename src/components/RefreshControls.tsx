@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { RefreshCw } from 'lucide-react';
+import { RefreshCw, Radio } from 'lucide-react';
+import type { StreamStatus } from '../hooks/useDashboardStream';
 
 interface RefreshControlsProps {
   onRefreshToggle: (enabled: boolean) => void;
@@ -7,6 +8,7 @@ interface RefreshControlsProps {
   isRefreshing?: boolean;
   autoRefreshEnabled?: boolean;
   refreshInterval?: number;
+  streamStatus?: StreamStatus;
 }
 
 export default function RefreshControls({
@@ -15,7 +17,9 @@ export default function RefreshControls({
   isRefreshing = false,
   autoRefreshEnabled = false,
   refreshInterval = 5,
+  streamStatus = 'offline',
 }: RefreshControlsProps) {
+  const isLive = streamStatus === 'live';
   const [inputValue, setInputValue] = useState(String(refreshInterval));
 
   // Sync input value when refreshInterval prop changes
@@ -81,11 +85,20 @@ export default function RefreshControls({
         </span>
       </div>
 
-      {autoRefreshEnabled && (
-        <div className="text-xs text-gray-500 dark:text-gray-400 ml-auto">
-          Next refresh in {refreshInterval} min
+      <div className="flex items-center gap-3 ml-auto">
+        {autoRefreshEnabled && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Next refresh in {refreshInterval} min
+          </div>
+        )}
+        <div
+          className={`flex items-center gap-1.5 text-xs font-medium ${isLive ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}
+          title={isLive ? 'Receiving live updates; tickets, changes and trends still refresh on the timer' : 'Live updates disconnected; using polling'}
+        >
+          <Radio className="h-4 w-4" />
+          {isLive ? 'Live' : streamStatus === 'connecting' ? 'Reconnecting…' : 'Offline'}
         </div>
-      )}
+      </div>
     </div>
   );
 }
@@ -10,8 +10,9 @@ import { useDashboardStore } from '@/stores/dashboard-store';
 import { cn } from '@/lib/utils';
 import { useShallow } from 'zustand/react/shallow';
 import { ManageBridgesSheet } from './ManageBridgesSheet';
+import { useDashboardEvents } from '@/hooks/useDashboardStream';
 
-export function ActiveCollaborationBridgesPanel() {
+export function ActiveCollaborationBridgesPanel({ managementEnabled }: { managementEnabled?: boolean }) {
   const [bridges, setBridges] = useState<CollaborationBridge[]>([]);
   const [isSheetOpen, setIsSheetOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -40,6 +41,16 @@ export function ActiveCollaborationBridgesPanel() {
   useEffect(() => {
     fetchBridges();
   }, [refreshCounter, fetchBridges]);
+  // Apply pushed changes in place instead of refetching
+  useDashboardEvents((event) => {
+    if (event.type === 'bridge.created') {
+      setBridges((prev) => [...prev.filter((b) => b.id !== event.bridge.id), event.bridge]);
+    } else if (event.type === 'bridge.updated') {
+      setBridges((prev) => prev.map((b) => (b.id === event.bridge.id ? event.bridge : b)));
+    } else if (event.type === 'bridge.deleted') {
+      setBridges((prev) => prev.filter((b) => b.id !== event.id));
+    }
+  });
   const filteredBridges = useMemo(() => {
     return bridges.filter(bridge => {
       const query = searchQuery.toLowerCase();
@@ -54,10 +65,12 @@ export function ActiveCollaborationBridgesPanel() {
         className="lg:col-span-1"
         contentClassName="pt-2"
         actions={
-          <Button variant="ghost" size="sm" className="gap-2" onClick={() => setIsSheetOpen(true)}>
-            <Settings className="size-4" />
-            Manage
-          </Button>
+          managementEnabled ? (
+            <Button variant="ghost" size="sm" className="gap-2" onClick={() => setIsSheetOpen(true)}>
+              <Settings className="size-4" />
+              Manage
+            </Button>
+          ) : null
         }
       >
         <Toaster richColors />
@@ -3,9 +3,9 @@ import { DataCard } from './DataCard';
 import { StatusIndicator } from './StatusIndicator';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertTriangle, Phone, Clock, Settings, AlertCircle } from 'lucide-react';
+import { AlertTriangle, Phone, Clock, Settings, AlertCircle, Megaphone } from 'lucide-react';
 import { formatDistanceToNow, parseISO, isWithinInterval } from 'date-fns';
-import type { Outage, ImpactLevel } from '@shared/types';
+import type { Outage, ImpactLevel, DashboardPermissions } from '@shared/types';
 import { Toaster, toast } from '@/components/ui/sonner';
 import { useDashboardStore } from '@/stores/dashboard-store';
 import { useShallow } from 'zustand/react/shallow';
@@ -16,6 +16,9 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { ManageServiceNowSheet } from './ManageServiceNowSheet';
+import { OutageDetailSheet } from './OutageDetailSheet';
+import { DeclareOutageSheet } from './DeclareOutageSheet';
+import { useDashboardEvents } from '@/hooks/useDashboardStream';
 
 const impactLevelColors: Record<ImpactLevel, string> = {
   Outage: 'text-red-500 border-red-500/50 bg-red-500/10',
@@ -47,16 +50,18 @@ function getEtaTooltip(eta: string | null | undefined): string {
 }
 
 type Props = {
-  managementEnabled?: boolean;
+  permissions?: DashboardPermissions;
   /** Incremented by HomePage whenever a manual/auto refresh occurs */
   refreshTick?: number;
 };
 
-export function ActiveOutagesPanel({ managementEnabled, refreshTick }: Props) {
+export function ActiveOutagesPanel({ permissions, refreshTick }: Props) {
   const [outages, setOutages] = useState<Outage[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const [selectedOutageId, setSelectedOutageId] = useState<string | null>(null);
+  const [outageForm, setOutageForm] = useState<{ open: boolean; outage: Outage | null }>({ open: false, outage: null });
 
   const { searchQuery, selectedImpactLevels, dateRange, refreshCounter } = useDashboardStore(
     useShallow((state) => ({
@@ -104,6 +109,17 @@ export function ActiveOutagesPanel({ managementEnabled, refreshTick }: Props) {
     // include both so either mechanism triggers refresh
   }, [refreshCounter, refreshTick, fetchOutages]);
 
+  // Apply pushed changes in place instead of refetching
+  useDashboardEvents((event) => {
+    if (event.type === 'outage.added') {
+      setOutages((prev) => [event.outage, ...prev.filter((o) => o.id !== event.outage.id)]);
+    } else if (event.type === 'outage.updated') {
+      setOutages((prev) => prev.map((o) => (o.id === event.outage.id ? event.outage : o)));
+    } else if (event.type === 'outage.resolved') {
+      setOutages((prev) => prev.filter((o) => o.id !== event.id));
+    }
+  });
+
   const filteredOutages = useMemo(() => {
     return outages.filter((outage) => {
       const query = searchQuery.toLowerCase();
@@ -137,11 +153,19 @@ export function ActiveOutagesPanel({ managementEnabled, refreshTick }: Props) {
         className="lg:col-span-2"
         contentClassName="pt-2"
         actions={
-          managementEnabled ? (
-            <Button variant="ghost" size="sm" className="gap-2" onClick={() => setIsSheetOpen(true)}>
-              <Settings className="size-4" />
-              Manage
-            </Button>
+          permissions?.operate ? (
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => setOutageForm({ open: true, outage: null })}>
+                <Megaphone className="size-4" />
+                Declare outage
+              </Button>
+              {permissions.configure && (
+                <Button variant="ghost" size="sm" className="gap-2" onClick={() => setIsSheetOpen(true)}>
+                  <Settings className="size-4" />
+                  Manage
+                </Button>
+              )}
+            </div>
           ) : null
         }
       >
@@ -154,14 +178,16 @@ export function ActiveOutagesPanel({ managementEnabled, refreshTick }: Props) {
               <AlertCircle className="mx-auto size-12 text-yellow-500 mb-4" />
               <h3 className="font-semibold text-lg text-foreground">ServiceNow Not Configured</h3>
               <p className="mb-4">The ServiceNow integration needs to be configured to display live outages.</p>
-              <Button onClick={() => setIsSheetOpen(true)}>Configure Now</Button>
+              {permissions?.configure && <Button onClick={() => setIsSheetOpen(true)}>Configure Now</Button>}
             </div>
           ) : error ? (
             <div className="text-center text-muted-foreground py-8">
               <p className="text-red-500">{error}</p>
             </div>
           ) : filteredOutages.length > 0 ? (
-            filteredOutages.map((outage) => <OutageItem key={outage.id} outage={outage} />)
+            filteredOutages.map((outage) => (
+              <OutageItem key={outage.id} outage={outage} onSelect={() => setSelectedOutageId(outage.id)} />
+            ))
           ) : (
             <div className="text-center text-muted-foreground py-8">
               <p>No active outages match your criteria.</p>
@@ -175,16 +201,48 @@ export function ActiveOutagesPanel({ managementEnabled, refreshTick }: Props) {
         onOpenChange={setIsSheetOpen}
         onConfigUpdate={() => fetchOutages()}
       />
+
+      <OutageDetailSheet
+        outageId={selectedOutageId}
+        onOpenChange={(open) => !open && setSelectedOutageId(null)}
+        managementEnabled={permissions?.operate}
+        onEdit={(outage) => {
+          setSelectedOutageId(null);
+          setOutageForm({ open: true, outage });
+        }}
+        onResolved={(id) => {
+          setSelectedOutageId(null);
+          setOutages((prev) => prev.filter((o) => o.id !== id));
+        }}
+      />
+
+      <DeclareOutageSheet
+        isOpen={outageForm.open}
+        outage={outageForm.outage}
+        onOpenChange={(open) => setOutageForm((prev) => ({ ...prev, open }))}
+        onSaved={(saved) => setOutages((prev) => [saved, ...prev.filter((o) => o.id !== saved.id)])}
+      />
     </>
   );
 }
 
-function OutageItem({ outage }: { outage: Outage }) {
+function OutageItem({ outage, onSelect }: { outage: Outage; onSelect: () => void }) {
   const etaLabel = getEtaLabel(outage.eta);
   const etaTooltip = getEtaTooltip(outage.eta);
 
   return (
-    <div className="p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors">
+    <div
+      role="button"
+      tabIndex={0}
+      className="p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors cursor-pointer"
+      onClick={onSelect}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+    >
       <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-4">
         <div className="flex-1">
           <div className="flex items-center gap-3 mb-2">
@@ -206,7 +264,10 @@ function OutageItem({ outage }: { outage: Outage }) {
               size="sm"
               variant="secondary"
               className="gap-2"
-              onClick={() => window.open(outage.teamsBridgeUrl as string, '_blank', 'noopener,noreferrer')}
+              onClick={(e) => {
+                e.stopPropagation();
+                window.open(outage.teamsBridgeUrl as string, '_blank', 'noopener,noreferrer');
+              }}
             >
               <Phone className="size-4" />
               Join Call
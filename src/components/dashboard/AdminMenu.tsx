@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Settings, Bell, Globe, KeyRound, History, FileJson, SlidersHorizontal } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { DashboardPermissions } from '@shared/types';
+import { ManageNotificationsSheet } from './ManageNotificationsSheet';
+import { ManageStatusPageSheet } from './ManageStatusPageSheet';
+import { ManageApiTokensSheet } from './ManageApiTokensSheet';
+import { AuditLogSheet } from './AuditLogSheet';
+import { ImportExportSheet } from './ImportExportSheet';
+import { ManageSettingsSheet } from './ManageSettingsSheet';
+// Entry point for dashboard-wide management sheets that don't belong to a single panel
+export function AdminMenu({ permissions }: { permissions: DashboardPermissions }) {
+  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [isStatusPageOpen, setIsStatusPageOpen] = useState(false);
+  const [isApiTokensOpen, setIsApiTokensOpen] = useState(false);
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
+  const [isImportExportOpen, setIsImportExportOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="gap-2">
+            <Settings className="size-4" />
+            <span className="hidden sm:inline">Manage</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Dashboard settings</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {permissions.configure && (
+            <DropdownMenuItem onSelect={() => setIsNotificationsOpen(true)}>
+              <Bell className="mr-2 size-4" /> Notifications
+            </DropdownMenuItem>
+          )}
+          {permissions.configure && (
+            <DropdownMenuItem onSelect={() => setIsStatusPageOpen(true)}>
+              <Globe className="mr-2 size-4" /> Public status page
+            </DropdownMenuItem>
+          )}
+          {permissions.configure && (
+            <DropdownMenuItem onSelect={() => setIsSettingsOpen(true)}>
+              <SlidersHorizontal className="mr-2 size-4" /> Runtime settings
+            </DropdownMenuItem>
+          )}
+          {permissions.configure && (
+            <DropdownMenuItem onSelect={() => setIsApiTokensOpen(true)}>
+              <KeyRound className="mr-2 size-4" /> API tokens
+            </DropdownMenuItem>
+          )}
+          {permissions.configure && (
+            <DropdownMenuItem onSelect={() => setIsAuditLogOpen(true)}>
+              <History className="mr-2 size-4" /> Audit log
+            </DropdownMenuItem>
+          )}
+          {permissions.configure && (
+            <DropdownMenuItem onSelect={() => setIsImportExportOpen(true)}>
+              <FileJson className="mr-2 size-4" /> Export / import
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ManageNotificationsSheet isOpen={isNotificationsOpen} onOpenChange={setIsNotificationsOpen} />
+      <ManageStatusPageSheet isOpen={isStatusPageOpen} onOpenChange={setIsStatusPageOpen} />
+      <ManageApiTokensSheet isOpen={isApiTokensOpen} onOpenChange={setIsApiTokensOpen} />
+      <AuditLogSheet isOpen={isAuditLogOpen} onOpenChange={setIsAuditLogOpen} />
+      <ImportExportSheet isOpen={isImportExportOpen} onOpenChange={setIsImportExportOpen} />
+      <ManageSettingsSheet isOpen={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+    </>
+  );
+}
@@ -0,0 +1,332 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+  SheetFooter,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { format, endOfDay, startOfDay } from 'date-fns';
+import { api } from '@/lib/api-client';
+import type { AuditChange, AuditEntry, AuditPage } from '@shared/types';
+import { toast } from '@/components/ui/sonner';
+import { ChevronRight, Download, Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const ALL = 'all';
+const ENTITIES = [
+  'outage',
+  'alert',
+  'bridge',
+  'vendor',
+  'servicenow-config',
+  'solarwinds-config',
+  'notification-channel',
+  'status-page-config',
+  'api-token',
+  'config-bundle',
+  'settings',
+];
+const METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const EXPORT_PAGE_SIZE = 500;
+const MAX_EXPORT_ENTRIES = 10_000;
+
+interface Filters {
+  actor: string;
+  route: string;
+  entity: string;
+  method: string;
+  outcome: string;
+  from: string; // yyyy-MM-dd
+  to: string; // yyyy-MM-dd
+}
+const EMPTY_FILTERS: Filters = { actor: '', route: '', entity: ALL, method: ALL, outcome: ALL, from: '', to: '' };
+
+const toQuery = (filters: Filters, cursor: string | null, limit?: number) => {
+  const params = new URLSearchParams();
+  if (filters.actor.trim()) params.set('actor', filters.actor.trim());
+  if (filters.route.trim()) params.set('route', filters.route.trim());
+  if (filters.entity !== ALL) params.set('entity', filters.entity);
+  if (filters.method !== ALL) params.set('method', filters.method);
+  if (filters.outcome !== ALL) params.set('outcome', filters.outcome);
+  if (filters.from) params.set('from', startOfDay(new Date(`${filters.from}T00:00`)).toISOString());
+  if (filters.to) params.set('to', endOfDay(new Date(`${filters.to}T00:00`)).toISOString());
+  if (cursor) params.set('cursor', cursor);
+  if (limit) params.set('limit', String(limit));
+  return params.toString();
+};
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value));
+
+const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+const download = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// One row per changed field, so the CSV can be filtered in a spreadsheet
+const toCsv = (entries: AuditEntry[]) => {
+  const header = ['Time', 'Actor', 'Via', 'Role', 'Method', 'Route', 'Path', 'Status', 'Entity', 'Entity ID', 'Field', 'Before', 'After'];
+  const rows = entries.flatMap((e) => {
+    const base = [e.at, e.actor, e.via ?? '', e.role ?? '', e.method, e.route, e.path, e.status, e.entity ?? '', e.entityId ?? ''];
+    const changes = e.changes.length > 0 ? e.changes : [null];
+    return changes.map((change) => [
+      ...base,
+      change?.path ?? '',
+      change ? formatValue(change.before) : '',
+      change ? formatValue(change.after) : '',
+    ].map(csvCell).join(','));
+  });
+  return [header.join(','), ...rows].join('\n');
+};
+
+// Field path, old value (struck through) and new value; also used by the config version diff
+export function ChangeList({ changes }: { changes: AuditChange[] }) {
+  return (
+    <>
+      {changes.map((change) => (
+        <div key={change.path} className="grid grid-cols-[minmax(0,1fr),minmax(0,1fr),minmax(0,1fr)] gap-2 text-xs">
+          <span className="font-mono break-all">{change.path}</span>
+          <span className="break-all text-red-600 dark:text-red-400 line-through decoration-red-400/50">{formatValue(change.before)}</span>
+          <span className="break-all text-green-700 dark:text-green-400">{formatValue(change.after)}</span>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function AuditEntryItem({ entry }: { entry: AuditEntry }) {
+  const failed = entry.status >= 400;
+  return (
+    <Collapsible className="rounded-md border p-2 text-sm">
+      <CollapsibleTrigger className="group flex w-full items-start gap-2 text-left">
+        <ChevronRight className="size-4 mt-0.5 shrink-0 transition-transform group-data-[state=open]:rotate-90" />
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className="font-mono text-[10px]">{entry.method}</Badge>
+            <span className="font-mono text-xs truncate">{entry.route}</span>
+            <Badge variant={failed ? 'destructive' : 'secondary'} className="text-[10px]">{entry.status}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {format(new Date(entry.at), 'PPpp')} · {entry.actor}
+            {entry.role && ` (${entry.role})`}
+            {entry.entity && ` · ${entry.entity}${entry.entityId ? ` ${entry.entityId}` : ''}`}
+            {entry.changes.length > 0 && ` · ${entry.changes.length + entry.omittedChanges} change${entry.changes.length + entry.omittedChanges === 1 ? '' : 's'}`}
+          </p>
+        </div>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-2 pl-6 space-y-1">
+        <p className="text-xs text-muted-foreground font-mono break-all">{entry.path}</p>
+        {entry.changes.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No stored data changed.</p>
+        ) : (
+          <div className="space-y-1">
+            <ChangeList changes={entry.changes} />
+            {entry.omittedChanges > 0 && <p className="text-xs text-muted-foreground">…and {entry.omittedChanges} more</p>}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+interface AuditLogSheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+export function AuditLogSheet({ isOpen, onOpenChange }: AuditLogSheetProps) {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [next, setNext] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const fetchPage = useCallback(async (query: Filters, cursor: string | null) => {
+    const page = await api<AuditPage>(`/api/audit?${toQuery(query, cursor)}`);
+    setEntries((prev) => (cursor ? [...prev, ...page.items] : page.items));
+    setNext(page.next);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    fetchPage(applied, null)
+      .catch((error) => toast.error(error instanceof Error ? error.message : 'Failed to load the audit log.'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, applied, fetchPage]);
+
+  const setFilter = (key: keyof Filters, value: string) => setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      await fetchPage(applied, next);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load more entries.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Exports everything matching the applied filters, not just the loaded pages
+  const handleExport = async (kind: 'csv' | 'json') => {
+    setIsExporting(true);
+    try {
+      const all: AuditEntry[] = [];
+      let cursor: string | null = null;
+      do {
+        const page: AuditPage = await api<AuditPage>(`/api/audit?${toQuery(applied, cursor, EXPORT_PAGE_SIZE)}`);
+        all.push(...page.items);
+        cursor = page.next;
+      } while (cursor && all.length < MAX_EXPORT_ENTRIES);
+      const stamp = format(new Date(), 'yyyyMMdd-HHmm');
+      if (kind === 'csv') download(toCsv(all), 'text/csv;charset=utf-8;', `audit-log-${stamp}.csv`);
+      else download(JSON.stringify(all, null, 2), 'application/json', `audit-log-${stamp}.json`);
+      if (cursor) toast.info(`Exported the newest ${all.length} entries; narrow the filters to export older ones.`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle>Audit Log</SheetTitle>
+          <SheetDescription>Every change made through the dashboard API: who, which route, and what changed.</SheetDescription>
+        </SheetHeader>
+        <form
+          className="grid grid-cols-2 sm:grid-cols-4 gap-2 pt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setApplied(filters);
+          }}
+        >
+          <div>
+            <Label htmlFor="audit-actor" className="text-xs">Actor</Label>
+            <Input id="audit-actor" value={filters.actor} onChange={(e) => setFilter('actor', e.target.value)} placeholder="name or email" />
+          </div>
+          <div>
+            <Label htmlFor="audit-route" className="text-xs">Route</Label>
+            <Input id="audit-route" value={filters.route} onChange={(e) => setFilter('route', e.target.value)} placeholder="/api/vendors" />
+          </div>
+          <div>
+            <Label className="text-xs">Entity</Label>
+            <Select value={filters.entity} onValueChange={(value) => setFilter('entity', value)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All entities</SelectItem>
+                {ENTITIES.map((entity) => <SelectItem key={entity} value={entity}>{entity}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Method</Label>
+            <Select value={filters.method} onValueChange={(value) => setFilter('method', value)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All methods</SelectItem>
+                {METHODS.map((method) => <SelectItem key={method} value={method}>{method}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Outcome</Label>
+            <Select value={filters.outcome} onValueChange={(value) => setFilter('outcome', value)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any outcome</SelectItem>
+                <SelectItem value="success">Succeeded</SelectItem>
+                <SelectItem value="failed">Failed / refused</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-from" className="text-xs">From</Label>
+            <Input id="audit-from" type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="audit-to" className="text-xs">To</Label>
+            <Input id="audit-to" type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+          </div>
+          <div className="flex items-end gap-2">
+            <Button type="submit" className="gap-2 flex-1">
+              <Search className="size-4" /> Apply
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => {
+                setFilters(EMPTY_FILTERS);
+                setApplied(EMPTY_FILTERS);
+              }}
+            >
+              Reset
+            </Button>
+          </div>
+        </form>
+        <ScrollArea className="-mx-6 flex-1 px-6 mt-4">
+          <div className="space-y-2 pb-4">
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => <Skeleton key={i} className="h-14 w-full" />)
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {next ? 'No matches in the newest entries scanned.' : 'No audit entries match these filters.'}
+              </p>
+            ) : (
+              entries.map((entry) => <AuditEntryItem key={entry.id} entry={entry} />)
+            )}
+            {!isLoading && next && (
+              <Button variant="outline" className={cn('w-full', isLoadingMore && 'opacity-70')} onClick={handleLoadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? 'Loading...' : 'Load older entries'}
+              </Button>
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className="mt-auto pt-4">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="gap-2" disabled={isExporting}>
+                <Download className="size-4" />
+                {isExporting ? 'Exporting...' : 'Export'}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => handleExport('csv')}>CSV (one row per change)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleExport('json')}>JSON</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useEffect, useState, useMemo, useCallback } from 'react';
+import { DataCard } from './DataCard';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Activity, Download, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { Line, LineChart, ResponsiveContainer, YAxis } from 'recharts';
+import type { AvailabilityReport, SystemAvailability } from '@shared/types';
+import { api } from '@/lib/api-client';
+import { toast } from '@/components/ui/sonner';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { useDashboardStore } from '@/stores/dashboard-store';
+import { cn } from '@/lib/utils';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+const RANGE_OPTIONS = [3, 6, 12] as const;
+type RangeMonths = typeof RANGE_OPTIONS[number];
+type SortKey = 'systemName' | 'availability' | 'outages' | 'downtimeMinutes' | 'mttrMinutes' | 'mtbfMinutes';
+type SortDir = 'asc' | 'desc';
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+  { key: 'systemName', label: 'System', numeric: false },
+  { key: 'availability', label: 'Availability', numeric: true },
+  { key: 'outages', label: 'Outages', numeric: true },
+  { key: 'downtimeMinutes', label: 'Downtime', numeric: true },
+  { key: 'mttrMinutes', label: 'MTTR', numeric: true },
+  { key: 'mtbfMinutes', label: 'MTBF', numeric: true },
+];
+// 95 -> "1h 35m", 4000 -> "2d 18h"
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${Math.round(minutes % 60)}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+const availabilityColor = (value: number) =>
+  value >= 99.9 ? 'text-green-500' : value >= 99 ? 'text-yellow-500' : 'text-red-500';
+const downloadCSV = (systems: SystemAvailability[], filename: string) => {
+  const header = ['System Name', 'Month', 'Availability %', 'Outages', 'Downtime (min)', 'MTTR (min)', 'MTBF (min)'];
+  const rows = systems.flatMap(system => [
+    { ...system, month: 'All' },
+    ...system.months,
+  ].map(m => [
+    `"${system.systemName.replace(/"/g, '""')}"`,
+    m.month,
+    m.availability,
+    m.outages,
+    m.downtimeMinutes,
+    m.mttrMinutes ?? '',
+    m.mtbfMinutes ?? '',
+  ].join(',')));
+  const csvContent = [header.join(','), ...rows].join('\n');
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
+function Sparkline({ system }: { system: SystemAvailability }) {
+  const data = system.months.map(m => ({ month: m.month, availability: m.availability }));
+  const min = Math.min(...data.map(d => d.availability));
+  return (
+    <div className="h-7 w-24">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <YAxis hide domain={[Math.floor(min), 100]} />
+          <Line type="monotone" dataKey="availability" stroke="hsl(var(--chart-1))" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+export function AvailabilityAnalyticsPanel() {
+  const [report, setReport] = useState<AvailabilityReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rangeMonths, setRangeMonths] = useState<RangeMonths>(3);
+  const [sort, setSort] = useState<{ key: SortKey; dir: SortDir }>({ key: 'availability', dir: 'asc' });
+  const refreshCounter = useDashboardStore((state) => state.refreshCounter);
+  const fetchReport = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const to = new Date();
+      const from = startOfMonth(subMonths(to, rangeMonths - 1));
+      const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+      const data = await api<AvailabilityReport>(`/api/outages/analytics?${params.toString()}`);
+      setReport(data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Could not load availability analytics.';
+      setError(errorMessage);
+      setReport(null);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rangeMonths]);
+  useEffect(() => {
+    fetchReport();
+  }, [refreshCounter, fetchReport]);
+  const systems = useMemo(() => {
+    const list = [...(report?.systems ?? [])];
+    const factor = sort.dir === 'asc' ? 1 : -1;
+    return list.sort((a, b) => {
+      if (sort.key === 'systemName') return a.systemName.localeCompare(b.systemName) * factor;
+      // Missing MTTR/MTBF always sort last
+      const av = a[sort.key];
+      const bv = b[sort.key];
+      if (av === null) return 1;
+      if (bv === null) return -1;
+      return (av - bv) * factor;
+    });
+  }, [report, sort]);
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => prev.key === key ? { key, dir: prev.dir === 'asc' ? 'desc' : 'asc' } : { key, dir: 'asc' });
+  };
+  const handleExport = () => {
+    if (systems.length === 0) {
+      toast.warning('No availability data to export.');
+      return;
+    }
+    const formattedDate = format(new Date(), 'yyyy-MM-dd');
+    downloadCSV(systems, `aegis-availability-${formattedDate}.csv`);
+    toast.success('Availability report exported successfully.');
+  };
+  return (
+    <DataCard
+      title={`Availability (Last ${rangeMonths} Months)`}
+      icon={Activity}
+      actions={
+        <div className="flex items-center gap-2">
+          <Select value={String(rangeMonths)} onValueChange={(value) => setRangeMonths(Number(value) as RangeMonths)}>
+            <SelectTrigger className="w-[120px] text-xs sm:text-sm">
+              <SelectValue placeholder="Range" />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((months) => (
+                <SelectItem key={months} value={String(months)}>{months} months</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleExport} disabled={isLoading || systems.length === 0}>
+            <Download className="size-4" />
+            <span className="hidden sm:inline">Export</span>
+          </Button>
+        </div>
+      }
+    >
+      {isLoading ? (
+        <Skeleton className="h-[200px] w-full" />
+      ) : error ? (
+        <div className="flex items-center justify-center h-[120px] text-red-500 text-sm">{error}</div>
+      ) : systems.length === 0 ? (
+        <div className="flex items-center justify-center h-[120px] text-muted-foreground">
+          <p>No outages recorded in this range.</p>
+        </div>
+      ) : (
+        <div className="max-h-[400px] overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {COLUMNS.map(col => {
+                  const SortIcon = sort.key !== col.key ? ArrowUpDown : sort.dir === 'asc' ? ArrowUp : ArrowDown;
+                  return (
+                    <TableHead key={col.key} className={cn(col.numeric && 'text-right')}>
+                      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(col.key)}>
+                        {col.label}
+                        <SortIcon className="size-3" />
+                      </button>
+                    </TableHead>
+                  );
+                })}
+                <TableHead>Monthly trend</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {systems.map(system => (
+                <TableRow key={system.systemName}>
+                  <TableCell className="font-medium">{system.systemName}</TableCell>
+                  <TableCell className={cn('text-right font-mono', availabilityColor(system.availability))}>
+                    {system.availability.toFixed(3)}%
+                  </TableCell>
+                  <TableCell className="text-right">{system.outages}</TableCell>
+                  <TableCell className="text-right">{formatMinutes(system.downtimeMinutes)}</TableCell>
+                  <TableCell className="text-right">{formatMinutes(system.mttrMinutes)}</TableCell>
+                  <TableCell className="text-right">{formatMinutes(system.mtbfMinutes)}</TableCell>
+                  <TableCell>
+                    <Sparkline system={system} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </DataCard>
+  );
+}
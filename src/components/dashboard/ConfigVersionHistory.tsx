@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format, formatDistanceToNow } from 'date-fns';
+import { api } from '@/lib/api-client';
+import type { ConfigVersion, ConfigVersionDiff, ConfigVersionPage, ServiceNowConfig, SolarWindsConfig, VersionedConfigName } from '@shared/types';
+import { toast } from '@/components/ui/sonner';
+import { RotateCcw } from 'lucide-react';
+import { ChangeList } from './AuditLogSheet';
+interface ConfigVersionHistoryProps<T> {
+  configName: VersionedConfigName;
+  onRolledBack: (config: T) => void;
+}
+// Saved versions of an integration config, a diff between any two of them, and rollback
+export function ConfigVersionHistory<T extends ServiceNowConfig | SolarWindsConfig>({ configName, onRolledBack }: ConfigVersionHistoryProps<T>) {
+  const [versions, setVersions] = useState<ConfigVersion<T>[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<ConfigVersionDiff | null>(null);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const fetchVersions = useCallback(async (after: string | null) => {
+    try {
+      setIsLoading(true);
+      const page = await api<ConfigVersionPage<T>>(`/api/${configName}/config/versions${after ? `?cursor=${encodeURIComponent(after)}` : ''}`);
+      setVersions((prev) => (after ? [...prev, ...page.items] : page.items));
+      setCursor(page.next);
+      if (!after) {
+        // Default to the latest change: previous version against the current one
+        setTo(page.items[0]?.version ?? null);
+        setFrom(page.items[1]?.version ?? null);
+      }
+    } catch (error) {
+      toast.error('Failed to load version history.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [configName]);
+  useEffect(() => {
+    fetchVersions(null);
+  }, [fetchVersions]);
+  useEffect(() => {
+    setDiff(null);
+    if (from == null || to == null || from === to) return;
+    let cancelled = false;
+    api<ConfigVersionDiff>(`/api/${configName}/config/versions/diff?from=${from}&to=${to}`)
+      .then((result) => { if (!cancelled) setDiff(result); })
+      .catch(() => { if (!cancelled) toast.error('Failed to load the diff.'); });
+    return () => { cancelled = true; };
+  }, [configName, from, to]);
+  const handleRollback = async (version: ConfigVersion<T>) => {
+    if (!window.confirm(`Roll back to version ${version.version}? It is saved as a new version and applied immediately.`)) return;
+    setRollingBack(version.version);
+    try {
+      const saved = await api<ConfigVersion<T>>(`/api/${configName}/config/versions/${version.version}/rollback`, { method: 'POST' });
+      toast.success(`Rolled back to version ${version.version}.`);
+      onRolledBack(saved.config);
+      fetchVersions(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Rollback failed.');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+  const currentVersion = versions[0]?.version;
+  const versionSelect = (value: number | null, onChange: (value: number) => void) => (
+    <Select value={value != null ? String(value) : undefined} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger><SelectValue placeholder="Version" /></SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={String(v.version)}>
+            Version {v.version}{v.version === currentVersion ? ' (current)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+  return (
+    <div className="space-y-4 p-4 border rounded-md">
+      <h4 className="font-semibold">Version History</h4>
+      <p className="text-sm text-muted-foreground">Every saved configuration is kept. A rollback saves the chosen version again as the newest one.</p>
+      {isLoading && versions.length === 0 ? (
+        <Skeleton className="h-24 w-full" />
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved versions yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label>Compare</Label>
+              {versionSelect(from, setFrom)}
+            </div>
+            <div>
+              <Label>With</Label>
+              {versionSelect(to, setTo)}
+            </div>
+          </div>
+          {from != null && to != null && from !== to && (
+            <div className="space-y-1 rounded-md border p-2">
+              {!diff ? (
+                <Skeleton className="h-8 w-full" />
+              ) : diff.changes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No differences.</p>
+              ) : (
+                <ChangeList changes={diff.changes} />
+              )}
+            </div>
+          )}
+          <div className="space-y-1">
+            {versions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between gap-2 p-2 rounded-md hover:bg-accent text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium flex items-center gap-2">
+                    Version {version.version}
+                    {version.version === currentVersion && <Badge variant="secondary">Current</Badge>}
+                    {version.rollbackOf != null && <Badge variant="outline">Rollback of {version.rollbackOf}</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {version.savedAt
+                      ? <span title={format(new Date(version.savedAt), 'PPpp')}>Saved by {version.savedBy ?? 'unknown'} {formatDistanceToNow(new Date(version.savedAt), { addSuffix: true })}</span>
+                      : 'Saved before version history was kept'}
+                  </p>
+                </div>
+                {version.version !== currentVersion && (
+                  <Button type="button" variant="outline" size="sm" className="gap-2 shrink-0" disabled={rollingBack != null} onClick={() => handleRollback(version)}>
+                    <RotateCcw className="size-4" />
+                    {rollingBack === version.version ? 'Rolling back...' : 'Roll back'}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          {cursor && (
+            <Button type="button" variant="outline" size="sm" className="w-full" disabled={isLoading} onClick={() => fetchVersions(cursor)}>
+              {isLoading ? 'Loading...' : 'Load older versions'}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+  SheetFooter,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { api } from '@/lib/api-client';
+import type { Outage } from '@shared/types';
+import { toast } from '@/components/ui/sonner';
+import { Megaphone, Save } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+const outageSchema = z.object({
+  systemName: z.string().trim().min(1, { message: 'Affected CI is required.' }),
+  impactLevel: z.enum(['Outage', 'Degradation']),
+  description: z.string().trim().min(1, { message: 'Description is required.' }),
+  // datetime-local value in the browser's time zone; empty means no ETA
+  eta: z.string().refine(value => !value || Date.parse(value) > Date.now(), { message: 'ETA must be in the future.' }),
+  teamsBridgeUrl: z.string().url({ message: 'Please enter a valid URL.' }).or(z.literal('')),
+});
+type OutageFormData = z.infer<typeof outageSchema>;
+const EMPTY_FORM: OutageFormData = { systemName: '', impactLevel: 'Outage', description: '', eta: '', teamsBridgeUrl: '' };
+const toFormValues = (outage: Outage): OutageFormData => {
+  const eta = outage.eta ? Date.parse(outage.eta) : NaN;
+  return {
+    systemName: outage.systemName,
+    impactLevel: outage.impactLevel,
+    description: outage.description,
+    eta: Number.isNaN(eta) ? '' : format(new Date(eta), "yyyy-MM-dd'T'HH:mm"),
+    teamsBridgeUrl: outage.teamsBridgeUrl ?? '',
+  };
+};
+interface DeclareOutageSheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  /** Outage to update; declares a new outage when null */
+  outage?: Outage | null;
+  onSaved: (outage: Outage) => void;
+}
+export function DeclareOutageSheet({ isOpen, onOpenChange, outage, onSaved }: DeclareOutageSheetProps) {
+  const { register, handleSubmit, reset, formState: { errors, isSubmitting }, control } = useForm<OutageFormData>({
+    resolver: zodResolver(outageSchema),
+    defaultValues: EMPTY_FORM,
+  });
+  useEffect(() => {
+    if (isOpen) {
+      reset(outage ? toFormValues(outage) : EMPTY_FORM);
+    }
+  }, [isOpen, outage, reset]);
+  const onSubmit = async (data: OutageFormData) => {
+    const payload = {
+      systemName: data.systemName,
+      impactLevel: data.impactLevel,
+      description: data.description,
+      eta: data.eta ? new Date(data.eta).toISOString() : null,
+      teamsBridgeUrl: data.teamsBridgeUrl || null,
+    };
+    try {
+      const saved = outage
+        ? await api<Outage>(`/api/outages/${encodeURIComponent(outage.id)}`, { method: 'PATCH', body: JSON.stringify(payload) })
+        : await api<Outage>('/api/outages', { method: 'POST', body: JSON.stringify(payload) });
+      toast.success(outage ? `Outage ${saved.id} updated.` : `Outage ${saved.id} declared on ${saved.systemName}.`);
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the outage.');
+    }
+  };
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{outage ? `Update Outage ${outage.id}` : 'Declare Outage'}</SheetTitle>
+          <SheetDescription>
+            {outage
+              ? 'Changes are written to the outage record in ServiceNow.'
+              : 'Creates an outage record in ServiceNow for the affected configuration item.'}
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="-mx-6 flex-1 px-6">
+          <form id="outage-form" onSubmit={handleSubmit(onSubmit)} className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="systemName">Affected CI</Label>
+              <Input id="systemName" {...register('systemName')} placeholder="Exact CI name in the CMDB" />
+              {errors.systemName && <p className="text-red-500 text-sm mt-1">{errors.systemName.message}</p>}
+            </div>
+            <div>
+              <Label>Impact</Label>
+              <Controller
+                name="impactLevel"
+                control={control}
+                render={({ field }) => (
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Outage">Outage</SelectItem>
+                      <SelectItem value="Degradation">Degradation</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div>
+              <Label htmlFor="description">Description</Label>
+              <Textarea id="description" rows={3} {...register('description')} />
+              {errors.description && <p className="text-red-500 text-sm mt-1">{errors.description.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="eta">ETA (optional)</Label>
+              <Input id="eta" type="datetime-local" {...register('eta')} />
+              {errors.eta && <p className="text-red-500 text-sm mt-1">{errors.eta.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="teamsBridgeUrl">Bridge URL (optional)</Label>
+              <Input id="teamsBridgeUrl" {...register('teamsBridgeUrl')} placeholder="https://teams.microsoft.com/..." />
+              {errors.teamsBridgeUrl && <p className="text-red-500 text-sm mt-1">{errors.teamsBridgeUrl.message}</p>}
+            </div>
+          </form>
+        </ScrollArea>
+        <SheetFooter className="mt-auto pt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button type="submit" form="outage-form" disabled={isSubmitting} className="gap-2">
+            {outage ? <Save className="size-4" /> : <Megaphone className="size-4" />}
+            {isSubmitting ? 'Saving...' : outage ? 'Save Changes' : 'Declare Outage'}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
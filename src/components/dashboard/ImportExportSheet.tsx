@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+  SheetFooter,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { api } from '@/lib/api-client';
+import type { ConfigBundle, ConfigImportItem, ConfigImportMode, ConfigImportResult } from '@shared/types';
+import { toast } from '@/components/ui/sonner';
+import { ChevronRight, Download, Eye, Upload } from 'lucide-react';
+import { ChangeList } from './AuditLogSheet';
+const KIND_LABELS: Record<ConfigImportItem['kind'], string> = {
+  vendor: 'Vendor',
+  bridge: 'Bridge',
+  'servicenow-config': 'Config',
+  'solarwinds-config': 'Config',
+  kv: 'Setting',
+};
+const ACTION_VARIANTS = { create: 'secondary', update: 'outline', delete: 'destructive', unchanged: 'outline' } as const;
+function ImportItem({ item }: { item: ConfigImportItem }) {
+  return (
+    <Collapsible className="rounded-md border p-2 text-sm">
+      <CollapsibleTrigger className="group flex w-full items-center gap-2 text-left">
+        <ChevronRight className="size-4 shrink-0 transition-transform group-data-[state=open]:rotate-90" />
+        <Badge variant={ACTION_VARIANTS[item.action]} className="capitalize text-[10px]">{item.action}</Badge>
+        <span className="text-xs text-muted-foreground">{KIND_LABELS[item.kind]}</span>
+        <span className="truncate font-medium">{item.label}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-2 pl-6 space-y-1">
+        <ChangeList changes={item.changes} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+interface ImportExportSheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+export function ImportExportSheet({ isOpen, onOpenChange }: ImportExportSheetProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [bundle, setBundle] = useState<ConfigBundle | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<ConfigImportMode>('merge');
+  const [preview, setPreview] = useState<ConfigImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const handleSheetClose = () => {
+    setBundle(null);
+    setFileName('');
+    setPreview(null);
+    setError(null);
+    onOpenChange(false);
+  };
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const exported = await api<ConfigBundle>('/api/admin/export');
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+      link.setAttribute('href', url);
+      link.setAttribute('download', `dashboard-config-${exported.exportedAt.slice(0, 10)}.json`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+  const handleFile = async (file: File | undefined) => {
+    setBundle(null);
+    setPreview(null);
+    setError(null);
+    setFileName(file?.name ?? '');
+    if (!file) return;
+    try {
+      setBundle(JSON.parse(await file.text()));
+    } catch {
+      setError('The file is not valid JSON.');
+    }
+  };
+  const handleModeChange = (value: string) => {
+    setMode(value as ConfigImportMode);
+    setPreview(null);
+  };
+  // The server validates the bundle; the dry run returns the same plan the import applies
+  const runImport = async (dryRun: boolean) => {
+    if (!bundle) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result = await api<ConfigImportResult>('/api/admin/import', {
+        method: 'POST',
+        body: JSON.stringify({ mode, dryRun, bundle }),
+      });
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        toast.success(`Import applied: ${result.counts.create} created, ${result.counts.update} updated, ${result.counts.delete} deleted.`);
+        setBundle(null);
+        setFileName('');
+        setPreview(null);
+        if (fileInput.current) fileInput.current.value = '';
+      }
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Import failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+  const handleApply = () => {
+    if (!preview) return;
+    if (preview.counts.delete > 0 && !window.confirm(`Replace mode deletes ${preview.counts.delete} item(s) that are not in the bundle. Continue?`)) return;
+    runImport(false);
+  };
+  return (
+    <Sheet open={isOpen} onOpenChange={handleSheetClose}>
+      <SheetContent className="flex flex-col sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle>Export / Import Configuration</SheetTitle>
+          <SheetDescription>
+            Copy vendors, bridges, the ServiceNow and SolarWinds settings and KV settings between dashboards. Credentials are not included; the bundle only names their environment variables.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="-mx-6 flex-1 px-6">
+          <div className="py-4 space-y-6">
+            <div className="space-y-2 p-4 border rounded-md">
+              <h4 className="font-semibold">Export</h4>
+              <p className="text-sm text-muted-foreground">Downloads the current configuration as a versioned JSON bundle.</p>
+              <Button type="button" variant="outline" size="sm" className="gap-2" onClick={handleExport} disabled={isExporting}>
+                <Download className="size-4" />
+                {isExporting ? 'Exporting...' : 'Download bundle'}
+              </Button>
+            </div>
+            <div className="space-y-4 p-4 border rounded-md">
+              <h4 className="font-semibold">Import</h4>
+              <div className="grid grid-cols-[1fr,10rem] gap-2">
+                <div>
+                  <Label htmlFor="bundle-file">Bundle file</Label>
+                  <Input id="bundle-file" ref={fileInput} type="file" accept="application/json,.json" onChange={(e) => handleFile(e.target.files?.[0])} />
+                </div>
+                <div>
+                  <Label>Mode</Label>
+                  <Select value={mode} onValueChange={handleModeChange}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="merge">Merge</SelectItem>
+                      <SelectItem value="replace">Replace</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {mode === 'merge'
+                  ? 'Merge creates and updates what the bundle contains and keeps everything else.'
+                  : 'Replace also deletes vendors, bridges and KV settings that are not in the bundle.'}
+              </p>
+              {error && <p className="text-red-500 text-sm break-words">{error}</p>}
+              <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => runImport(true)} disabled={!bundle || isWorking}>
+                <Eye className="size-4" />
+                {isWorking && !preview ? 'Checking...' : 'Preview changes'}
+              </Button>
+              {preview && (
+                <div className="space-y-2">
+                  <p className="text-sm">
+                    Importing <span className="font-medium">{fileName}</span>: {preview.counts.create} to create, {preview.counts.update} to update, {preview.counts.delete} to delete, {preview.counts.unchanged} unchanged.
+                  </p>
+                  {preview.blocked && <p className="text-red-500 text-sm break-words">This import can't be applied: {preview.blocked}</p>}
+                  {preview.items.length === 0
+                    ? <p className="text-sm text-muted-foreground">The bundle matches the current configuration.</p>
+                    : preview.items.map((item) => <ImportItem key={`${item.kind}:${item.id}`} item={item} />)}
+                </div>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+        <SheetFooter className="mt-auto pt-4 border-t">
+          <Button type="button" variant="outline" onClick={handleSheetClose}>Close</Button>
+          <Button type="button" className="gap-2" onClick={handleApply} disabled={!preview || preview.items.length === 0 || !!preview.blocked || isWorking}>
+            <Upload className="size-4" />
+            {isWorking && preview ? 'Applying...' : 'Apply import'}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+  SheetFooter,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { formatDistanceToNow } from 'date-fns';
+import { api } from '@/lib/api-client';
+import type { ApiToken, ApiTokenCreated } from '@shared/types';
+import { toast } from '@/components/ui/sonner';
+import { Copy, KeyRound, PlusCircle, Trash2 } from 'lucide-react';
+const tokenSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name is required.' }),
+  role: z.enum(['viewer', 'operator', 'admin']),
+});
+type TokenFormData = z.infer<typeof tokenSchema>;
+interface ManageApiTokensSheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+export function ManageApiTokensSheet({ isOpen, onOpenChange }: ManageApiTokensSheetProps) {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Shown once after creation; the server only keeps a hash
+  const [created, setCreated] = useState<ApiTokenCreated | null>(null);
+  const { register, handleSubmit, reset, formState: { errors, isSubmitting }, control } = useForm<TokenFormData>({
+    resolver: zodResolver(tokenSchema),
+    defaultValues: { name: '', role: 'operator' },
+  });
+  const fetchTokens = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setTokens(await api<ApiToken[]>('/api/auth/tokens'));
+    } catch (error) {
+      toast.error('Failed to load API tokens.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  useEffect(() => {
+    if (isOpen) fetchTokens();
+  }, [isOpen, fetchTokens]);
+  const handleSheetClose = () => {
+    setCreated(null);
+    reset();
+    onOpenChange(false);
+  };
+  const onSubmit = async (data: TokenFormData) => {
+    try {
+      const result = await api<ApiTokenCreated>('/api/auth/tokens', { method: 'POST', body: JSON.stringify(data) });
+      setCreated(result);
+      reset();
+      fetchTokens();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create API token.');
+    }
+  };
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast.success('Token copied.');
+    } catch {
+      toast.error('Could not copy; select the token and copy it manually.');
+    }
+  };
+  const handleRevoke = async (token: ApiToken) => {
+    if (window.confirm(`Revoke "${token.name}"? Clients using it will lose access immediately.`)) {
+      try {
+        await api(`/api/auth/tokens/${token.id}`, { method: 'DELETE' });
+        toast.success(`Token "${token.name}" revoked.`);
+        if (created?.apiToken.id === token.id) setCreated(null);
+        fetchTokens();
+      } catch (error) {
+        toast.error('Failed to revoke token.');
+      }
+    }
+  };
+  return (
+    <Sheet open={isOpen} onOpenChange={handleSheetClose}>
+      <SheetContent className="flex flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>API Tokens</SheetTitle>
+          <SheetDescription>
+            Tokens authenticate scripts and integrations with <code>Authorization: Bearer &lt;token&gt;</code> and carry a fixed role.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="-mx-6 flex-1 px-6">
+          <div className="py-4 space-y-4">
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-[1fr,9rem] gap-2">
+                <div>
+                  <Label htmlFor="token-name">Name</Label>
+                  <Input id="token-name" placeholder="e.g. Runbook automation" {...register('name')} />
+                  {errors.name && <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>}
+                </div>
+                <div>
+                  <Label>Role</Label>
+                  <Controller
+                    name="role"
+                    control={control}
+                    render={({ field }) => (
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                          <SelectItem value="operator">Operator</SelectItem>
+                          <SelectItem value="admin">Admin</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                </div>
+              </div>
+              <Button type="submit" disabled={isSubmitting} className="gap-2">
+                <PlusCircle className="size-4" />
+                {isSubmitting ? 'Creating...' : 'Create token'}
+              </Button>
+            </form>
+            {created && (
+              <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 space-y-2">
+                <p className="text-sm font-medium">Copy the token for "{created.apiToken.name}" now; it won't be shown again.</p>
+                <div className="flex gap-2">
+                  <Input readOnly value={created.token} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                  <Button type="button" variant="outline" size="icon" aria-label="Copy token" onClick={() => handleCopy(created.token)}>
+                    <Copy className="size-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="border-t my-4"></div>
+          <h3 className="text-lg font-semibold mb-4">Existing Tokens</h3>
+          <div className="space-y-3 pb-4">
+            {isLoading ? (
+              Array.from({ length: 2 }).map((_, i) => <Skeleton key={i} className="h-12 w-full" />)
+            ) : tokens.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No API tokens.</p>
+            ) : (
+              tokens.map((token) => (
+                <div key={token.id} className="flex items-center justify-between p-2 rounded-md hover:bg-accent">
+                  <div className="min-w-0">
+                    <p className="font-medium flex items-center gap-2">
+                      <KeyRound className="size-4 shrink-0" />
+                      <span className="truncate">{token.name}</span>
+                      <Badge variant="secondary" className="capitalize">{token.role}</Badge>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      <code>{token.prefix}…</code> · created by {token.createdBy} {formatDistanceToNow(new Date(token.createdAt), { addSuffix: true })}
+                      {' · '}{token.lastUsedAt ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}` : 'never used'}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" aria-label="Revoke token" onClick={() => handleRevoke(token)}>
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className="mt-auto pt-4">
+          <Button variant="outline" onClick={handleSheetClose}>Close</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+  SheetFooter,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { useForm, Controller, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { api } from '@/lib/api-client';
+import type { NotificationChannel, NotificationDelivery, NotificationRule } from '@shared/types';
+import { toast } from '@/components/ui/sonner';
+import { Trash2, Edit, PlusCircle, Send } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+const isRegex = (value: string) => {
+  try {
+    new RegExp(value, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+const ruleSchema = z.object({
+  type: z.enum(['OUTAGE_IMPACT', 'VENDOR_OUTAGE', 'ALERT_UNACKNOWLEDGED']),
+  systemPattern: z.string().refine(isRegex, { message: 'Invalid regular expression.' }),
+  impact: z.enum(['Outage', 'Any']),
+  minutes: z.number({ error: 'Required' }).int().min(1, { message: 'Must be at least 1 minute.' }),
+});
+const channelSchema = z.object({
+  name: z.string().min(1, { message: 'Name is required.' }),
+  type: z.enum(['TEAMS', 'SLACK', 'WEBHOOK']),
+  webhookUrl: z.string().url({ message: 'Please enter a valid URL.' }),
+  enabled: z.boolean(),
+  rateLimitPerHour: z.number({ error: 'Required' }).int().min(1, { message: 'Must be at least 1.' }),
+  rules: z.array(ruleSchema),
+});
+type ChannelFormData = z.infer<typeof channelSchema>;
+type RuleFormData = z.infer<typeof ruleSchema>;
+const RULE_LABELS: Record<RuleFormData['type'], string> = {
+  OUTAGE_IMPACT: 'Outage on matching systems',
+  VENDOR_OUTAGE: 'Vendor goes to Outage',
+  ALERT_UNACKNOWLEDGED: 'Alert unacknowledged',
+};
+const CHANNEL_LABELS: Record<ChannelFormData['type'], string> = {
+  TEAMS: 'Microsoft Teams',
+  SLACK: 'Slack',
+  WEBHOOK: 'Generic webhook (JSON POST)',
+};
+const DEFAULT_RULE: RuleFormData = { type: 'OUTAGE_IMPACT', systemPattern: '', impact: 'Outage', minutes: 15 };
+const EMPTY_FORM: ChannelFormData = { name: '', type: 'TEAMS', webhookUrl: '', enabled: true, rateLimitPerHour: 20, rules: [DEFAULT_RULE] };
+const toFormRule = (rule: NotificationRule): RuleFormData => ({
+  type: rule.type,
+  systemPattern: rule.systemPattern ?? '',
+  impact: rule.impactLevels?.includes('Degradation') ? 'Any' : 'Outage',
+  minutes: rule.minutes ?? 15,
+});
+const fromFormRule = (rule: RuleFormData): NotificationRule => ({
+  type: rule.type,
+  systemPattern: rule.systemPattern.trim() || null,
+  impactLevels: rule.type === 'OUTAGE_IMPACT' ? (rule.impact === 'Any' ? ['Outage', 'Degradation'] : ['Outage']) : null,
+  minutes: rule.type === 'ALERT_UNACKNOWLEDGED' ? rule.minutes : null,
+});
+const STATUS_VARIANTS: Record<NotificationDelivery['status'], 'default' | 'destructive' | 'secondary'> = {
+  sent: 'default',
+  failed: 'destructive',
+  'rate-limited': 'secondary',
+};
+interface ManageNotificationsSheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+export function ManageNotificationsSheet({ isOpen, onOpenChange }: ManageNotificationsSheetProps) {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const { register, handleSubmit, reset, watch, formState: { errors, isSubmitting }, control } = useForm<ChannelFormData>({
+    resolver: zodResolver(channelSchema),
+    defaultValues: EMPTY_FORM,
+  });
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "rules",
+  });
+  const watchedRules = watch('rules');
+  const fetchChannels = async () => {
+    try {
+      setIsLoading(true);
+      const [channelData, deliveryData] = await Promise.all([
+        api<NotificationChannel[]>('/api/notifications/channels'),
+        api<NotificationDelivery[]>('/api/notifications/deliveries'),
+      ]);
+      setChannels(channelData);
+      setDeliveries(deliveryData);
+    } catch (error) {
+      toast.error('Failed to load notification channels.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  useEffect(() => {
+    if (isOpen) {
+      fetchChannels();
+    }
+  }, [isOpen]);
+  const handleCancelEdit = () => {
+    setEditingChannel(null);
+    reset(EMPTY_FORM);
+  };
+  const handleSheetClose = () => {
+    handleCancelEdit();
+    onOpenChange(false);
+  };
+  const onSubmit = async (data: ChannelFormData) => {
+    const payload = { ...data, rules: data.rules.map(fromFormRule) };
+    try {
+      if (editingChannel) {
+        await api<NotificationChannel>(`/api/notifications/channels/${editingChannel.id}`, {
+          method: 'PUT',
+          body: JSON.stringify(payload),
+        });
+        toast.success(`Channel "${data.name}" updated.`);
+      } else {
+        await api<NotificationChannel>('/api/notifications/channels', {
+          method: 'POST',
+          body: JSON.stringify(payload),
+        });
+        toast.success(`Channel "${data.name}" added.`);
+      }
+      handleCancelEdit();
+      fetchChannels();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred while saving the channel.');
+    }
+  };
+  const handleEdit = (channel: NotificationChannel) => {
+    setEditingChannel(channel);
+    reset({ ...channel, rules: channel.rules.map(toFormRule) });
+  };
+  const handleDelete = async (channel: NotificationChannel) => {
+    if (window.confirm(`Are you sure you want to delete "${channel.name}"?`)) {
+      try {
+        await api(`/api/notifications/channels/${channel.id}`, { method: 'DELETE' });
+        toast.success(`Channel "${channel.name}" deleted.`);
+        fetchChannels();
+      } catch (error) {
+        toast.error('Failed to delete channel.');
+      }
+    }
+  };
+  const handleTest = async (channel: NotificationChannel) => {
+    try {
+      setTestingId(channel.id);
+      const delivery = await api<NotificationDelivery>(`/api/notifications/channels/${channel.id}/test`, { method: 'POST' });
+      if (delivery.status === 'sent') toast.success(`Test sent to "${channel.name}" (HTTP ${delivery.httpStatus}).`);
+      else toast.error(`Test to "${channel.name}" failed: ${delivery.error}`);
+      fetchChannels();
+    } catch (error) {
+      toast.error('Failed to send test notification.');
+    } finally {
+      setTestingId(null);
+    }
+  };
+  return (
+    <Sheet open={isOpen} onOpenChange={handleSheetClose}>
+      <SheetContent className="flex flex-col sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle>Manage Notifications</SheetTitle>
+          <SheetDescription>Send outage, vendor and alert notifications to Teams, Slack or any webhook.</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="-mx-6 flex-1 px-6">
+          <div className="py-4">
+            <h3 className="text-lg font-semibold mb-4">{editingChannel ? 'Edit Channel' : 'Add New Channel'}</h3>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" {...register('name')} placeholder="e.g., NOC Teams channel" />
+                  {errors.name && <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>}
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Controller
+                    control={control}
+                    name="type"
+                    render={({ field }) => (
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="webhookUrl">Webhook URL</Label>
+                <Input id="webhookUrl" {...register('webhookUrl')} placeholder="https://..." />
+                {errors.webhookUrl && <p className="text-red-500 text-sm mt-1">{errors.webhookUrl.message}</p>}
+              </div>
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div>
+                  <Label htmlFor="rateLimitPerHour">Max notifications per hour</Label>
+                  <Input id="rateLimitPerHour" type="number" {...register('rateLimitPerHour', { valueAsNumber: true })} />
+                  {errors.rateLimitPerHour && <p className="text-red-500 text-sm mt-1">{errors.rateLimitPerHour.message}</p>}
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Controller
+                    name="enabled"
+                    control={control}
+                    render={({ field }) => <Switch id="enabled" checked={field.value} onCheckedChange={field.onChange} />}
+                  />
+                  <Label htmlFor="enabled">Enabled</Label>
+                </div>
+              </div>
+              <div className="space-y-4 p-4 border rounded-md">
+                <h4 className="font-semibold">Rules</h4>
+                <p className="text-sm text-muted-foreground">Notify when any rule matches. System patterns are case-insensitive regular expressions; leave empty to match everything.</p>
+                <div className="space-y-3">
+                  {fields.map((field, index) => {
+                    const ruleType = watchedRules?.[index]?.type;
+                    return (
+                      <div key={field.id} className="flex items-end gap-2">
+                        <div className="w-[210px]">
+                          <Label>When</Label>
+                          <Controller
+                            control={control}
+                            name={`rules.${index}.type`}
+                            render={({ field }) => (
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(RULE_LABELS).map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          />
+                        </div>
+                        <div className="flex-1">
+                          <Label>{ruleType === 'VENDOR_OUTAGE' ? 'Vendor pattern' : 'System pattern'}</Label>
+                          <Input {...register(`rules.${index}.systemPattern`)} placeholder="e.g., ^API Gateway" />
+                          {errors.rules?.[index]?.systemPattern && <p className="text-red-500 text-sm mt-1">{errors.rules[index]?.systemPattern?.message}</p>}
+                        </div>
+                        {ruleType === 'OUTAGE_IMPACT' && (
+                          <div className="w-[150px]">
+                            <Label>Impact</Label>
+                            <Controller
+                              control={control}
+                              name={`rules.${index}.impact`}
+                              render={({ field }) => (
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <SelectTrigger><SelectValue /></SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="Outage">Outage only</SelectItem>
+                                    <SelectItem value="Any">Outage or Degradation</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              )}
+                            />
+                          </div>
+                        )}
+                        {ruleType === 'ALERT_UNACKNOWLEDGED' && (
+                          <div className="w-[110px]">
+                            <Label>After (min)</Label>
+                            <Input type="number" {...register(`rules.${index}.minutes`, { valueAsNumber: true })} />
+                          </div>
+                        )}
+                        <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="text-red-500 hover:text-red-600">
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={() => append(DEFAULT_RULE)} className="gap-2">
+                  <PlusCircle className="size-4" /> Add Rule
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSubmitting} className="gap-2">
+                  <PlusCircle className="size-4" />
+                  {isSubmitting ? 'Saving...' : editingChannel ? 'Update Channel' : 'Add Channel'}
+                </Button>
+                {editingChannel && <Button type="button" variant="outline" onClick={handleCancelEdit}>Cancel</Button>}
+              </div>
+            </form>
+          </div>
+          <div className="border-t my-4"></div>
+          <div className="flex-1 flex flex-col min-h-0">
+            <h3 className="text-lg font-semibold mb-4">Existing Channels</h3>
+            <div className="space-y-3">
+              {isLoading ? (
+                Array.from({ length: 2 }).map((_, i) => <Skeleton key={i} className="h-12 w-full" />)
+              ) : channels.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No channels configured.</p>
+              ) : (
+                channels.map((channel) => (
+                  <div key={channel.id} className="flex items-center justify-between p-2 rounded-md hover:bg-accent">
+                    <div>
+                      <p className="font-medium">{channel.name} {!channel.enabled && <span className="text-xs text-muted-foreground">(disabled)</span>}</p>
+                      <p className="text-sm text-muted-foreground">{CHANNEL_LABELS[channel.type]} - {channel.rules.length} rule(s)</p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" title="Send test" disabled={testingId === channel.id} onClick={() => handleTest(channel)}><Send className="size-4" /></Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleEdit(channel)}><Edit className="size-4" /></Button>
+                      <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => handleDelete(channel)}><Trash2 className="size-4" /></Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+          <div className="border-t my-4"></div>
+          <div className="pb-4">
+            <h3 className="text-lg font-semibold mb-4">Recent Deliveries</h3>
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing sent yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {deliveries.slice(0, 50).map((d) => (
+                  <div key={d.id} className="flex items-start justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate">{d.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {d.channelName} - {formatDistanceToNow(new Date(d.at), { addSuffix: true })}{d.error ? ` - ${d.error}` : ''}
+                      </p>
+                    </div>
+                    <Badge variant={STATUS_VARIANTS[d.status]}>{d.status}</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className="mt-auto pt-4">
+          <Button variant="outline" onClick={handleSheetClose}>Close</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -9,6 +9,7 @@ import {
 } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -17,9 +18,17 @@ import { useForm, Controller, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { api } from '@/lib/api-client';
-import type { ServiceNowConfig } from '@shared/types';
+import type { ServiceNowConfig, ServiceNowFeedName, ServiceNowFeedPreview } from '@shared/types';
 import { toast } from '@/components/ui/sonner';
-import { Save, PlusCircle, Trash2 } from 'lucide-react';
+import { Save, PlusCircle, Trash2, Eye } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import {
   Select,
   SelectContent,
@@ -27,11 +36,40 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { ConfigVersionHistory } from './ConfigVersionHistory';
+const feedQuerySchema = z.object({
+  query: z.string().refine(value => !/\^NQ|ORDERBY/i.test(value), { message: 'Use Order By instead of ORDERBY; ^NQ is not supported.' }),
+  limit: z.number({ error: 'Required' }).int().min(1, { message: 'At least 1' }).max(1000, { message: 'At most 1000' }),
+  orderBy: z.string().regex(/^\s*(-?[\w.]+\s*(,\s*-?[\w.]+\s*)*)?$/, { message: 'Comma-separated fields, "-" for descending.' }),
+});
+const FEEDS: { name: ServiceNowFeedName; label: string; hint: string }[] = [
+  { name: 'outages', label: 'Active Outages', hint: 'Outage table.' },
+  { name: 'tickets', label: 'Tickets', hint: 'Ticket table. The default (open P1s) follows the Priority mapping until edited.' },
+  { name: 'history', label: 'Outage History Sync', hint: 'Outage table; "ended since" the sync range is added. Limit is the page size.' },
+  { name: 'changes', label: 'Changes Today', hint: 'Change table; "overlaps today" is added.' },
+];
+// Mirrors the worker's default tickets filter
+const defaultTicketsQuery = (priorityField: string) => `stateNOT IN 6,7,8^${priorityField}=1`;
+const CHANGE_FIELDS: { name: keyof ServiceNowConfig['changeFieldMapping']; label: string }[] = [
+  { name: 'id', label: 'Change Number' },
+  { name: 'summary', label: 'Summary' },
+  { name: 'state', label: 'State' },
+  { name: 'type', label: 'Type' },
+  { name: 'start', label: 'Start' },
+  { name: 'end', label: 'End' },
+  { name: 'plannedStart', label: 'Planned Start' },
+  { name: 'plannedEnd', label: 'Planned End' },
+  { name: 'offering', label: 'Service Offering' },
+  { name: 'ci', label: 'Configuration Item' },
+];
+// The worker only reads ServiceNow credential secrets
+const CREDENTIAL_VAR = /^SERVICENOW_(?!WEBHOOK_SECRET$|TICKET_URL_PREFIX$)[A-Z0-9_]+$/;
+const CREDENTIAL_VAR_MESSAGE = 'Must name a SERVICENOW_* credential secret, e.g. SERVICENOW_USERNAME.';
 const configSchema = z.object({
   enabled: z.boolean(),
   instanceUrl: z.string().url({ message: 'Please enter a valid URL.' }).or(z.literal('')),
-  usernameVar: z.string().min(1, { message: 'Required' }),
-  passwordVar: z.string().min(1, { message: 'Required' }),
+  usernameVar: z.string().regex(CREDENTIAL_VAR, { message: CREDENTIAL_VAR_MESSAGE }),
+  passwordVar: z.string().regex(CREDENTIAL_VAR, { message: CREDENTIAL_VAR_MESSAGE }),
   outageTable: z.string().min(1, { message: 'Required' }),
   fieldMapping: z.object({
     systemName: z.string().min(1, { message: 'Required' }),
@@ -54,6 +92,26 @@ const configSchema = z.object({
     assignedTeam: z.string().min(1, { message: 'Required' }),
     priority: z.string().min(1, { message: 'Required' }),
   }),
+  changeTable: z.string().min(1, { message: 'Required' }),
+  changeFieldMapping: z.object({
+    id: z.string().min(1, { message: 'Required' }),
+    summary: z.string().min(1, { message: 'Required' }),
+    state: z.string().min(1, { message: 'Required' }),
+    type: z.string().min(1, { message: 'Required' }),
+    start: z.string().min(1, { message: 'Required' }),
+    end: z.string().min(1, { message: 'Required' }),
+    plannedStart: z.string().min(1, { message: 'Required' }),
+    plannedEnd: z.string().min(1, { message: 'Required' }),
+    offering: z.string().min(1, { message: 'Required' }),
+    ci: z.string().min(1, { message: 'Required' }),
+  }),
+  changeAllowedStates: z.array(z.string()),
+  feedQueries: z.object({
+    outages: feedQuerySchema,
+    tickets: feedQuerySchema,
+    history: feedQuerySchema,
+    changes: feedQuerySchema,
+  }),
 }).refine(data => !data.enabled || (data.enabled && data.instanceUrl), {
   message: 'Instance URL is required when enabled.',
   path: ['instanceUrl'],
@@ -66,21 +124,33 @@ interface ManageServiceNowSheetProps {
 }
 export function ManageServiceNowSheet({ isOpen, onOpenChange, onConfigUpdate }: ManageServiceNowSheetProps) {
   const [isLoading, setIsLoading] = useState(true);
-  const { register, handleSubmit, reset, formState: { errors, isSubmitting }, control } = useForm<ConfigFormData>({
+  const [previewingFeed, setPreviewingFeed] = useState<ServiceNowFeedName | null>(null);
+  const [previews, setPreviews] = useState<Partial<Record<ServiceNowFeedName, ServiceNowFeedPreview>>>({});
+  const { register, handleSubmit, reset, getValues, setValue, formState: { errors, isSubmitting }, control } = useForm<ConfigFormData>({
     resolver: zodResolver(configSchema),
     defaultValues: {
       impactLevelMapping: [],
+      changeAllowedStates: [],
     }
   });
   const { fields, append, remove } = useFieldArray({
     control,
     name: "impactLevelMapping",
   });
+  const priorityField = register('ticketFieldMapping.priority');
+  // Keep an unedited default tickets query on the mapped priority field
+  const handlePriorityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (getValues('feedQueries.tickets.query') === defaultTicketsQuery(getValues('ticketFieldMapping.priority'))) {
+      setValue('feedQueries.tickets.query', defaultTicketsQuery(e.target.value));
+    }
+    return priorityField.onChange(e);
+  };
   useEffect(() => {
     if (isOpen) {
       const fetchConfig = async () => {
         try {
           setIsLoading(true);
+          setPreviews({});
           const config = await api<ServiceNowConfig>('/api/servicenow/config');
           reset(config);
         } catch (error) {
@@ -106,6 +176,25 @@ export function ManageServiceNowSheet({ isOpen, onOpenChange, onConfigUpdate }:
       toast.error('Failed to save configuration.');
     }
   };
+  // Runs the feed query with the current (unsaved) form values
+  const handlePreview = async (feed: ServiceNowFeedName) => {
+    setPreviewingFeed(feed);
+    try {
+      const preview = await api<ServiceNowFeedPreview>('/api/servicenow/preview', {
+        method: 'POST',
+        body: JSON.stringify({ feed, config: getValues() }),
+      });
+      setPreviews((prev) => ({ ...prev, [feed]: preview }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Preview failed.');
+    } finally {
+      setPreviewingFeed(null);
+    }
+  };
+  const handleRolledBack = (config: ServiceNowConfig) => {
+    reset(config);
+    onConfigUpdate();
+  };
   return (
     <Sheet open={isOpen} onOpenChange={onOpenChange}>
       <SheetContent className="flex flex-col sm:max-w-2xl">
@@ -268,11 +357,112 @@ export function ManageServiceNowSheet({ isOpen, onOpenChange, onConfigUpdate }:
                     </div>
                     <div>
                       <Label htmlFor="ticketMap.priority">Priority</Label>
-                      <Input id="ticketMap.priority" {...register('ticketFieldMapping.priority')} />
+                      <Input id="ticketMap.priority" {...priorityField} onChange={handlePriorityChange} />
                       {errors.ticketFieldMapping?.priority && <p className="text-red-500 text-sm mt-1">{errors.ticketFieldMapping.priority.message}</p>}
                     </div>
                   </div>
                 </div>
+                <div className="space-y-4 p-4 border rounded-md">
+                  <h4 className="font-semibold">Change Field Mappings</h4>
+                  <p className="text-sm text-muted-foreground">Map dashboard fields to your ServiceNow change table columns (e.g., `change_request`).</p>
+                  <div>
+                    <Label htmlFor="changeTable">Change Table Name</Label>
+                    <Input id="changeTable" {...register('changeTable')} />
+                    {errors.changeTable && <p className="text-red-500 text-sm mt-1">{errors.changeTable.message}</p>}
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {CHANGE_FIELDS.map(({ name, label }) => (
+                      <div key={name}>
+                        <Label htmlFor={`changeMap.${name}`}>{label}</Label>
+                        <Input id={`changeMap.${name}`} {...register(`changeFieldMapping.${name}`)} />
+                        {errors.changeFieldMapping?.[name] && <p className="text-red-500 text-sm mt-1">{errors.changeFieldMapping[name]?.message}</p>}
+                      </div>
+                    ))}
+                  </div>
+                  <div>
+                    <Label htmlFor="changeAllowedStates">Allowed States</Label>
+                    <Controller
+                      name="changeAllowedStates"
+                      control={control}
+                      render={({ field }) => (
+                        <Textarea
+                          id="changeAllowedStates"
+                          rows={3}
+                          value={field.value.join('\n')}
+                          onChange={(e) => field.onChange(e.target.value.split('\n'))}
+                          placeholder={'scheduled\nimplement\nreview'}
+                        />
+                      )}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">One state label per line, matched case-insensitively. Leave empty to show every state except cancelled.</p>
+                  </div>
+                </div>
+                <div className="space-y-4 p-4 border rounded-md">
+                  <h4 className="font-semibold">Feed Queries</h4>
+                  <p className="text-sm text-muted-foreground">Encoded query, row limit and order for each feed (e.g. `priorityIN1,2` for P1 and P2 tickets).</p>
+                  {FEEDS.map(({ name, label, hint }) => {
+                    const feedErrors = errors.feedQueries?.[name];
+                    const preview = previews[name];
+                    return (
+                      <div key={name} className="space-y-2 border-t pt-4 first-of-type:border-t-0 first-of-type:pt-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <div>
+                            <p className="font-medium text-sm">{label}</p>
+                            <p className="text-xs text-muted-foreground">{hint}</p>
+                          </div>
+                          <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => handlePreview(name)} disabled={previewingFeed !== null}>
+                            <Eye className="size-4" />
+                            {previewingFeed === name ? 'Running...' : 'Preview results'}
+                          </Button>
+                        </div>
+                        <div>
+                          <Label htmlFor={`feed.${name}.query`}>Encoded Query</Label>
+                          <Input id={`feed.${name}.query`} className="font-mono text-xs" {...register(`feedQueries.${name}.query`)} />
+                          {feedErrors?.query && <p className="text-red-500 text-sm mt-1">{feedErrors.query.message}</p>}
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor={`feed.${name}.limit`}>Limit</Label>
+                            <Input id={`feed.${name}.limit`} type="number" {...register(`feedQueries.${name}.limit`, { valueAsNumber: true })} />
+                            {feedErrors?.limit && <p className="text-red-500 text-sm mt-1">{feedErrors.limit.message}</p>}
+                          </div>
+                          <div>
+                            <Label htmlFor={`feed.${name}.orderBy`}>Order By</Label>
+                            <Input id={`feed.${name}.orderBy`} {...register(`feedQueries.${name}.orderBy`)} placeholder="-sys_updated_on" />
+                            {feedErrors?.orderBy && <p className="text-red-500 text-sm mt-1">{feedErrors.orderBy.message}</p>}
+                          </div>
+                        </div>
+                        {preview && (
+                          <div className="space-y-1">
+                            <p className="text-xs text-muted-foreground">
+                              {preview.count} row{preview.count === 1 ? '' : 's'} from <span className="font-mono">{preview.table}</span>
+                              {preview.count > preview.rows.length && `, showing the first ${preview.rows.length}`}
+                            </p>
+                            <div className="max-h-60 overflow-auto rounded-md border">
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    {preview.columns.map((column) => <TableHead key={column} className="whitespace-nowrap text-xs">{column}</TableHead>)}
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {preview.rows.map((row, index) => (
+                                    <TableRow key={index}>
+                                      {preview.columns.map((column) => (
+                                        <TableCell key={column} className="max-w-[200px] truncate text-xs" title={row[column]}>{row[column]}</TableCell>
+                                      ))}
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                <ConfigVersionHistory<ServiceNowConfig> configName="servicenow" onRolledBack={handleRolledBack} />
               </div>
             )}
           </ScrollArea>
@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+  SheetFooter,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { api } from '@/lib/api-client';
+import type { RuntimeSetting } from '@shared/types';
+import { toast } from '@/components/ui/sonner';
+import { PlusCircle, RotateCcw, Save, Trash2 } from 'lucide-react';
+// Draft per key: the typed value, or null to remove the KV key and fall back to env / default
+type SettingDraft = string | boolean | string[] | null;
+const SOURCE_LABELS: Record<RuntimeSetting['source'], string> = { kv: 'KV', env: 'Env', default: 'Default' };
+const csvToList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+const toDraft = (setting: RuntimeSetting): SettingDraft => {
+  if (setting.type === 'boolean') return ['true', '1', 'yes', 'on'].includes(setting.value.trim().toLowerCase());
+  if (setting.type === 'list') return csvToList(setting.value);
+  return setting.value;
+};
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+// Mirrors the server checks so mistakes show before saving
+const validateDraft = (setting: RuntimeSetting, draft: SettingDraft): string | null => {
+  if (draft === null) return null;
+  if (setting.type === 'integer') {
+    const n = Number(draft);
+    if (String(draft).trim() === '' || !Number.isInteger(n)) return 'Must be a whole number.';
+    if (setting.min != null && n < setting.min) return `Must be at least ${setting.min}.`;
+    if (setting.max != null && n > setting.max) return `Must be at most ${setting.max}.`;
+  }
+  if (setting.type === 'url' && typeof draft === 'string' && draft.trim() && !isHttpUrl(draft.trim())) return 'Must be an http(s) URL.';
+  if (setting.type === 'list' && Array.isArray(draft) && draft.some((item) => item.includes(','))) return 'Entries cannot contain commas.';
+  return null;
+};
+function ListEditor({ items, onChange, placeholder }: { items: string[]; onChange: (items: string[]) => void; placeholder: string }) {
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <Input value={item} placeholder={placeholder} onChange={(e) => onChange(items.map((v, i) => (i === index ? e.target.value : v)))} />
+          <Button type="button" variant="ghost" size="icon" className="text-red-500 hover:text-red-600" aria-label="Remove entry" onClick={() => onChange(items.filter((_, i) => i !== index))}>
+            <Trash2 className="size-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => onChange([...items, ''])}>
+        <PlusCircle className="size-4" /> Add entry
+      </Button>
+    </div>
+  );
+}
+interface ManageSettingsSheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+export function ManageSettingsSheet({ isOpen, onOpenChange }: ManageSettingsSheetProps) {
+  const [settings, setSettings] = useState<RuntimeSetting[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, SettingDraft>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const load = (loaded: RuntimeSetting[]) => {
+    setSettings(loaded);
+    setDrafts(Object.fromEntries(loaded.map((setting) => [setting.key, toDraft(setting)])));
+  };
+  const fetchSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      load(await api<RuntimeSetting[]>('/api/settings'));
+    } catch (error) {
+      toast.error('Failed to load settings.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  useEffect(() => {
+    if (isOpen) fetchSettings();
+  }, [isOpen, fetchSettings]);
+  const setDraft = (key: string, value: SettingDraft) => setDrafts((prev) => ({ ...prev, [key]: value }));
+  const isDirty = (setting: RuntimeSetting) => JSON.stringify(drafts[setting.key]) !== JSON.stringify(toDraft(setting));
+  const errors = Object.fromEntries(settings.map((setting) => [setting.key, validateDraft(setting, drafts[setting.key])]));
+  const changed = settings.filter(isDirty);
+  const hasErrors = changed.some((setting) => errors[setting.key]);
+  const handleSave = async () => {
+    const body = Object.fromEntries(changed.map((setting) => {
+      const draft = drafts[setting.key];
+      return [setting.key, Array.isArray(draft) ? draft.map((item) => item.trim()).filter(Boolean) : draft];
+    }));
+    setIsSaving(true);
+    try {
+      load(await api<RuntimeSetting[]>('/api/settings', { method: 'PATCH', body: JSON.stringify(body) }));
+      toast.success('Settings saved.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  const renderControl = (setting: RuntimeSetting) => {
+    const draft = drafts[setting.key];
+    if (draft === null) {
+      const fallback = setting.envValue != null ? `the env value "${setting.envValue}"` : `the default "${setting.defaultValue}"`;
+      return (
+        <p className="text-sm text-muted-foreground">
+          The KV override will be removed; {fallback} applies.{' '}
+          <Button type="button" variant="link" className="h-auto p-0" onClick={() => setDraft(setting.key, toDraft(setting))}>Undo</Button>
+        </p>
+      );
+    }
+    switch (setting.type) {
+      case 'boolean':
+        return <Switch id={setting.key} checked={draft as boolean} onCheckedChange={(checked) => setDraft(setting.key, checked)} />;
+      case 'list':
+        return (
+          <ListEditor
+            items={draft as string[]}
+            onChange={(items) => setDraft(setting.key, items)}
+            placeholder={setting.key.startsWith('AUTH_') ? 'user@example.com or @example.com' : 'Caption or prefix'}
+          />
+        );
+      default:
+        return (
+          <Input
+            id={setting.key}
+            type={setting.type === 'integer' ? 'number' : 'text'}
+            min={setting.min ?? undefined}
+            max={setting.max ?? undefined}
+            value={draft as string}
+            placeholder={setting.type === 'url' ? 'https://' : undefined}
+            onChange={(e) => setDraft(setting.key, e.target.value)}
+          />
+        );
+    }
+  };
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Runtime Settings</SheetTitle>
+          <SheetDescription>
+            Values saved here are stored in KV and override the worker's environment variables. Reset removes the override.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="-mx-6 flex-1 px-6">
+          <div className="py-4 space-y-4">
+            {isLoading ? (
+              Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-20 w-full" />)
+            ) : (
+              settings.map((setting) => (
+                <div key={setting.key} className="space-y-2 p-4 border rounded-md">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor={setting.key} className="font-mono text-xs">{setting.key}</Label>
+                    <div className="flex items-center gap-1">
+                      {isDirty(setting) && <Badge variant="outline">Unsaved</Badge>}
+                      <Badge variant={setting.source === 'kv' ? 'default' : 'secondary'}>{SOURCE_LABELS[setting.source]}</Badge>
+                      {setting.source === 'kv' && drafts[setting.key] !== null && (
+                        <Button type="button" variant="ghost" size="icon" className="size-7" aria-label="Reset to env or default" title="Reset to env or default" onClick={() => setDraft(setting.key, null)}>
+                          <RotateCcw className="size-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{setting.description}</p>
+                  {renderControl(setting)}
+                  {errors[setting.key] && <p className="text-red-500 text-sm">{errors[setting.key]}</p>}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className="mt-auto pt-4 border-t">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button type="button" className="gap-2" onClick={handleSave} disabled={isSaving || changed.length === 0 || hasErrors}>
+            <Save className="size-4" />
+            {isSaving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -13,18 +13,33 @@ import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Switch } from '@/components/ui/switch';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, Controller, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { api } from '@/lib/api-client';
-import type { SolarWindsConfig } from '@shared/types';
+import type { SolarWindsConfig, SolarWindsConnectionTestResult } from '@shared/types';
 import { toast } from '@/components/ui/sonner';
-import { Save } from 'lucide-react';
+import { Save, PlugZap, CheckCircle2, XCircle, PlusCircle, Trash2 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ConfigVersionHistory } from './ConfigVersionHistory';
+// The worker only reads SolarWinds credential secrets
+const CREDENTIAL_VAR = /^SOLARWINDS_[A-Z0-9_]+$/;
+const CREDENTIAL_VAR_MESSAGE = 'Must name a SOLARWINDS_* secret, e.g. SOLARWINDS_USERNAME.';
 const configSchema = z.object({
   enabled: z.boolean(),
   apiUrl: z.string().url({ message: 'Please enter a valid API URL.' }).or(z.literal('')),
-  usernameVar: z.string().min(1, { message: 'Required' }),
-  passwordVar: z.string().min(1, { message: 'Required' }),
+  usernameVar: z.string().regex(CREDENTIAL_VAR, { message: CREDENTIAL_VAR_MESSAGE }),
+  passwordVar: z.string().regex(CREDENTIAL_VAR, { message: CREDENTIAL_VAR_MESSAGE }),
+  severityMapping: z.array(z.object({
+    solarwindsValue: z.string().min(1, { message: 'Required' }),
+    dashboardValue: z.enum(['Critical', 'Warning', 'Info']),
+  })),
 }).refine(data => !data.enabled || (data.enabled && data.apiUrl), {
   message: 'API URL is required when enabled.',
   path: ['apiUrl'],
@@ -37,11 +52,21 @@ interface ManageSolarWindsSheetProps {
 }
 export function ManageSolarWindsSheet({ isOpen, onOpenChange, onConfigUpdate }: ManageSolarWindsSheetProps) {
   const [isLoading, setIsLoading] = useState(true);
-  const { register, handleSubmit, reset, formState: { errors, isSubmitting }, control } = useForm<ConfigFormData>({
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<SolarWindsConnectionTestResult | null>(null);
+  const { register, handleSubmit, reset, getValues, formState: { errors, isSubmitting }, control } = useForm<ConfigFormData>({
     resolver: zodResolver(configSchema),
+    defaultValues: {
+      severityMapping: [],
+    }
+  });
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "severityMapping",
   });
   useEffect(() => {
     if (isOpen) {
+      setTestResult(null);
       const fetchConfig = async () => {
         try {
           setIsLoading(true);
@@ -70,6 +95,25 @@ export function ManageSolarWindsSheet({ isOpen, onOpenChange, onConfigUpdate }:
       toast.error('Failed to save configuration.');
     }
   };
+  const handleTestConnection = async () => {
+    try {
+      setIsTesting(true);
+      setTestResult(null);
+      const result = await api<SolarWindsConnectionTestResult>('/api/solarwinds/test', {
+        method: 'POST',
+        body: JSON.stringify(getValues()),
+      });
+      setTestResult(result);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Connection test failed.');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+  const handleRolledBack = (config: SolarWindsConfig) => {
+    reset(config);
+    onConfigUpdate();
+  };
   return (
     <Sheet open={isOpen} onOpenChange={onOpenChange}>
       <SheetContent className="flex flex-col sm:max-w-lg">
@@ -116,7 +160,61 @@ export function ManageSolarWindsSheet({ isOpen, onOpenChange, onConfigUpdate }:
                       {errors.passwordVar && <p className="text-red-500 text-sm mt-1">{errors.passwordVar.message}</p>}
                     </div>
                   </div>
+                  <Button type="button" variant="outline" size="sm" className="gap-2" onClick={handleTestConnection} disabled={isTesting}>
+                    <PlugZap className="size-4" />
+                    {isTesting ? 'Testing...' : 'Test Connection'}
+                  </Button>
+                  {testResult && (
+                    <div className="rounded-md border p-3 text-sm space-y-1">
+                      <div className={`flex items-center gap-2 font-medium ${testResult.ok ? 'text-green-500' : 'text-red-500'}`}>
+                        {testResult.ok ? <CheckCircle2 className="size-4" /> : <XCircle className="size-4" />}
+                        <span>{testResult.message}</span>
+                      </div>
+                      <p className="text-muted-foreground">
+                        Auth: {testResult.auth} &middot; TLS: {testResult.tls} &middot; Latency: {testResult.latencyMs != null ? `${testResult.latencyMs} ms` : 'n/a'}
+                        {testResult.status != null && <> &middot; HTTP {testResult.status}</>}
+                      </p>
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-4 p-4 border rounded-md">
+                  <h4 className="font-semibold">Severity Mappings</h4>
+                  <p className="text-sm text-muted-foreground">Map the alert definition's Severity (Orion: 0 Informational, 1 Warning, 2 Critical, 3 Serious, 4 Notice) to dashboard severities. Unmapped values show as Info.</p>
+                  <div className="space-y-3">
+                    {fields.map((field, index) => (
+                      <div key={field.id} className="flex items-end gap-2">
+                        <div className="flex-1">
+                          <Label>SolarWinds Value</Label>
+                          <Input {...register(`severityMapping.${index}.solarwindsValue`)} placeholder="e.g., 2" />
+                        </div>
+                        <div className="flex-1">
+                          <Label>Dashboard Value</Label>
+                          <Controller
+                            control={control}
+                            name={`severityMapping.${index}.dashboardValue`}
+                            render={({ field }) => (
+                              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="Critical">Critical</SelectItem>
+                                  <SelectItem value="Warning">Warning</SelectItem>
+                                  <SelectItem value="Info">Info</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            )}
+                          />
+                        </div>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="text-red-500 hover:text-red-600">
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button type="button" variant="outline" size="sm" onClick={() => append({ solarwindsValue: '', dashboardValue: 'Info' })} className="gap-2">
+                    <PlusCircle className="size-4" /> Add Mapping
+                  </Button>
                 </div>
+                <ConfigVersionHistory<SolarWindsConfig> configName="solarwinds" onRolledBack={handleRolledBack} />
               </div>
             )}
           </ScrollArea>
@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+  SheetFooter,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useForm, Controller, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { api } from '@/lib/api-client';
+import type { Outage, StatusPageConfig, Vendor } from '@shared/types';
+import { toast } from '@/components/ui/sonner';
+import { ExternalLink, PlusCircle, Save, Trash2 } from 'lucide-react';
+import { StatusIndicator } from './StatusIndicator';
+const statusPageSchema = z.object({
+  title: z.string().trim().min(1, { message: 'Title is required.' }),
+  systems: z.array(z.object({
+    systemName: z.string().trim().min(1, { message: 'System name is required.' }),
+    displayName: z.string().trim().min(1, { message: 'Public name is required.' }),
+  })),
+  vendorIds: z.array(z.string()),
+  messages: z.array(z.object({ outageId: z.string(), message: z.string() })),
+});
+type StatusPageFormData = z.infer<typeof statusPageSchema>;
+const toFormValues = (config: StatusPageConfig, outages: Outage[]): StatusPageFormData => ({
+  title: config.title,
+  systems: config.systems,
+  vendorIds: config.vendorIds,
+  // One message box per active outage; resolved incidents keep whatever was saved
+  messages: outages.map((outage) => ({ outageId: outage.id, message: config.messages[outage.id]?.message ?? '' })),
+});
+interface ManageStatusPageSheetProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+export function ManageStatusPageSheet({ isOpen, onOpenChange }: ManageStatusPageSheetProps) {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [outages, setOutages] = useState<Outage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { register, handleSubmit, reset, watch, formState: { errors, isSubmitting }, control } = useForm<StatusPageFormData>({
+    resolver: zodResolver(statusPageSchema),
+    defaultValues: { title: '', systems: [], vendorIds: [], messages: [] },
+  });
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "systems",
+  });
+  const watchedSystems = watch('systems');
+  useEffect(() => {
+    if (!isOpen) return;
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        const [config, vendorData, outageData] = await Promise.all([
+          api<StatusPageConfig>('/api/status-page/config'),
+          api<Vendor[]>('/api/vendors'),
+          api<Outage[]>('/api/outages/active').catch(() => [] as Outage[]),
+        ]);
+        setVendors(vendorData);
+        setOutages(outageData);
+        reset(toFormValues(config, outageData));
+      } catch (error) {
+        toast.error('Failed to load status page settings.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchData();
+  }, [isOpen, reset]);
+  const isPublished = (systemName: string) =>
+    watchedSystems.some((s) => s.systemName.trim().toLowerCase() === systemName.trim().toLowerCase());
+  const onSubmit = async (data: StatusPageFormData) => {
+    const payload = {
+      title: data.title,
+      systems: data.systems,
+      vendorIds: data.vendorIds,
+      messages: Object.fromEntries(data.messages.map((m) => [m.outageId, m.message])),
+    };
+    try {
+      await api<StatusPageConfig>('/api/status-page/config', { method: 'POST', body: JSON.stringify(payload) });
+      toast.success('Status page updated.');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save status page settings.');
+    }
+  };
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>Public Status Page</SheetTitle>
+          <SheetDescription>
+            Choose what <a href="/status" target="_blank" rel="noopener noreferrer" className="underline inline-flex items-center gap-1">/status <ExternalLink className="size-3" /></a> publishes.
+            Internal IDs, descriptions and bridge links are never shown.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="-mx-6 flex-1 px-6">
+          {isLoading ? (
+            <div className="space-y-4 py-4">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-32 w-full" />
+              <Skeleton className="h-32 w-full" />
+            </div>
+          ) : (
+            <form id="status-page-form" onSubmit={handleSubmit(onSubmit)} className="space-y-6 py-4">
+              <div>
+                <Label htmlFor="status-title">Page title</Label>
+                <Input id="status-title" {...register('title')} />
+                {errors.title && <p className="text-red-500 text-sm mt-1">{errors.title.message}</p>}
+              </div>
+              <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold">Published systems</h3>
+                  <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => append({ systemName: '', displayName: '' })}>
+                    <PlusCircle className="size-4" /> Add system
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Outages on the system name (as reported by ServiceNow) are shown under the public name.
+                </p>
+                {fields.length === 0 && <p className="text-sm text-muted-foreground">No systems published.</p>}
+                {fields.map((field, index) => (
+                  <div key={field.id} className="grid grid-cols-[1fr,1fr,auto] gap-2 items-start">
+                    <div>
+                      <Input placeholder="System name" {...register(`systems.${index}.systemName`)} />
+                      {errors.systems?.[index]?.systemName && <p className="text-red-500 text-xs mt-1">{errors.systems[index]?.systemName?.message}</p>}
+                    </div>
+                    <div>
+                      <Input placeholder="Public name" {...register(`systems.${index}.displayName`)} />
+                      {errors.systems?.[index]?.displayName && <p className="text-red-500 text-xs mt-1">{errors.systems[index]?.displayName?.message}</p>}
+                    </div>
+                    <Button type="button" variant="ghost" size="icon" aria-label="Remove system" onClick={() => remove(index)}>
+                      <Trash2 className="size-4 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+              </section>
+              <section className="space-y-3">
+                <h3 className="text-sm font-semibold">Published vendors</h3>
+                {vendors.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No vendors configured.</p>
+                ) : (
+                  <Controller
+                    name="vendorIds"
+                    control={control}
+                    render={({ field }) => (
+                      <div className="grid grid-cols-2 gap-2">
+                        {vendors.map((vendor) => (
+                          <label key={vendor.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(vendor.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(checked ? [...field.value, vendor.id] : field.value.filter((id) => id !== vendor.id))
+                              }
+                            />
+                            {vendor.name}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  />
+                )}
+              </section>
+              <section className="space-y-3">
+                <h3 className="text-sm font-semibold">Incident messages</h3>
+                <p className="text-xs text-muted-foreground">
+                  Public text for each active outage. Leave empty to show a generic message.
+                </p>
+                {outages.length === 0 && <p className="text-sm text-muted-foreground">No active outages.</p>}
+                {outages.map((outage, index) => (
+                  <div key={outage.id} className="space-y-1">
+                    <Label htmlFor={`message-${outage.id}`} className="flex items-center gap-2">
+                      <StatusIndicator status={outage.impactLevel} />
+                      {outage.id}: {outage.systemName}
+                      {!isPublished(outage.systemName) && <span className="text-xs font-normal text-muted-foreground">(not published)</span>}
+                    </Label>
+                    <Textarea id={`message-${outage.id}`} rows={2} {...register(`messages.${index}.message`)} />
+                  </div>
+                ))}
+              </section>
+            </form>
+          )}
+        </ScrollArea>
+        <SheetFooter className="mt-auto pt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button type="submit" form="status-page-form" disabled={isSubmitting || isLoading} className="gap-2">
+            <Save className="size-4" />
+            {isSubmitting ? 'Saving...' : 'Save'}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -12,13 +12,15 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
-import { useForm } from 'react-hook-form';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useForm, Controller, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { api } from '@/lib/api-client';
-import type { Vendor, VendorStatusType } from '@shared/types';
+import type { Vendor, VendorStatusType, VendorProviderPreview, VendorRule, VendorEvaluation } from '@shared/types';
 import { toast } from '@/components/ui/sonner';
-import { Trash2, Edit, PlusCircle } from 'lucide-react';
+import { Trash2, Edit, PlusCircle, RefreshCw, Play } from 'lucide-react';
+import { StatusIndicator } from './StatusIndicator';
 import {
   Select,
   SelectContent,
@@ -26,23 +28,97 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+const isRegex = (value: string) => {
+  try {
+    new RegExp(value, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
 const vendorSchema = z.object({
   name: z.string().min(2, { message: 'Name must be at least 2 characters.' }),
   url: z.string().url({ message: 'Please enter a valid URL.' }),
-  statusType: z.enum(['API_JSON', 'MANUAL']),
+  statusType: z.enum(['API_JSON', 'MANUAL', 'FEED', 'STATUSPAGE_IO', 'STATUS_IO', 'INSTATUS']),
   apiUrl: z.string().url().optional().or(z.literal('')),
-  jsonPath: z.string().optional(),
-  expectedValue: z.string().optional(),
+  rules: z.array(z.object({
+    path: z.string().trim().min(1, { message: 'Path is required.' }),
+    operator: z.enum(['equals', 'in', 'regex', 'gt', 'gte', 'lt', 'lte']),
+    value: z.string(),
+    status: z.enum(['Operational', 'Degraded', 'Outage']),
+  }).refine(rule => rule.operator !== 'regex' || isRegex(rule.value), {
+    message: 'Invalid regular expression.',
+    path: ['value'],
+  }).refine(rule => !['gt', 'gte', 'lt', 'lte'].includes(rule.operator) || (rule.value.trim() !== '' && !Number.isNaN(Number(rule.value))), {
+    message: 'Must be a number.',
+    path: ['value'],
+  })),
+  defaultStatus: z.enum(['Operational', 'Degraded', 'Outage']),
+  components: z.array(z.string()),
+  indicatorMapping: z.array(z.object({
+    providerValue: z.string().trim().min(1, { message: 'Value is required.' }),
+    dashboardValue: z.enum(['Operational', 'Degraded', 'Outage']),
+  })),
+  feedWindowHours: z.number({ error: 'Required' }).int().min(1, { message: 'Must be at least 1 hour.' }).max(720, { message: 'At most 720 hours (30 days).' }),
+  feedRules: z.array(z.object({
+    keyword: z.string().trim().min(1, { message: 'Keyword is required.' }),
+    status: z.enum(['Degraded', 'Outage']),
+  })),
+}).refine(data => data.statusType !== 'FEED' || !!data.apiUrl, {
+  message: 'The feed URL is required.',
+  path: ['apiUrl'],
+}).refine(data => data.statusType !== 'STATUS_IO' || !!data.apiUrl, {
+  message: 'The Status.io public status API URL is required.',
+  path: ['apiUrl'],
 }).refine(data => {
   if (data.statusType === 'API_JSON') {
-    return !!data.apiUrl && !!data.jsonPath && !!data.expectedValue;
+    return !!data.apiUrl && data.rules.length > 0;
   }
   return true;
 }, {
-  message: 'API URL, JSON Path, and Expected Value are required for API_JSON type.',
+  message: 'API URL and at least one rule are required for API_JSON type.',
   path: ['apiUrl'], // You can associate the error with a specific field
 });
 type VendorFormData = z.infer<typeof vendorSchema>;
+const EMPTY_FORM: VendorFormData = { name: '', url: '', statusType: 'MANUAL', apiUrl: '', rules: [], defaultStatus: 'Outage', components: [], indicatorMapping: [], feedWindowHours: 24, feedRules: [] };
+// Hosted status page providers: summary endpoint hint shown under the API URL field
+const PROVIDER_HINTS: Partial<Record<VendorStatusType, string>> = {
+  STATUSPAGE_IO: 'Optional. Defaults to <status page URL>/api/v2/summary.json.',
+  STATUS_IO: 'Required: https://api.status.io/1.0/status/<status page id>.',
+  INSTATUS: 'Optional. Defaults to <status page URL>/summary.json.',
+};
+const isProvider = (type: VendorStatusType) => type in PROVIDER_HINTS;
+const OPERATOR_LABELS: Record<VendorRule['operator'], string> = {
+  equals: 'equals',
+  in: 'is one of',
+  regex: 'matches regex',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+};
+const DEFAULT_RULE: VendorRule = { path: 'status.indicator', operator: 'equals', value: 'none', status: 'Operational' };
+// Vendors saved before rules existed have a single jsonPath / expectedValue check
+const toFormRules = (vendor: Vendor): VendorRule[] => {
+  if (vendor.rules?.length) return vendor.rules;
+  if (vendor.jsonPath && vendor.expectedValue) {
+    return [{ path: vendor.jsonPath, operator: 'in', value: vendor.expectedValue, status: 'Operational' }];
+  }
+  return [];
+};
+// Request body for save and "evaluate now"; settings of other status types are cleared
+const toPayload = (data: VendorFormData) => ({
+  ...data,
+  apiUrl: data.statusType === 'MANUAL' ? null : data.apiUrl || null,
+  jsonPath: null,
+  expectedValue: null,
+  rules: data.statusType === 'API_JSON' ? data.rules : null,
+  defaultStatus: data.statusType === 'API_JSON' ? data.defaultStatus : null,
+  components: isProvider(data.statusType) ? data.components : null,
+  indicatorMapping: isProvider(data.statusType) ? data.indicatorMapping : null,
+  feedWindowHours: data.statusType === 'FEED' ? data.feedWindowHours : null,
+  feedRules: data.statusType === 'FEED' ? data.feedRules : null,
+});
 interface ManageVendorsSheetProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
@@ -52,16 +128,28 @@ export function ManageVendorsSheet({ isOpen, onOpenChange, onVendorsUpdate }: Ma
   const [vendors, setVendors] = useState<Vendor[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
-  const { register, handleSubmit, reset, formState: { errors, isSubmitting }, control, watch } = useForm<VendorFormData>({
+  const [preview, setPreview] = useState<VendorProviderPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [evaluation, setEvaluation] = useState<VendorEvaluation | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const { register, handleSubmit, reset, formState: { errors, isSubmitting }, control, watch, getValues } = useForm<VendorFormData>({
     resolver: zodResolver(vendorSchema),
-    defaultValues: {
-      statusType: 'MANUAL',
-      apiUrl: '',
-      jsonPath: '',
-      expectedValue: '',
-    }
+    defaultValues: EMPTY_FORM,
+  });
+  const { fields: mappingFields, append: appendMapping, remove: removeMapping } = useFieldArray({
+    control,
+    name: "indicatorMapping",
+  });
+  const { fields: ruleFields, append: appendRule, remove: removeRule } = useFieldArray({
+    control,
+    name: "rules",
+  });
+  const { fields: feedRuleFields, append: appendFeedRule, remove: removeFeedRule } = useFieldArray({
+    control,
+    name: "feedRules",
   });
   const statusType = watch('statusType');
+  const trackedComponents = watch('components');
   const fetchVendors = async () => {
     try {
       setIsLoading(true);
@@ -79,18 +167,15 @@ export function ManageVendorsSheet({ isOpen, onOpenChange, onVendorsUpdate }: Ma
     }
   }, [isOpen]);
   const handleSheetClose = () => {
-    reset({ name: '', url: '', statusType: 'MANUAL', apiUrl: '', jsonPath: '', expectedValue: '' });
+    reset(EMPTY_FORM);
     setEditingVendor(null);
+    setPreview(null);
+    setEvaluation(null);
     onOpenChange(false);
   };
   const onSubmit = async (data: VendorFormData) => {
     try {
-      const payload = {
-        ...data,
-        apiUrl: data.statusType === 'API_JSON' ? data.apiUrl : null,
-        jsonPath: data.statusType === 'API_JSON' ? data.jsonPath : null,
-        expectedValue: data.statusType === 'API_JSON' ? data.expectedValue : null,
-      };
+      const payload = toPayload(data);
       if (editingVendor) {
         await api<Vendor>(`/api/vendors/${editingVendor.id}`, {
           method: 'PUT',
@@ -104,8 +189,10 @@ export function ManageVendorsSheet({ isOpen, onOpenChange, onVendorsUpdate }: Ma
         });
         toast.success(`Vendor "${data.name}" added.`);
       }
-      reset({ name: '', url: '', statusType: 'MANUAL', apiUrl: '', jsonPath: '', expectedValue: '' });
+      reset(EMPTY_FORM);
       setEditingVendor(null);
+      setPreview(null);
+      setEvaluation(null);
       onVendorsUpdate();
       fetchVendors();
     } catch (error) {
@@ -119,13 +206,58 @@ export function ManageVendorsSheet({ isOpen, onOpenChange, onVendorsUpdate }: Ma
       url: vendor.url,
       statusType: vendor.statusType,
       apiUrl: vendor.apiUrl || '',
-      jsonPath: vendor.jsonPath || '',
-      expectedValue: vendor.expectedValue || '',
+      rules: toFormRules(vendor),
+      defaultStatus: vendor.defaultStatus ?? 'Outage',
+      components: vendor.components ?? [],
+      indicatorMapping: vendor.indicatorMapping ?? [],
+      feedWindowHours: vendor.feedWindowHours ?? 24,
+      feedRules: vendor.feedRules ?? [],
     });
+    setPreview(null);
+    setEvaluation(null);
   };
   const handleCancelEdit = () => {
     setEditingVendor(null);
-    reset({ name: '', url: '', statusType: 'MANUAL', apiUrl: '', jsonPath: '', expectedValue: '' });
+    setPreview(null);
+    setEvaluation(null);
+    reset(EMPTY_FORM);
+  };
+  const handleEvaluate = handleSubmit(async (data) => {
+    setIsEvaluating(true);
+    try {
+      setEvaluation(await api<VendorEvaluation>('/api/vendors/evaluate', {
+        method: 'POST',
+        body: JSON.stringify(toPayload(data)),
+      }));
+    } catch (error) {
+      setEvaluation(null);
+      toast.error(error instanceof Error ? error.message : 'Evaluation failed.');
+    } finally {
+      setIsEvaluating(false);
+    }
+  });
+  // Loads the provider's components and shows the status the current settings would produce
+  const handleLoadComponents = async () => {
+    const values = getValues();
+    setIsPreviewing(true);
+    try {
+      const data = await api<VendorProviderPreview>('/api/vendors/provider-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          statusType: values.statusType,
+          url: values.url,
+          apiUrl: values.apiUrl || null,
+          components: values.components,
+          indicatorMapping: values.indicatorMapping,
+        }),
+      });
+      setPreview(data);
+    } catch (error) {
+      setPreview(null);
+      toast.error(error instanceof Error ? error.message : 'Could not read the status page.');
+    } finally {
+      setIsPreviewing(false);
+    }
   };
   const handleDelete = async (vendor: Vendor) => {
     if (window.confirm(`Are you sure you want to delete "${vendor.name}"?`)) {
@@ -162,11 +294,15 @@ export function ManageVendorsSheet({ isOpen, onOpenChange, onVendorsUpdate }: Ma
               </div>
               <div>
                 <Label htmlFor="statusType">Status Check Type</Label>
-                <Select onValueChange={(value: VendorStatusType) => reset({ ...watch(), statusType: value })} value={statusType}>
+                <Select onValueChange={(value: VendorStatusType) => { reset({ ...watch(), statusType: value }); setPreview(null); setEvaluation(null); }} value={statusType}>
                   <SelectTrigger><SelectValue placeholder="Select a type" /></SelectTrigger>
                   <SelectContent>
                     <SelectItem value="MANUAL">Manual</SelectItem>
                     <SelectItem value="API_JSON">API (JSON)</SelectItem>
+                    <SelectItem value="FEED">RSS / Atom feed</SelectItem>
+                    <SelectItem value="STATUSPAGE_IO">Atlassian Statuspage</SelectItem>
+                    <SelectItem value="STATUS_IO">Status.io</SelectItem>
+                    <SelectItem value="INSTATUS">Instatus</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -177,16 +313,234 @@ export function ManageVendorsSheet({ isOpen, onOpenChange, onVendorsUpdate }: Ma
                     <Input id="apiUrl" {...register('apiUrl')} placeholder="https://api.example.com/status.json" />
                     {errors.apiUrl && <p className="text-red-500 text-sm mt-1">{errors.apiUrl.message}</p>}
                   </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Rules</Label>
+                      <Button type="button" variant="ghost" size="sm" className="gap-1" onClick={() => appendRule(ruleFields.length ? { ...DEFAULT_RULE, value: '', status: 'Outage' } : DEFAULT_RULE)}>
+                        <PlusCircle className="size-4" /> Add
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Evaluated in order; the first rule whose path selects a matching value sets the status.
+                      Paths support indexes and wildcards, e.g. <code>components[*].status</code>.
+                    </p>
+                    {ruleFields.map((field, index) => (
+                      <div key={field.id} className="space-y-2 rounded-md border bg-background p-2">
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground w-5">{index + 1}.</span>
+                          <Input placeholder="JSON path" className="flex-1" {...register(`rules.${index}.path`)} />
+                          <Button type="button" variant="ghost" size="icon" aria-label="Remove rule" onClick={() => removeRule(index)}>
+                            <Trash2 className="size-4 text-red-500" />
+                          </Button>
+                        </div>
+                        <div className="flex items-center gap-2 pl-7">
+                          <Controller
+                            name={`rules.${index}.operator`}
+                            control={control}
+                            render={({ field: selectField }) => (
+                              <Select onValueChange={selectField.onChange} value={selectField.value}>
+                                <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(OPERATOR_LABELS).map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          />
+                          <Input placeholder="Value" className="flex-1" {...register(`rules.${index}.value`)} />
+                          <span className="text-xs text-muted-foreground">→</span>
+                          <Controller
+                            name={`rules.${index}.status`}
+                            control={control}
+                            render={({ field: selectField }) => (
+                              <Select onValueChange={selectField.onChange} value={selectField.value}>
+                                <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="Operational">Operational</SelectItem>
+                                  <SelectItem value="Degraded">Degraded</SelectItem>
+                                  <SelectItem value="Outage">Outage</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            )}
+                          />
+                        </div>
+                        {(errors.rules?.[index]?.path || errors.rules?.[index]?.value) && (
+                          <p className="text-red-500 text-xs pl-7">{errors.rules[index]?.path?.message ?? errors.rules[index]?.value?.message}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
                   <div>
-                    <Label htmlFor="jsonPath">JSON Path</Label>
-                    <Input id="jsonPath" {...register('jsonPath')} placeholder="status.indicator" />
-                    {errors.jsonPath && <p className="text-red-500 text-sm mt-1">{errors.jsonPath.message}</p>}
+                    <Label>When no rule matches</Label>
+                    <Controller
+                      name="defaultStatus"
+                      control={control}
+                      render={({ field }) => (
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="Operational">Operational</SelectItem>
+                            <SelectItem value="Degraded">Degraded</SelectItem>
+                            <SelectItem value="Outage">Outage</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">A failed fetch or unreadable response is always shown as Unknown.</p>
+                  </div>
+                </div>
+              )}
+              {statusType === 'FEED' && (
+                <div className="space-y-4 p-4 border rounded-md bg-muted/50">
+                  <div>
+                    <Label htmlFor="feedUrl">Feed URL</Label>
+                    <Input id="feedUrl" {...register('apiUrl')} placeholder="https://status.aws.amazon.com/rss/all.rss" />
+                    {errors.apiUrl && <p className="text-red-500 text-sm mt-1">{errors.apiUrl.message}</p>}
                   </div>
                   <div>
-                    <Label htmlFor="expectedValue">Expected Value (Operational)</Label>
-                    <Input id="expectedValue" {...register('expectedValue')} placeholder="none" />
-                    {errors.expectedValue && <p className="text-red-500 text-sm mt-1">{errors.expectedValue.message}</p>}
+                    <Label htmlFor="feedWindowHours">Window (hours)</Label>
+                    <Input id="feedWindowHours" type="number" {...register('feedWindowHours', { valueAsNumber: true })} />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Entries newer than this that aren't marked resolved count as active incidents.
+                    </p>
+                    {errors.feedWindowHours && <p className="text-red-500 text-sm mt-1">{errors.feedWindowHours.message}</p>}
                   </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Keyword rules</Label>
+                      <Button type="button" variant="ghost" size="sm" className="gap-1" onClick={() => appendFeedRule({ keyword: '', status: 'Outage' })}>
+                        <PlusCircle className="size-4" /> Add
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The first keyword found in an active entry's title or summary sets its status; unmatched entries are Degraded.
+                    </p>
+                    {feedRuleFields.map((field, index) => (
+                      <div key={field.id} className="flex items-start gap-2">
+                        <div className="flex-1">
+                          <Input placeholder="Keyword, e.g. outage" {...register(`feedRules.${index}.keyword`)} />
+                          {errors.feedRules?.[index]?.keyword && <p className="text-red-500 text-xs mt-1">{errors.feedRules[index]?.keyword?.message}</p>}
+                        </div>
+                        <Controller
+                          name={`feedRules.${index}.status`}
+                          control={control}
+                          render={({ field: selectField }) => (
+                            <Select onValueChange={selectField.onChange} value={selectField.value}>
+                              <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="Degraded">Degraded</SelectItem>
+                                <SelectItem value="Outage">Outage</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                        />
+                        <Button type="button" variant="ghost" size="icon" aria-label="Remove rule" onClick={() => removeFeedRule(index)}>
+                          <Trash2 className="size-4 text-red-500" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {isProvider(statusType) && (
+                <div className="space-y-4 p-4 border rounded-md bg-muted/50">
+                  <div>
+                    <Label htmlFor="providerApiUrl">Summary API URL</Label>
+                    <Input id="providerApiUrl" {...register('apiUrl')} />
+                    <p className="text-xs text-muted-foreground mt-1">{PROVIDER_HINTS[statusType]}</p>
+                    {errors.apiUrl && <p className="text-red-500 text-sm mt-1">{errors.apiUrl.message}</p>}
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Tracked components</Label>
+                      <Button type="button" variant="outline" size="sm" className="gap-2" onClick={handleLoadComponents} disabled={isPreviewing}>
+                        <RefreshCw className={`size-4 ${isPreviewing ? 'animate-spin' : ''}`} />
+                        {isPreviewing ? 'Loading...' : 'Load components'}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The worst tracked component sets the vendor's status. With none selected, the page's overall indicator is used.
+                    </p>
+                    {preview && (
+                      <div className="rounded-md border bg-background p-2 text-xs space-y-1">
+                        <StatusIndicator status={preview.status}>
+                          Would show {preview.status} (page indicator "{preview.overall || 'n/a'}")
+                        </StatusIndicator>
+                        {preview.incident && <p className="text-muted-foreground">Current incident: {preview.incident}</p>}
+                      </div>
+                    )}
+                    <Controller
+                      name="components"
+                      control={control}
+                      render={({ field }) => (
+                        <div className="max-h-48 overflow-y-auto space-y-1">
+                          {(preview?.components ?? []).map((component) => (
+                            <label key={component.id} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={field.value.includes(component.id)}
+                                onCheckedChange={(checked) =>
+                                  field.onChange(checked ? [...field.value, component.id] : field.value.filter((id) => id !== component.id))
+                                }
+                              />
+                              <span className="flex-1 truncate">{component.name}</span>
+                              <span className="text-xs text-muted-foreground">{component.status}</span>
+                            </label>
+                          ))}
+                          {!preview && trackedComponents.length > 0 && (
+                            <p className="text-xs text-muted-foreground">{trackedComponents.length} component(s) tracked. Load components to change the selection.</p>
+                          )}
+                        </div>
+                      )}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Indicator mapping overrides</Label>
+                      <Button type="button" variant="ghost" size="sm" className="gap-1" onClick={() => appendMapping({ providerValue: '', dashboardValue: 'Degraded' })}>
+                        <PlusCircle className="size-4" /> Add
+                      </Button>
+                    </div>
+                    {preview && (
+                      <p className="text-xs text-muted-foreground">
+                        Defaults: {preview.defaultMapping.map((m) => `${m.providerValue} → ${m.dashboardValue}`).join(', ')}. Unknown values show as Degraded.
+                      </p>
+                    )}
+                    {mappingFields.map((field, index) => (
+                      <div key={field.id} className="flex items-start gap-2">
+                        <div className="flex-1">
+                          <Input placeholder="Provider value" {...register(`indicatorMapping.${index}.providerValue`)} />
+                          {errors.indicatorMapping?.[index]?.providerValue && <p className="text-red-500 text-xs mt-1">{errors.indicatorMapping[index]?.providerValue?.message}</p>}
+                        </div>
+                        <Controller
+                          name={`indicatorMapping.${index}.dashboardValue`}
+                          control={control}
+                          render={({ field: selectField }) => (
+                            <Select onValueChange={selectField.onChange} value={selectField.value}>
+                              <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="Operational">Operational</SelectItem>
+                                <SelectItem value="Degraded">Degraded</SelectItem>
+                                <SelectItem value="Outage">Outage</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                        />
+                        <Button type="button" variant="ghost" size="icon" aria-label="Remove mapping" onClick={() => removeMapping(index)}>
+                          <Trash2 className="size-4 text-red-500" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {evaluation && (
+                <div className="rounded-md border p-3 text-sm space-y-1">
+                  <StatusIndicator status={evaluation.status}>
+                    <span className="font-medium text-foreground">{evaluation.status}</span>
+                  </StatusIndicator>
+                  <p className="text-xs text-muted-foreground">{evaluation.detail}</p>
+                  {evaluation.incident && <p className="text-xs text-muted-foreground">Current incident: {evaluation.incident}</p>}
                 </div>
               )}
               <div className="flex gap-2">
@@ -194,6 +548,12 @@ export function ManageVendorsSheet({ isOpen, onOpenChange, onVendorsUpdate }: Ma
                   <PlusCircle className="size-4" />
                   {isSubmitting ? 'Saving...' : editingVendor ? 'Update Vendor' : 'Add Vendor'}
                 </Button>
+                {statusType !== 'MANUAL' && (
+                  <Button type="button" variant="secondary" className="gap-2" onClick={handleEvaluate} disabled={isEvaluating}>
+                    <Play className="size-4" />
+                    {isEvaluating ? 'Evaluating...' : 'Evaluate now'}
+                  </Button>
+                )}
                 {editingVendor && <Button type="button" variant="outline" onClick={handleCancelEdit}>Cancel</Button>}
               </div>
             </form>
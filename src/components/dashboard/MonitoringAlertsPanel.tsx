@@ -3,23 +3,39 @@ import { DataCard } from './DataCard';
 import { StatusIndicator } from './StatusIndicator';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
-import { BellRing, CheckCircle2, Settings, AlertCircle } from 'lucide-react';
-import { formatDistanceToNow, parseISO } from 'date-fns';
-import type { MonitoringAlert } from '@shared/types';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { BellRing, CheckCircle2, Settings, AlertCircle, Filter, Loader2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import type { MonitoringAlert, AlertSeverity, AlertAcknowledgement, DashboardPermissions } from '@shared/types';
 import { api } from '@/lib/api-client';
 import { Toaster, toast } from '@/components/ui/sonner';
 import { useDashboardStore } from '@/stores/dashboard-store';
 import { useShallow } from 'zustand/react/shallow';
 import { ManageSolarWindsSheet } from './ManageSolarWindsSheet';
+import { useDashboardEvents } from '@/hooks/useDashboardStream';
 
-// CHANGED: Added managementEnabled prop
-export function MonitoringAlertsPanel({ managementEnabled }: { managementEnabled?: boolean }) {
+const ALL_SEVERITIES: AlertSeverity[] = ['Critical', 'Warning', 'Info'];
+// Remembers who is acknowledging when the dashboard doesn't identify them (legacy mode)
+const ACK_NAME_STORAGE_KEY = 'aegis-ack-name';
+
+export function MonitoringAlertsPanel({ permissions, userName }: { permissions?: DashboardPermissions; userName?: string | null }) {
   const [alerts, setAlerts] = useState<MonitoringAlert[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSheetOpen, setIsSheetOpen] = useState(false);
   const [filter, setFilter] = useState<'all' | 'validated'>('all');
+  const [severities, setSeverities] = useState<Set<AlertSeverity>>(() => new Set(ALL_SEVERITIES));
 
   const { searchQuery, refreshCounter } = useDashboardStore(
     useShallow((state) => ({
@@ -48,9 +64,21 @@ export function MonitoringAlertsPanel({ managementEnabled }: { managementEnabled
     fetchAlerts();
   }, [refreshCounter, fetchAlerts]);
 
+  // Apply pushed changes in place instead of refetching
+  useDashboardEvents((event) => {
+    if (event.type === 'alert.triggered') {
+      setAlerts((prev) => [event.alert, ...prev.filter((a) => a.id !== event.alert.id)]);
+    } else if (event.type === 'alert.acknowledged') {
+      setAlerts((prev) => prev.map((a) => (a.id === event.alert.id ? event.alert : a)));
+    } else if (event.type === 'alert.cleared') {
+      setAlerts((prev) => prev.filter((a) => a.id !== event.id));
+    }
+  });
+
   const filteredAlerts = useMemo(() => {
     return alerts
       .filter(a => (filter === 'validated' ? a.validated : true))
+      .filter(a => severities.has(a.severity))
       .filter(a => {
         const query = searchQuery.toLowerCase();
         const node = (a as any).nodeCaption || '';
@@ -62,7 +90,25 @@ export function MonitoringAlertsPanel({ managementEnabled }: { managementEnabled
           url.toLowerCase().includes(query)
         );
       });
-  }, [alerts, filter, searchQuery]);
+  }, [alerts, filter, severities, searchQuery]);
+
+  const toggleSeverity = (severity: AlertSeverity) => {
+    setSeverities((prev) => {
+      const next = new Set(prev);
+      if (next.has(severity)) {
+        next.delete(severity);
+      } else {
+        next.add(severity);
+      }
+      return next;
+    });
+  };
+
+  const handleAcknowledged = (ack: AlertAcknowledgement) => {
+    setAlerts((prev) => prev.map((a) => (a.id === ack.alertId
+      ? { ...a, validated: true, acknowledgedBy: ack.acknowledgedBy, acknowledgedAt: ack.acknowledgedAt }
+      : a)));
+  };
 
   const isNotConfigured = error?.includes('not configured');
 
@@ -79,8 +125,32 @@ export function MonitoringAlertsPanel({ managementEnabled }: { managementEnabled
               <ToggleGroupItem value="all" aria-label="All alerts">All</ToggleGroupItem>
               <ToggleGroupItem value="validated" aria-label="Validated alerts">Validated</ToggleGroupItem>
             </ToggleGroup>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="shrink-0 relative" aria-label="Filter by severity">
+                  <Filter className="size-4" />
+                  {severities.size < ALL_SEVERITIES.length && (
+                    <span className="absolute top-1 right-1 size-1.5 rounded-full bg-primary" />
+                  )}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-44">
+                <DropdownMenuLabel>Filter by Severity</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {ALL_SEVERITIES.map((severity) => (
+                  <DropdownMenuCheckboxItem
+                    key={severity}
+                    checked={severities.has(severity)}
+                    onCheckedChange={() => toggleSeverity(severity)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {severity}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
             {/* CHANGED: Added conditional rendering for Settings button */}
-            {managementEnabled && (
+            {permissions?.configure && (
               <Button variant="ghost" size="icon" className="shrink-0" onClick={() => setIsSheetOpen(true)}>
                 <Settings className="size-4" />
               </Button>
@@ -101,7 +171,15 @@ export function MonitoringAlertsPanel({ managementEnabled }: { managementEnabled
           ) : error ? (
             <div className="text-center text-red-500 py-8 text-sm">{error}</div>
           ) : filteredAlerts.length > 0 ? (
-            filteredAlerts.map((alert) => <AlertItem key={alert.id} alert={alert} />)
+            filteredAlerts.map((alert) => (
+              <AlertItem
+                key={alert.id}
+                alert={alert}
+                canAcknowledge={permissions?.operate}
+                userName={userName}
+                onAcknowledged={handleAcknowledged}
+              />
+            ))
           ) : (
             <div className="text-center text-muted-foreground py-8">
               <p>No alerts match your criteria.</p>
@@ -119,7 +197,12 @@ export function MonitoringAlertsPanel({ managementEnabled }: { managementEnabled
   );
 }
 
-function AlertItem({ alert }: { alert: MonitoringAlert }) {
+function AlertItem({ alert, canAcknowledge, userName, onAcknowledged }: {
+  alert: MonitoringAlert;
+  canAcknowledge?: boolean;
+  userName?: string | null;
+  onAcknowledged: (ack: AlertAcknowledgement) => void;
+}) {
   const issue = (alert.type || 'Alert').trim();
   const node = ((alert as any).nodeCaption || '').trim();
 
@@ -154,18 +237,76 @@ function AlertItem({ alert }: { alert: MonitoringAlert }) {
           {alert.validated && (
             <>
               <span>&middot;</span>
-              <div className="flex items-center gap-1 text-green-500">
+              <div
+                className="flex items-center gap-1 text-green-500"
+                title={alert.acknowledgedAt ? `Acknowledged ${format(parseISO(alert.acknowledgedAt), 'PPpp')}` : undefined}
+              >
                 <CheckCircle2 className="size-3" />
-                <span>Validated</span>
+                <span>{alert.acknowledgedBy ? `Validated by ${alert.acknowledgedBy}` : 'Validated'}</span>
               </div>
             </>
           )}
         </div>
       </div>
+      {canAcknowledge && !alert.validated && (
+        <AcknowledgeButton alertId={alert.id} userName={userName} onAcknowledged={onAcknowledged} />
+      )}
     </div>
   );
 }
 
+function AcknowledgeButton({ alertId, userName, onAcknowledged }: {
+  alertId: string;
+  userName?: string | null;
+  onAcknowledged: (ack: AlertAcknowledgement) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(() => localStorage.getItem(ACK_NAME_STORAGE_KEY) ?? '');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleAcknowledge = async () => {
+    setIsSubmitting(true);
+    try {
+      const ack = await api<AlertAcknowledgement>(`/api/monitoring/alerts/${alertId}/acknowledge`, {
+        method: 'POST',
+        body: JSON.stringify({ acknowledgedBy: userName ? undefined : name.trim() || undefined, note: note.trim() || undefined }),
+      });
+      if (!userName && name.trim()) localStorage.setItem(ACK_NAME_STORAGE_KEY, name.trim());
+      onAcknowledged(ack);
+      toast.success('Alert acknowledged in SolarWinds.');
+      setNote('');
+      setOpen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to acknowledge alert.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="ml-auto shrink-0 h-7 text-xs">Acknowledge</Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <p className="text-sm font-medium">Acknowledge alert</p>
+        {userName
+          ? <p className="text-xs text-muted-foreground">Acknowledging as {userName}</p>
+          : <Input placeholder="Your name" value={name} onChange={(e) => setName(e.target.value)} />}
+        <Textarea placeholder="Comment (optional)" value={note} onChange={(e) => setNote(e.target.value)} rows={3} />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button size="sm" onClick={handleAcknowledge} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+            Acknowledge
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 function AlertSkeleton() {
   return (
     <div className="flex items-start gap-3">
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ExternalLink, Phone, AlertCircle, MessageSquare, Ticket, Edit, CheckCircle2 } from 'lucide-react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import type { Outage, OutageDetail } from '@shared/types';
+import { api } from '@/lib/api-client';
+import { toast } from '@/components/ui/sonner';
+import { StatusIndicator } from './StatusIndicator';
+interface OutageDetailSheetProps {
+  outageId: string | null;
+  onOpenChange: (isOpen: boolean) => void;
+  managementEnabled?: boolean;
+  onEdit?: (outage: Outage) => void;
+  onResolved?: (id: string) => void;
+}
+const formatTimestamp = (iso: string | null) => {
+  if (!iso || iso === 'Unknown') return 'Unknown';
+  const millis = Date.parse(iso);
+  return Number.isNaN(millis) ? 'Unknown' : format(new Date(millis), 'PPpp');
+};
+export function OutageDetailSheet({ outageId, onOpenChange, managementEnabled, onEdit, onResolved }: OutageDetailSheetProps) {
+  const [detail, setDetail] = useState<OutageDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  useEffect(() => {
+    if (!outageId) return;
+    let cancelled = false;
+    const fetchDetail = async () => {
+      setIsLoading(true);
+      setError(null);
+      setDetail(null);
+      try {
+        const data = await api<OutageDetail>(`/api/outages/${encodeURIComponent(outageId)}/detail`);
+        if (!cancelled) setDetail(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load outage details.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    fetchDetail();
+    return () => {
+      cancelled = true;
+    };
+  }, [outageId]);
+  const outage = detail?.outage;
+  const handleResolve = async () => {
+    if (!outage || !window.confirm(`Mark outage ${outage.id} on ${outage.systemName} as resolved?`)) return;
+    setIsResolving(true);
+    try {
+      await api<Outage>(`/api/outages/${encodeURIComponent(outage.id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ resolved: true }),
+      });
+      toast.success(`Outage ${outage.id} resolved.`);
+      onResolved?.(outage.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to resolve the outage.');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+  return (
+    <Sheet open={outageId !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            {outage && <StatusIndicator status={outage.impactLevel} />}
+            <span className="truncate">{outage ? `${outage.id}: ${outage.systemName}` : outageId}</span>
+          </SheetTitle>
+          <SheetDescription>Outage record, work notes and incidents on the affected CI.</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {isLoading ? (
+            <div className="space-y-4 py-4">
+              <Skeleton className="h-24 w-full" />
+              <Skeleton className="h-32 w-full" />
+              <Skeleton className="h-32 w-full" />
+            </div>
+          ) : error ? (
+            <div className="text-center text-red-500 py-8 text-sm">
+              <AlertCircle className="mx-auto size-8 mb-2" />
+              {error}
+            </div>
+          ) : detail && outage ? (
+            <div className="space-y-6 py-4">
+              {detail.warnings.length > 0 && (
+                <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-xs text-yellow-600 space-y-1">
+                  {detail.warnings.map((warning) => <p key={warning}>{warning}</p>)}
+                </div>
+              )}
+              <section className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={outage.impactLevel === 'Outage' ? 'destructive' : 'secondary'}>{outage.impactLevel}</Badge>
+                  {detail.ciName && <Badge variant="outline">CI: {detail.ciName}</Badge>}
+                </div>
+                <p className="text-sm text-foreground whitespace-pre-wrap">{outage.description}</p>
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+                  <dt className="text-muted-foreground">Started</dt>
+                  <dd>{formatTimestamp(outage.startTime)}</dd>
+                  <dt className="text-muted-foreground">ETA</dt>
+                  <dd>{formatTimestamp(outage.eta)}</dd>
+                </dl>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" className="gap-2" asChild>
+                    <a href={detail.recordUrl} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="size-4" />
+                      Open in ServiceNow
+                    </a>
+                  </Button>
+                  {outage.teamsBridgeUrl && (
+                    <Button variant="secondary" size="sm" className="gap-2" asChild>
+                      <a href={outage.teamsBridgeUrl} target="_blank" rel="noopener noreferrer">
+                        <Phone className="size-4" />
+                        Join Call
+                      </a>
+                    </Button>
+                  )}
+                  {managementEnabled && (
+                    <>
+                      <Button variant="outline" size="sm" className="gap-2" onClick={() => onEdit?.(outage)}>
+                        <Edit className="size-4" />
+                        Update
+                      </Button>
+                      <Button variant="outline" size="sm" className="gap-2" onClick={handleResolve} disabled={isResolving}>
+                        <CheckCircle2 className="size-4" />
+                        {isResolving ? 'Resolving...' : 'Mark resolved'}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </section>
+              <section className="space-y-3">
+                <h3 className="flex items-center gap-2 text-sm font-semibold">
+                  <Ticket className="size-4" />
+                  Linked Incidents ({detail.incidents.length})
+                </h3>
+                {detail.incidents.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No active or recent incidents on this CI.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {detail.incidents.map((incident) => (
+                      <a
+                        key={incident.ticketUrl}
+                        href={incident.ticketUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block rounded-md border p-3 text-sm hover:bg-accent/50 transition-colors"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{incident.id}</span>
+                          <Badge variant="outline">{incident.status}</Badge>
+                        </div>
+                        <p className="text-muted-foreground truncate">{incident.summary}</p>
+                        <p className="text-xs text-muted-foreground/80">{incident.assignedTeam}</p>
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </section>
+              <section className="space-y-3">
+                <h3 className="flex items-center gap-2 text-sm font-semibold">
+                  <MessageSquare className="size-4" />
+                  Work Notes &amp; Comments
+                </h3>
+                {detail.journal.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No work notes or comments yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {detail.journal.map((entry) => (
+                      <div key={entry.id} className="rounded-md border p-3 text-sm space-y-1">
+                        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                          <span>
+                            <span className="font-medium text-foreground">{entry.createdBy}</span>
+                            {' · '}
+                            <span title={formatTimestamp(entry.createdAt)}>
+                              {formatDistanceToNow(parseISO(entry.createdAt), { addSuffix: true })}
+                            </span>
+                          </span>
+                          <Badge variant={entry.element === 'work_notes' ? 'secondary' : 'outline'}>
+                            {entry.element === 'work_notes' ? 'Work note' : 'Comment'}
+                          </Badge>
+                        </div>
+                        <p className="whitespace-pre-wrap">{entry.value}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </div>
+          ) : null}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -4,7 +4,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { BarChart, Download, AlertCircle } from 'lucide-react';
 import { Bar, BarChart as RechartsBarChart, ResponsiveContainer, XAxis, YAxis, Tooltip, CartesianGrid, Legend } from 'recharts';
-import type { Outage, ImpactLevel } from '@shared/types';
+import type { OutageRecord, OutageHistoryPage, ImpactLevel } from '@shared/types';
 import { api } from '@/lib/api-client';
 import { Toaster, toast } from '@/components/ui/sonner';
 import { format, subDays, parseISO } from 'date-fns';
@@ -17,6 +17,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 type BreakdownType = 'impact' | 'system';
+const RANGE_OPTIONS = [7, 30, 90] as const;
+type RangeDays = typeof RANGE_OPTIONS[number];
+const PAGE_SIZE = 500;
 type ChartData = {
   date: string;
   [key: string]: number | string;
@@ -36,14 +39,15 @@ const CHART_COLORS = [
   'hsl(var(--chart-4))',
   'hsl(var(--chart-5))',
 ];
-const downloadCSV = (data: Outage[], filename: string) => {
-  const header = ['ID', 'System Name', 'Impact Level', 'Start Time', 'ETA', 'Description', 'Teams Bridge URL'];
+const downloadCSV = (data: OutageRecord[], filename: string) => {
+  const header = ['ID', 'System Name', 'Impact Level', 'Start Time', 'ETA', 'Resolved At', 'Description', 'Teams Bridge URL'];
   const rows = data.map(outage => [
     outage.id,
     `"${outage.systemName.replace(/"/g, '""')}"`,
     outage.impactLevel,
     outage.startTime,
     outage.eta,
+    outage.resolvedAt || '',
     `"${outage.description.replace(/"/g, '""')}"`,
     outage.teamsBridgeUrl || ''
   ].join(','));
@@ -61,7 +65,8 @@ const downloadCSV = (data: Outage[], filename: string) => {
   }
 };
 export function OutageTrendsPanel() {
-  const [history, setHistory] = useState<Outage[]>([]);
+  const [history, setHistory] = useState<OutageRecord[]>([]);
+  const [rangeDays, setRangeDays] = useState<RangeDays>(7);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [breakdownType, setBreakdownType] = useState<BreakdownType>('impact');
@@ -70,8 +75,19 @@ export function OutageTrendsPanel() {
     try {
       setIsLoading(true);
       setError(null);
-      const data = await api<Outage[]>('/api/outages/history');
-      setHistory(data);
+      const to = new Date();
+      const from = subDays(to, rangeDays - 1);
+      from.setHours(0, 0, 0, 0);
+      const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString(), pageSize: String(PAGE_SIZE) });
+      // Persisted history is paginated; pull every page for the selected range
+      const items: OutageRecord[] = [];
+      for (let page = 1; ; page++) {
+        params.set('page', String(page));
+        const result = await api<OutageHistoryPage>(`/api/outages/history?${params.toString()}`);
+        items.push(...result.items);
+        if (items.length >= result.total || result.items.length === 0) break;
+      }
+      setHistory(items);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Could not load outage history.';
       setError(errorMessage);
@@ -80,7 +96,7 @@ export function OutageTrendsPanel() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [rangeDays]);
   useEffect(() => {
     fetchHistory();
   }, [refreshCounter, fetchHistory]);
@@ -97,12 +113,13 @@ export function OutageTrendsPanel() {
   type ChartRow = { dayKey: string; date: string } & Record<string, number>;
   const normalizeSystem = (name: string) => (name || 'Unknown System').trim();
 
-  // 7-day window (today inclusive)
-  const sevenDaysAgo = subDays(new Date(), 6);
+  // N-day window (today inclusive)
+  const windowStart = subDays(new Date(), rangeDays - 1);
+  windowStart.setHours(0, 0, 0, 0);
 
   // Stable day buckets
   const dataMap = new Map<string, ChartRow>();
-  for (let offset = 6; offset >= 0; offset--) {
+  for (let offset = rangeDays - 1; offset >= 0; offset--) {
     const day = subDays(new Date(), offset);
     const dayKey = format(day, 'yyyy-MM-dd');
     const label  = format(day, 'MMM d');
@@ -116,7 +133,7 @@ export function OutageTrendsPanel() {
     // count
     for (const outage of history) {
       const dt = parseISO(outage.startTime);
-      if (dt < sevenDaysAgo) continue;
+      if (dt < windowStart) continue;
       const dayKey = format(dt, 'yyyy-MM-dd');
       const row = dataMap.get(dayKey);
       if (!row) continue;
@@ -132,7 +149,7 @@ export function OutageTrendsPanel() {
   const allSystemNames = new Set<string>();
   for (const outage of history) {
     const dt = parseISO(outage.startTime);
-    if (dt < sevenDaysAgo) continue;
+    if (dt < windowStart) continue;
     const dayKey = format(dt, 'yyyy-MM-dd');
     const row = dataMap.get(dayKey);
     if (!row) continue;
@@ -141,7 +158,7 @@ export function OutageTrendsPanel() {
     row[sys] = ((row[sys] as number) || 0) + 1;
   }
 
-  // 2) Keep only systems that have at least one non-zero in the 7-day window
+  // 2) Keep only systems that have at least one non-zero in the window
   const systemsWithCounts: string[] = Array.from(allSystemNames).filter(sys =>
     Array.from(dataMap.values()).some(r => (r[sys] as number) > 0)
   ).sort();
@@ -154,15 +171,25 @@ export function OutageTrendsPanel() {
   });
 
   return { chartData: Array.from(dataMap.values()), keys: systemsWithCounts };
-}, [history, breakdownType]);
+}, [history, breakdownType, rangeDays]);
   // THIS ENDS THE useMemo section
   const isNotConfigured = error?.includes('not configured');
   return (
     <DataCard
-      title="Outage Trends (Last 7 Days)"
+      title={`Outage Trends (Last ${rangeDays} Days)`}
       icon={BarChart}
       actions={
         <div className="flex items-center gap-2">
+          <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value) as RangeDays)}>
+            <SelectTrigger className="w-[110px] text-xs sm:text-sm">
+              <SelectValue placeholder="Range" />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Select value={breakdownType} onValueChange={(value: BreakdownType) => setBreakdownType(value)}>
             <SelectTrigger className="w-[180px] text-xs sm:text-sm">
               <SelectValue placeholder="Breakdown by..." />
@@ -193,7 +220,7 @@ export function OutageTrendsPanel() {
           <div className="flex items-center justify-center h-full text-red-500 text-sm">{error}</div>
         ) : history.length === 0 ? (
           <div className="flex items-center justify-center h-full text-muted-foreground">
-            <p>No outage history found for the last 7 days.</p>
+            <p>No outage history found for the last {rangeDays} days.</p>
           </div>
         ) : (
           <ResponsiveContainer width="100%" height="100%">
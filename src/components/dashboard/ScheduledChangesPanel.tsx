@@ -1,292 +1,261 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { DataCard } from './DataCard';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Calendar, ExternalLink } from 'lucide-react';
-import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { Calendar, CalendarPlus, ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
+import { addDays, addHours, format, startOfDay, startOfWeek } from 'date-fns';
+import type { ScheduledChange, ChangeConflict } from '@shared/types';
+import { api } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+import { toast } from '@/components/ui/sonner';
 
 type Props = {
   managementEnabled?: boolean;
   refreshTick?: number; // NEW
 };
 
-type ChangeItem = {
-  id: string;
-  summary: string;
-  offering?: string;
-  start?: string | null;
-  end?: string | null;
-  state?: string | number | null;
-  type?: string | null;
-  url?: string | null;
-  sys_id?: string;
-  number?: string;
-  __isHot?: boolean;
-  [k: string]: any;
-};
-
-function coerceArray(payload: any): any[] {
-  if (Array.isArray(payload)) return payload;
-  if (payload && Array.isArray(payload.result)) return payload.result; // raw ServiceNow
-  if (payload && Array.isArray(payload.items)) return payload.items;
-  if (payload && Array.isArray(payload.data)) return payload.data;
-  return [];
-}
-
-function asText(v: any): string {
-  if (v == null) return '';
-  if (typeof v === 'object') {
-    if ('display_value' in v) return String((v as any).display_value ?? '');
-    if ('value' in v) return String((v as any).value ?? '');
-    try { return JSON.stringify(v); } catch { return String(v); }
-  }
-  return String(v);
-}
+type ViewMode = 'day' | 'week';
 
-function normDateStr(v?: any): string | null {
-  const s = asText(v).trim();
-  if (!s) return null;
-  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(s)) return s.replace(' ', 'T');
-  return s; // let Date try (also handles real ISO)
-}
+const NO_OFFERING = 'No service offering';
 
-function safeParse(v?: any): Date | null {
-  const n = normDateStr(v);
-  if (!n) return null;
-  const d = new Date(n);
-  return isNaN(d.getTime()) ? null : d;
-}
+const CONFLICT_LABELS: Record<ChangeConflict['kind'], string> = {
+  offering: 'Overlaps change on the same offering',
+  ci: 'Overlaps change on the same CI',
+  outage: 'Overlaps active outage',
+};
 
-function safeTime(d: Date | null): string {
-  try { return d ? format(d, 'p') : '—'; } catch { return '—'; }
+function rangeFor(view: ViewMode, anchor: Date): { start: Date; end: Date } {
+  const start = view === 'day' ? startOfDay(anchor) : startOfWeek(anchor, { weekStartsOn: 1 });
+  return { start, end: addDays(start, view === 'day' ? 1 : 7) };
 }
 
-function isCancelled(state: unknown): boolean {
-  const s = asText(state).toLowerCase();
-  return s.includes('cancel'); // “Canceled/Cancelled”
+// Axis ticks: every 3 hours for a day, every day for a week
+function ticksFor(view: ViewMode, start: Date): Date[] {
+  return view === 'day'
+    ? Array.from({ length: 8 }, (_, i) => addHours(start, i * 3))
+    : Array.from({ length: 7 }, (_, i) => addDays(start, i));
 }
 
-function isAllowedState(state: unknown): boolean {
-  const s = asText(state).toLowerCase();
-  // allow Scheduled / Implement / Review (matches label or numeric label text)
-  return ['scheduled', 'implement', 'review'].some((w) => s.includes(w));
+// Bar position as percentages of the visible range; changes without an end get one hour
+function barStyle(change: ScheduledChange, start: Date, end: Date): { left: string; width: string } | null {
+  const s = change.start ? Date.parse(change.start) : NaN;
+  if (Number.isNaN(s)) return null;
+  const parsedEnd = change.end ? Date.parse(change.end) : NaN;
+  const e = Number.isNaN(parsedEnd) ? s + 3_600_000 : parsedEnd;
+  const span = end.getTime() - start.getTime();
+  const from = Math.max(s, start.getTime());
+  const to = Math.min(e, end.getTime());
+  if (to <= from) return null;
+  return {
+    left: `${((from - start.getTime()) / span) * 100}%`,
+    width: `${Math.max(((to - from) / span) * 100, 0.5)}%`,
+  };
 }
 
-function buildUrl(row: any): string | null {
-  if (row.url) return asText(row.url);
-  if (row.sys_id && row.instance_base_url) {
-    return `${row.instance_base_url}/nav_to.do?uri=change_request.do?sys_id=${row.sys_id}`;
+// Outlook / Google / Apple subscribe to this URL ("Add calendar from internet")
+const copyCalendarUrl = async () => {
+  const url = new URL('/api/changes/calendar.ics', window.location.origin).toString();
+  try {
+    await navigator.clipboard.writeText(url);
+    toast.success("Calendar feed URL copied. Subscribe to it from your calendar app; apps that can't sign in need an API token added as ?token=.");
+  } catch {
+    toast.info(url);
   }
-  return null;
-}
+};
+
+const formatWhen = (iso: string | null) => (iso ? format(new Date(iso), 'EEE d MMM, p') : '—');
 
-export function ScheduledChangesPanel({ managementEnabled, refreshTick }: Props) {
-  const [items, setItems] = useState<ChangeItem[]>([]);
+export function ScheduledChangesPanel({ refreshTick }: Props) {
+  const [view, setView] = useState<ViewMode>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [changes, setChanges] = useState<ScheduledChange[]>([]);
   const [loading, setLoading] = useState(true);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
-  useEffect(() => {
-    (async () => {
-      setLoading(true);
-      setErrorMsg(null);
-      try {
-        const [rChanges, rOutages] = await Promise.all([
-          fetch('/api/changes/today'),
-          fetch('/api/outages/active'),
-        ]);
-
-        if (!rChanges.ok) {
-          setErrorMsg(`API returned ${rChanges.status}`);
-          setItems([]);
-          return;
-        }
-
-        const payload = await rChanges.json();
-        const outagesPayload = rOutages.ok ? await rOutages.json() : { data: [] };
+  const { start, end } = useMemo(() => rangeFor(view, anchor), [view, anchor]);
 
-        const outageRows = coerceArray(outagesPayload?.data ?? outagesPayload); // handle ApiResponse or raw
-        const hotOfferings = new Set(
-          outageRows
-            .map((o: any) =>
-              asText(o?.offering ?? o?.service_offering ?? '')
-                .trim()
-                .toLowerCase()
-            )
-            .filter(Boolean)
-        );
+  const fetchChanges = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const params = new URLSearchParams({ from: start.toISOString(), to: end.toISOString() });
+      const data = await api<ScheduledChange[]>(`/api/changes?${params.toString()}`);
+      setChanges(data);
+    } catch (e) {
+      console.error('Failed to load changes', e);
+      setErrorMsg(e instanceof Error ? e.message : 'Failed to load changes.');
+      setChanges([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [start, end]);
 
-        const rows = coerceArray(payload)
-          .map((row: any): ChangeItem => {
-            const start = row.start ?? row.start_date ?? row.planned_start_date ?? row.window_start ?? null;
-            const end   = row.end   ?? row.end_date   ?? row.planned_end_date   ?? row.window_end   ?? null;
-            const offering = asText(row.offering ?? row.service_offering ?? '').trim();
-
-            return {
-              id: asText(row.id ?? row.sys_id ?? row.number ?? `${row.sys_id || ''}:${row.number || ''}`),
-              number: asText(row.number ?? ''),
-              summary: asText(row.summary ?? row.short_description ?? row.description ?? '(no summary)'),
-              offering,
-              start,
-              end,
-              state: asText(row.state ?? row.status ?? ''),
-              type: asText(row.type ?? row.change_type ?? ''),
-              url: buildUrl(row),
-              sys_id: asText(row.sys_id ?? ''),
-              __isHot: offering ? hotOfferings.has(offering.toLowerCase()) : false,
-              ...row,
-            };
-          })
-          .filter((row: ChangeItem) => !isCancelled(row.state))
-          .filter((row: ChangeItem) => isAllowedState(row.state))
-          .filter((row: ChangeItem) => {
-            const ds = safeParse(row.start);
-            const de = safeParse(row.end);
-            if (!ds && !de) return true;
-
-            const now = new Date();
-            const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0);
-            const dayEnd   = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+  useEffect(() => {
+    fetchChanges();
+  }, [fetchChanges, refreshTick]);
 
-            if (ds && de) return ds <= dayEnd && de >= dayStart; // window overlaps today
-            if (ds && !de) return ds <= dayEnd;                   // started today or earlier
-            if (!ds && de) return de >= dayStart;                 // ends today
-            return true;
-          })
-          .sort((a, b) => {
-            const da = safeParse(a.start);
-            const db = safeParse(b.start);
-            if (da && db) return da.getTime() - db.getTime();
-            if (da && !db) return -1;
-            if (!da && db) return 1;
-            return 0;
-          });
+  // Offering -> changes, earliest first
+  const groups = useMemo(() => {
+    const byOffering = new Map<string, ScheduledChange[]>();
+    for (const change of changes) {
+      const key = change.offering || NO_OFFERING;
+      byOffering.set(key, [...(byOffering.get(key) ?? []), change]);
+    }
+    return Array.from(byOffering.entries())
+      .map(([offering, list]) => ({
+        offering,
+        changes: list.sort((a, b) => (a.start ?? '').localeCompare(b.start ?? '')),
+      }))
+      .sort((a, b) => a.offering.localeCompare(b.offering));
+  }, [changes]);
 
-        setItems(rows);
-      } catch (e) {
-        console.error('Failed to load changes/outages', e);
-        setErrorMsg('Failed to load changes.');
-        setItems([]);
-      } finally {
-        setLoading(false);
-      }
-    })();
-  }, []);
+  const ticks = ticksFor(view, start);
+  const now = Date.now();
+  const nowOffset = now >= start.getTime() && now < end.getTime()
+    ? `${((now - start.getTime()) / (end.getTime() - start.getTime())) * 100}%`
+    : null;
+  const conflictCount = changes.filter((c) => c.conflicts?.length).length;
+  const step = view === 'day' ? 1 : 7;
 
-  useEffect(() => {
-    const ac = new AbortController();
-    (async () => {
-      setLoading(true);
-      setErrorMsg(null);
-      try {
-        const [rChanges, rOutages] = await Promise.all([
-          fetch('/api/changes/today', { signal: ac.signal }),
-          fetch('/api/outages/active', { signal: ac.signal }),
-        ]);
-        // ...existing parsing...
-      } catch (e: any) {
-        if (e?.name !== 'AbortError') {
-          console.error('Failed to load changes/outages', e);
-          setErrorMsg('Failed to load changes.');
-          setItems([]);
-        }
-      } finally {
-        setLoading(false);
-      }
-    })();
-    return () => ac.abort();
-  }, [refreshTick]); // <— trigger on tick
-  
   return (
     <DataCard
-      title="Scheduled Changes (Today)"
+      title="Change Calendar"
       icon={Calendar}
       className="lg:col-span-2"
       contentClassName="pt-2"
+      actions={
+        <div className="flex items-center gap-1">
+          <ToggleGroup type="single" value={view} onValueChange={(value) => value && setView(value as ViewMode)} size="sm">
+            <ToggleGroupItem value="day" aria-label="Day view">Day</ToggleGroupItem>
+            <ToggleGroupItem value="week" aria-label="Week view">Week</ToggleGroupItem>
+          </ToggleGroup>
+          <Button variant="ghost" size="icon" aria-label="Previous" onClick={() => setAnchor((a) => addDays(a, -step))}>
+            <ChevronLeft className="size-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>Today</Button>
+          <Button variant="ghost" size="icon" aria-label="Next" onClick={() => setAnchor((a) => addDays(a, step))}>
+            <ChevronRight className="size-4" />
+          </Button>
+          <Button variant="ghost" size="icon" aria-label="Subscribe to calendar feed" title="Copy calendar feed URL" onClick={copyCalendarUrl}>
+            <CalendarPlus className="size-4" />
+          </Button>
+        </div>
+      }
     >
+      <div className="flex items-center justify-between text-xs text-muted-foreground mb-3">
+        <span>
+          {view === 'day'
+            ? format(start, 'EEEE d MMMM yyyy')
+            : `${format(start, 'd MMM')} – ${format(addDays(end, -1), 'd MMM yyyy')}`}
+        </span>
+        {conflictCount > 0 && (
+          <span className="inline-flex items-center gap-1 text-red-600 dark:text-red-400">
+            <AlertTriangle className="size-3" />
+            {conflictCount} change{conflictCount === 1 ? '' : 's'} with collisions
+          </span>
+        )}
+      </div>
       {loading ? (
         <div className="space-y-3">
           {Array.from({ length: 3 }).map((_, i) => (
-            <Skeleton key={i} className="h-16 w-full" />
+            <Skeleton key={i} className="h-10 w-full" />
           ))}
         </div>
       ) : errorMsg ? (
         <div className="text-center text-destructive py-6">{errorMsg}</div>
-      ) : items.length === 0 ? (
+      ) : changes.length === 0 ? (
         <div className="text-center text-muted-foreground py-6">
-          No changes scheduled today.
+          No changes scheduled in this {view}.
         </div>
       ) : (
-        <ul className="divide-y">
-          {items.map((ch) => {
-            const dStart = safeParse(ch.start);
-            const dEnd = safeParse(ch.end);
-            const isHot = Boolean(ch.__isHot);
-
-            return (
-              <li
-                key={ch.id}
-                data-hot={isHot || undefined}
-                className={`py-3 flex items-start justify-between gap-4 pl-3 border-l-4 ${
-                  isHot ? 'border-red-500/80' : 'border-transparent'
-                }`}
-                aria-label={isHot ? 'Scheduled change overlaps an active outage' : undefined}
-                title={isHot ? 'This change matches a service with an active outage' : undefined}
-              >
-                <div className="min-w-0">
-                  <div className="font-medium text-foreground truncate flex items-center gap-2">
-                    {isHot && (
-                      <span
-                        className="relative inline-flex items-center"
-                        aria-hidden="true"
-                      >
-                        <span className="h-2 w-2 rounded-full bg-red-500"></span>
-                        <span className="absolute inline-flex h-2 w-2 rounded-full bg-red-500 opacity-75 animate-ping"></span>
-                      </span>
-                    )}
-                    <span className="truncate">
-                      {(ch.number ? ch.number + ' — ' : '') +
-                        (ch.offering ? ch.offering + ' — ' : '') +
-                        (ch.summary || '')}
-                    </span>
-                  </div>
-
-                  <div className="text-xs text-muted-foreground flex items-center gap-2">
-                    <span>
-                      {safeTime(dStart)} – {safeTime(dEnd)}
-                      {' · '}
-                      {asText(ch.type) || 'Change'}{' '}
-                      {ch.state ? (
-                        <span className={/emergency/i.test(asText(ch.type)) ? 'text-red-600 dark:text-red-400' : ''}>
-                          ({asText(ch.state)})
-                        </span>
-                      ) : null}
-                    </span>
-
-                    {isHot && (
-                      <span
-                        className="inline-flex items-center rounded px-1.5 py-0.5 text-[10px] font-semibold bg-red-100 text-red-700 dark:bg-red-950/40 dark:text-red-300"
-                        title="Active outage for this service"
-                      >
-                        Active outage
-                      </span>
-                    )}
-                  </div>
-                </div>
-
-                {ch.url ? (
-                  <a
-                    href={asText(ch.url)}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="inline-flex items-center text-xs text-primary hover:underline flex-shrink-0"
-                    title="Open in ServiceNow"
+        <TooltipProvider>
+          <div className="max-h-[420px] overflow-y-auto">
+            {/* Time axis */}
+            <div className="flex text-[10px] text-muted-foreground border-b pb-1 sticky top-0 bg-card z-10">
+              <div className="w-40 shrink-0" />
+              <div className="relative flex-1 h-4">
+                {ticks.map((tick) => (
+                  <span
+                    key={tick.toISOString()}
+                    className="absolute -translate-x-1/2 first:translate-x-0"
+                    style={{ left: `${((tick.getTime() - start.getTime()) / (end.getTime() - start.getTime())) * 100}%` }}
                   >
-                    View <ExternalLink className="ml-1 h-3 w-3" />
-                  </a>
-                ) : null}
-              </li>
-            );
-          })}
-        </ul>
+                    {view === 'day' ? format(tick, 'HH:mm') : format(tick, 'EEE d')}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {groups.map((group) => (
+              <div key={group.offering} className="flex border-b last:border-b-0 py-1">
+                <div className="w-40 shrink-0 pr-2 text-xs font-medium truncate pt-1" title={group.offering}>
+                  {group.offering}
+                </div>
+                <div className="relative flex-1 space-y-1">
+                  {ticks.map((tick) => (
+                    <div
+                      key={tick.toISOString()}
+                      className="absolute inset-y-0 border-l border-dashed border-border/60"
+                      style={{ left: `${((tick.getTime() - start.getTime()) / (end.getTime() - start.getTime())) * 100}%` }}
+                    />
+                  ))}
+                  {nowOffset && <div className="absolute inset-y-0 border-l-2 border-primary/70 z-[1]" style={{ left: nowOffset }} />}
+                  {group.changes.map((change) => {
+                    const style = barStyle(change, start, end);
+                    const conflicts = change.conflicts ?? [];
+                    const hitsOutage = conflicts.some((c) => c.kind === 'outage');
+                    return (
+                      <div key={change.id} className="relative h-6">
+                        {style && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <a
+                                href={change.url}
+                                target="_blank"
+                                rel="noreferrer"
+                                className={cn(
+                                  'absolute inset-y-0 rounded px-1.5 text-[10px] leading-6 truncate text-white',
+                                  hitsOutage ? 'bg-red-600 ring-2 ring-red-300 animate-pulse'
+                                    : conflicts.length ? 'bg-amber-500 ring-2 ring-amber-300'
+                                    : /emergency/i.test(change.type) ? 'bg-orange-600' : 'bg-blue-600'
+                                )}
+                                style={style}
+                              >
+                                {change.number} {change.summary}
+                              </a>
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-xs space-y-1 text-xs">
+                              <p className="font-semibold">{change.number} — {change.summary}</p>
+                              <p>{formatWhen(change.start)} → {formatWhen(change.end)}</p>
+                              <p>{change.type || 'Change'} · {change.state}{change.ci ? ` · CI: ${change.ci}` : ''}</p>
+                              {conflicts.map((conflict) => (
+                                <p key={`${conflict.kind}:${conflict.with}`} className="text-red-500">
+                                  {CONFLICT_LABELS[conflict.kind]}: {conflict.with}
+                                </p>
+                              ))}
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3 pt-3 text-[10px] text-muted-foreground">
+            <span className="inline-flex items-center gap-1"><span className="size-2 rounded-sm bg-blue-600" />Scheduled</span>
+            <span className="inline-flex items-center gap-1"><span className="size-2 rounded-sm bg-orange-600" />Emergency</span>
+            <span className="inline-flex items-center gap-1"><span className="size-2 rounded-sm bg-amber-500" />Collides with another change (offering / CI)</span>
+            <span className="inline-flex items-center gap-1"><span className="size-2 rounded-sm bg-red-600" />Overlaps an active outage</span>
+          </div>
+        </TooltipProvider>
       )}
     </DataCard>
   );
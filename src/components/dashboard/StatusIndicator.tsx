@@ -6,6 +6,7 @@ const indicatorVariants = cva("size-2.5 rounded-full flex-shrink-0", {
       // Vendor Status
       Operational: "bg-green-500",
       Degraded: "bg-yellow-500",
+      Unknown: "bg-gray-400",
       // Outage Impact
       Outage: "bg-red-600",
       Degradation: "bg-yellow-500",
@@ -4,12 +4,15 @@ import { StatusIndicator } from './StatusIndicator';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { ExternalLink, ListChecks, Settings } from 'lucide-react';
-import type { VendorStatus } from '@shared/types';
+import type { VendorStatus, VendorStatusOption } from '@shared/types';
 import { api } from '@/lib/api-client';
 import { Toaster, toast } from '@/components/ui/sonner';
 import { useDashboardStore } from '@/stores/dashboard-store';
 import { useShallow } from 'zustand/react/shallow';
 import { ManageVendorsSheet } from './ManageVendorsSheet';
+import { useDashboardEvents } from '@/hooks/useDashboardStream';
+// Same ordering as the API: Outage first, then Degraded, then Unknown, then Operational
+const statusOrder: Record<VendorStatusOption, number> = { Outage: 0, Degraded: 1, Unknown: 2, Operational: 3 };
 export function VendorStatusPanel({ managementEnabled }: { managementEnabled?: boolean }) {
   const [statuses, setStatuses] = useState<VendorStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -35,6 +38,15 @@ export function VendorStatusPanel({ managementEnabled }: { managementEnabled?: b
   useEffect(() => {
     fetchStatuses();
   }, [refreshCounter, fetchStatuses]);
+  // Apply pushed status flips in place instead of refetching
+  useDashboardEvents((event) => {
+    if (event.type !== 'vendor.status') return;
+    setStatuses((prev) =>
+      prev
+        .map((v) => (v.id === event.vendor.id ? event.vendor : v))
+        .sort((a, b) => statusOrder[a.status] - statusOrder[b.status] || a.name.localeCompare(b.name))
+    );
+  });
   const filteredStatuses = useMemo(() => {
     return statuses.filter(status =>
       status.name.toLowerCase().includes(searchQuery.toLowerCase())
@@ -63,9 +75,19 @@ export function VendorStatusPanel({ managementEnabled }: { managementEnabled?: b
           ) : filteredStatuses.length > 0 ? (
             filteredStatuses.map((vendor) => (
               <div key={vendor.id} className="flex items-center justify-between text-sm">
-                <div className="flex items-center gap-3">
+                <div className="flex items-center gap-3 min-w-0">
                   <StatusIndicator status={vendor.status} />
-                  <span className="font-medium text-foreground">{vendor.name}</span>
+                  <div className="min-w-0">
+                    <span className="font-medium text-foreground">{vendor.name}</span>
+                    {vendor.incident && (
+                      <p className="text-xs text-muted-foreground truncate" title={vendor.incident}>{vendor.incident}</p>
+                    )}
+                    {vendor.components && vendor.components.some((c) => c.status !== 'Operational') && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {vendor.components.filter((c) => c.status !== 'Operational').map((c) => `${c.name}: ${c.status}`).join(', ')}
+                      </p>
+                    )}
+                  </div>
                 </div>
                 <div className="flex items-center gap-3">
                   <span className="text-muted-foreground">{vendor.status}</span>
@@ -0,0 +1,79 @@
+// src/hooks/useDashboardStream.ts
+import { useEffect, useRef, useState } from 'react';
+import type { DashboardEvent } from '@shared/types';
+
+export type StreamStatus = 'connecting' | 'live' | 'offline';
+
+type Listener = (event: DashboardEvent) => void;
+
+// Panels subscribe here; the single EventSource owned by useDashboardStream fans events out
+const listeners = new Set<Listener>();
+
+/**
+ * Hook to open the /api/stream connection (mount once, in HomePage)
+ * @param onResync - Called when the server asks clients to refetch everything
+ * @returns The current connection status; anything other than 'live' means panels should poll
+ */
+export const useDashboardStream = (onResync: () => void | Promise<void>): StreamStatus => {
+  const [status, setStatus] = useState<StreamStatus>('connecting');
+  const resyncRef = useRef(onResync);
+
+  // Keep callback ref up to date
+  useEffect(() => {
+    resyncRef.current = onResync;
+  }, [onResync]);
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') {
+      setStatus('offline');
+      return;
+    }
+
+    const source = new EventSource('/api/stream');
+
+    source.onopen = () => setStatus('live');
+    source.onerror = () => {
+      // EventSource retries on its own (resuming via Last-Event-ID); CLOSED means it gave up
+      setStatus(source.readyState === EventSource.CLOSED ? 'offline' : 'connecting');
+    };
+    source.addEventListener('resync', () => {
+      resyncRef.current();
+    });
+    source.onmessage = (message) => {
+      let event: DashboardEvent;
+      try {
+        event = JSON.parse(message.data) as DashboardEvent;
+      } catch {
+        return;
+      }
+      listeners.forEach((listener) => listener(event));
+    };
+
+    return () => {
+      source.close();
+    };
+  }, []);
+
+  return status;
+};
+
+/**
+ * Hook for panels to apply pushed changes in place
+ * @param onEvent - Called for every DashboardEvent received on the stream
+ */
+export const useDashboardEvents = (onEvent: Listener) => {
+  const callbackRef = useRef(onEvent);
+
+  // Keep callback ref up to date
+  useEffect(() => {
+    callbackRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    const listener: Listener = (event) => callbackRef.current(event);
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+};
@@ -6,31 +6,39 @@ import { MonitoringAlertsPanel } from '@/components/dashboard/MonitoringAlertsPa
 import { ServiceNowTicketsPanel } from '@/components/dashboard/ServiceNowTicketsPanel';
 import { ActiveCollaborationBridgesPanel } from '@/components/dashboard/ActiveCollaborationBridgesPanel';
 import { OutageTrendsPanel } from '@/components/dashboard/OutageTrendsPanel';
+import { AvailabilityAnalyticsPanel } from '@/components/dashboard/AvailabilityAnalyticsPanel';
 import { ScheduledChangesPanel } from '@/components/dashboard/ScheduledChangesPanel';
 import { useState, useEffect, useCallback } from 'react';
 import { useAutoRefresh } from '../hooks/useAutoRefresh';
+import { useDashboardStream } from '../hooks/useDashboardStream';
 import RefreshControls from '../components/RefreshControls';
+import { AdminMenu } from '@/components/dashboard/AdminMenu';
+import type { DashboardConfig, DashboardPermissions } from '@shared/types';
+
+const NO_PERMISSIONS: DashboardPermissions = { operate: false, configure: false };
 
 export function HomePage() {
-  const [managementEnabled, setManagementEnabled] = useState(false);
+  const [config, setConfig] = useState<DashboardConfig | null>(null);
   const [autoRefreshEnabled, setAutoRefreshEnabled] = useState(false);
   const [refreshInterval, setRefreshInterval] = useState(5);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
   // NEW: a token that increments on every refresh
   const [refreshTick, setRefreshTick] = useState(0);
+  // Timer ticks for panels the stream doesn't cover (tickets, changes, trends)
+  const [pollTick, setPollTick] = useState(0);
 
   useEffect(() => {
-    const checkManagementEnabled = async () => {
+    // Caller's role and permissions; controls they can't use stay hidden
+    const fetchConfig = async () => {
       try {
         const response = await fetch('/api/config');
-        const data = await response.json();
-        setManagementEnabled(data.enableManagement);
+        setConfig(await response.json());
       } catch {
-        setManagementEnabled(false);
+        setConfig(null);
       }
     };
-    checkManagementEnabled();
+    fetchConfig();
   }, []);
 
   useEffect(() => {
@@ -59,11 +67,19 @@ export function HomePage() {
     fetchData();
   }, [fetchData]);
 
+  // Live push updates; on a resync request refetch everything
+  const streamStatus = useDashboardStream(fetchData);
+
+  const pollUnstreamed = useCallback(() => setPollTick((t) => t + 1), []);
+
+  // While the stream is live it updates the streamed panels, so the timer only refreshes the rest;
+  // while it is disconnected polling refreshes everything
   useAutoRefresh({
     enabled: autoRefreshEnabled,
     intervalMinutes: refreshInterval,
-    onRefresh: fetchData,
+    onRefresh: streamStatus === 'live' ? pollUnstreamed : fetchData,
   });
+  const unstreamedTick = refreshTick + pollTick;
 
   const handleRefreshToggle = (enabled: boolean) => {
     setAutoRefreshEnabled(enabled);
@@ -76,34 +92,46 @@ export function HomePage() {
     localStorage.setItem('autoRefreshInterval', minutes.toString());
   };
 
+  const permissions = config?.permissions ?? NO_PERMISSIONS;
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <main className="max-w-screen-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Header />
 
-        <div className="mb-6">
+        <div className="mb-6 flex items-center justify-between gap-4">
           <RefreshControls
             onRefreshToggle={handleRefreshToggle}
             onIntervalChange={handleIntervalChange}
             isRefreshing={isRefreshing}
             autoRefreshEnabled={autoRefreshEnabled}
             refreshInterval={refreshInterval}
+            streamStatus={streamStatus}
           />
+          <div className="flex items-center gap-3">
+            {config?.user && (
+              <span className="text-xs text-muted-foreground" title={config.user.via === 'token' ? 'API token' : 'Cloudflare Access'}>
+                {config.user.name} · <span className="capitalize">{config.role}</span>
+              </span>
+            )}
+            {permissions.configure && <AdminMenu permissions={permissions} />}
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2 space-y-6">
             {/* PASS refreshTick into panels that should re-fetch */}
-            <ActiveOutagesPanel managementEnabled={managementEnabled} refreshTick={refreshTick} />
-            <ScheduledChangesPanel managementEnabled={managementEnabled} refreshTick={refreshTick} />
-            <OutageTrendsPanel refreshTick={refreshTick} />
+            <ActiveOutagesPanel permissions={permissions} refreshTick={refreshTick} />
+            <ScheduledChangesPanel managementEnabled={permissions.operate} refreshTick={unstreamedTick} />
+            <OutageTrendsPanel refreshTick={unstreamedTick} />
+            <AvailabilityAnalyticsPanel />
           </div>
 
           <div className="lg:col-span-1 space-y-6">
-            <ActiveCollaborationBridgesPanel managementEnabled={managementEnabled} refreshTick={refreshTick} />
-            <VendorStatusPanel managementEnabled={managementEnabled} refreshTick={refreshTick} />
-            <MonitoringAlertsPanel managementEnabled={managementEnabled} refreshTick={refreshTick} />
-            <ServiceNowTicketsPanel refreshTick={refreshTick} />
+            <ActiveCollaborationBridgesPanel managementEnabled={permissions.operate} refreshTick={refreshTick} />
+            <VendorStatusPanel managementEnabled={permissions.configure} refreshTick={refreshTick} />
+            <MonitoringAlertsPanel permissions={permissions} userName={config?.user?.name} refreshTick={refreshTick} />
+            <ServiceNowTicketsPanel refreshTick={unstreamedTick} />
           </div>
         </div>
       </main>
@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { StatusIndicator } from '@/components/dashboard/StatusIndicator';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Rss, CheckCircle2, AlertTriangle, XCircle, HelpCircle } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type { PublicIncident, PublicStatus, PublicStatusComponent, VendorStatusOption } from '@shared/types';
+import { api } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+
+const REFRESH_MS = 60_000;
+
+const OVERALL: Record<VendorStatusOption, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  Operational: { label: 'All systems operational', icon: CheckCircle2, className: 'bg-green-600' },
+  Degraded: { label: 'Some systems are degraded', icon: AlertTriangle, className: 'bg-yellow-500' },
+  Outage: { label: 'Service outage in progress', icon: XCircle, className: 'bg-red-600' },
+  Unknown: { label: 'Some statuses are currently unavailable', icon: HelpCircle, className: 'bg-gray-500' },
+};
+
+function ComponentList({ title, components }: { title: string; components: PublicStatusComponent[] }) {
+  if (components.length === 0) return null;
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="divide-y">
+        {components.map((component) => (
+          <div key={component.name} className="flex items-center justify-between py-2">
+            <span className="text-sm font-medium">{component.name}</span>
+            <StatusIndicator status={component.status}>{component.status}</StatusIndicator>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function IncidentItem({ incident }: { incident: PublicIncident }) {
+  return (
+    <div className="space-y-1 py-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{incident.component}</span>
+        {incident.resolvedAt
+          ? <Badge variant="outline">Resolved</Badge>
+          : <Badge variant={incident.status === 'Outage' ? 'destructive' : 'secondary'}>{incident.status}</Badge>}
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{incident.message}</p>
+      <p className="text-xs text-muted-foreground">
+        Started {format(new Date(incident.startedAt), 'PPp')}
+        {incident.resolvedAt && ` · Resolved ${format(new Date(incident.resolvedAt), 'PPp')}`}
+        {!incident.resolvedAt && incident.eta && ` · Expected resolution ${format(new Date(incident.eta), 'PPp')}`}
+        {` · Updated ${formatDistanceToNow(new Date(incident.updatedAt), { addSuffix: true })}`}
+      </p>
+    </div>
+  );
+}
+
+// Public, read-only status page: no management controls, served from /api/status
+export function StatusPage() {
+  const [status, setStatus] = useState<PublicStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setStatus(await api<PublicStatus>('/api/status'));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Status is temporarily unavailable.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+    const timer = setInterval(fetchStatus, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [fetchStatus]);
+
+  useEffect(() => {
+    if (status) document.title = status.title;
+  }, [status]);
+
+  const overall = status ? OVERALL[status.overall] : null;
+  const ongoing = status?.incidents.filter((i) => !i.resolvedAt) ?? [];
+  const resolved = status?.incidents.filter((i) => i.resolvedAt) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">{status?.title ?? 'Service Status'}</h1>
+          <div className="flex items-center gap-1">
+            <a
+              href="/api/status/feed.atom"
+              className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+              title="Subscribe (Atom)"
+            >
+              <Rss className="size-4" /> Subscribe
+            </a>
+            <ThemeToggle />
+          </div>
+        </header>
+
+        {!status && !error ? (
+          <div className="space-y-4">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : !status ? (
+          <div className="text-center text-muted-foreground py-12">{error}</div>
+        ) : (
+          <>
+            {overall && (
+              <div className={cn('flex items-center gap-3 rounded-lg px-4 py-4 text-white', overall.className)}>
+                <overall.icon className="size-6" />
+                <span className="text-lg font-semibold">{overall.label}</span>
+              </div>
+            )}
+
+            {ongoing.length > 0 && (
+              <Card>
+                <CardHeader className="pb-0">
+                  <CardTitle className="text-base">Current incidents</CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {ongoing.map((incident) => <IncidentItem key={incident.id} incident={incident} />)}
+                </CardContent>
+              </Card>
+            )}
+
+            <ComponentList title="Systems" components={status.components.filter((c) => c.group === 'system')} />
+            <ComponentList title="Third-party services" components={status.components.filter((c) => c.group === 'vendor')} />
+
+            <Card>
+              <CardHeader className="pb-0">
+                <CardTitle className="text-base">Resolved in the last 7 days</CardTitle>
+              </CardHeader>
+              <CardContent className="divide-y">
+                {resolved.length === 0
+                  ? <p className="py-3 text-sm text-muted-foreground">No incidents.</p>
+                  : resolved.map((incident) => <IncidentItem key={incident.id} incident={incident} />)}
+              </CardContent>
+            </Card>
+
+            <p className="text-center text-xs text-muted-foreground">
+              Last updated {format(new Date(status.generatedAt), 'PPpp')}
+              {error && ' · Refresh failed, showing the last known status'}
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
  * Minimal real-world demo: One Durable Object instance per entity (User, ChatBoard), with Indexes for listing.
  */
 import { Entity, IndexedEntity } from "./core-utils";
-import type { User, Chat, ChatMessage, Vendor, ServiceNowConfig, SolarWindsConfig, CollaborationBridge, ImpactLevelMappingItem } from "@shared/types";
+import type { User, Chat, ChatMessage, Vendor, ServiceNowConfig, SolarWindsConfig, CollaborationBridge, ImpactLevelMappingItem, FeedSnapshot, DashboardEvent, DashboardEventBody, DashboardEventLog, Outage, OutageRecord, OutageHistoryMonth, OutageHistorySyncState, NotificationChannel, NotificationDelivery, NotificationLog, IngestLog, IngestRejection, AlertAcknowledgement, AlertAcknowledgementLog, StatusPageConfig, VendorStatusHistory, VendorStatusTransition, ApiToken, AuditEntry, ConfigVersion } from "@shared/types";
 import type { Env } from './core-utils';
 
 // USER ENTITY: one DO instance per user
@@ -44,6 +44,12 @@ export class VendorEntity extends IndexedEntity<Vendor> {
     apiUrl: null,
     jsonPath: null,
     expectedValue: null,
+    rules: null,
+    defaultStatus: null,
+    components: null,
+    indicatorMapping: null,
+    feedWindowHours: null,
+    feedRules: null,
   };
 }
 
@@ -78,13 +84,44 @@ export class ServiceNowConfigEntity extends Entity<ServiceNowConfig> {
       status: 'state',
       assignedTeam: 'assignment_group.name',
       priority: 'priority',
-    }
+    },
+    changeTable: 'change_request',
+    changeFieldMapping: {
+      id: 'number',
+      summary: 'short_description',
+      state: 'state',
+      type: 'type',
+      start: 'start_date',
+      end: 'end_date',
+      plannedStart: 'planned_start_date',
+      plannedEnd: 'planned_end_date',
+      offering: 'service_offering',
+      ci: 'cmdb_ci',
+    },
+    changeAllowedStates: ['scheduled', 'implement', 'review'],
+    feedQueries: {
+      outages: { query: 'active=true^endISEMPTY^ORend>javascript:gs.nowDateTime()', limit: 200, orderBy: '' },
+      tickets: { query: ServiceNowConfigEntity.ticketsQuery('priority'), limit: 20, orderBy: '-sys_updated_on' },
+      history: { query: 'typeINoutage,degradation^typeISNOTEMPTY', limit: 500, orderBy: 'begin' },
+      // Scheduled -1, Implement 0, Review 1; -2 for sites that label it "Review"
+      changes: { query: 'active=true^stateIN-2,-1,0,1', limit: 200, orderBy: 'start_date,planned_start_date' },
+    },
   };
 
+  // Default tickets filter: open P1s on the mapped priority field
+  static ticketsQuery(priorityField: string): string {
+    return `stateNOT IN 6,7,8^${priorityField}=1`;
+  }
+
   constructor(env: Env) {
     super(env, ServiceNowConfigEntity.singletonId);
   }
 
+  // Storage document version (Doc.v) as of the last read or save; numbers the config versions
+  get version(): number {
+    return this._version;
+  }
+
   // Override getState to ensure impactLevelMapping is always present
   async getState(): Promise<ServiceNowConfig> {
     const state = await super.getState();
@@ -92,6 +129,18 @@ export class ServiceNowConfigEntity extends Entity<ServiceNowConfig> {
     if (!state.impactLevelMapping || !Array.isArray(state.impactLevelMapping)) {
       state.impactLevelMapping = ServiceNowConfigEntity.initialState.impactLevelMapping;
     }
+    // Configs saved before these settings existed fall back to the defaults
+    const defaults = ServiceNowConfigEntity.initialState;
+    state.changeTable = state.changeTable || defaults.changeTable;
+    state.changeFieldMapping = { ...defaults.changeFieldMapping, ...state.changeFieldMapping };
+    state.changeAllowedStates = state.changeAllowedStates ?? defaults.changeAllowedStates;
+    const stored: Partial<ServiceNowConfig['feedQueries']> = state.feedQueries ?? {};
+    const priorityField = state.ticketFieldMapping?.priority || defaults.ticketFieldMapping.priority;
+    state.feedQueries = {
+      ...defaults.feedQueries,
+      ...stored,
+      tickets: stored.tickets ?? { ...defaults.feedQueries.tickets, query: ServiceNowConfigEntity.ticketsQuery(priorityField) },
+    };
     return state;
   }
 }
@@ -106,11 +155,24 @@ export class SolarWindsConfigEntity extends Entity<SolarWindsConfig> {
     apiUrl: '',
     usernameVar: 'SOLARWINDS_USERNAME',
     passwordVar: 'SOLARWINDS_PASSWORD',
+    // Orion severities: 0 Informational, 1 Warning, 2 Critical, 3 Serious, 4 Notice
+    severityMapping: [
+      { solarwindsValue: '0', dashboardValue: 'Info' },
+      { solarwindsValue: '1', dashboardValue: 'Warning' },
+      { solarwindsValue: '2', dashboardValue: 'Critical' },
+      { solarwindsValue: '3', dashboardValue: 'Critical' },
+      { solarwindsValue: '4', dashboardValue: 'Info' },
+    ],
   };
 
   constructor(env: Env) {
     super(env, SolarWindsConfigEntity.singletonId);
   }
+
+  // Same as ServiceNowConfigEntity.version
+  get version(): number {
+    return this._version;
+  }
 }
 
 // COLLABORATION BRIDGE ENTITY: one DO instance per bridge
@@ -126,3 +188,335 @@ export class CollaborationBridgeEntity extends IndexedEntity<CollaborationBridge
     teamsCallUrl: "",
   };
 }
+
+// FEED SNAPSHOT ENTITY: one DO instance per integration feed, written by the scheduled poller
+export class FeedSnapshotEntity extends Entity<FeedSnapshot> {
+  static readonly entityName = "feed-snapshot";
+  static readonly initialState: FeedSnapshot = {
+    id: 'outages',
+    data: null,
+    fetchedAt: null,
+    error: null,
+  };
+}
+
+// DASHBOARD EVENT LOG ENTITY: Singleton ring buffer of change events streamed to panels
+export class DashboardEventLogEntity extends Entity<DashboardEventLog> {
+  static readonly entityName = "dashboard-event-log";
+  static readonly singletonId = "global-log";
+  static readonly maxEvents = 200;
+  static readonly initialState: DashboardEventLog = {
+    id: DashboardEventLogEntity.singletonId,
+    seq: 0,
+    events: [],
+  };
+
+  constructor(env: Env) {
+    super(env, DashboardEventLogEntity.singletonId);
+  }
+
+  async append(bodies: DashboardEventBody[]): Promise<DashboardEvent[]> {
+    if (bodies.length === 0) return [];
+    let appended: DashboardEvent[] = [];
+    await this.mutate((s) => {
+      const ts = new Date().toISOString();
+      appended = bodies.map((b, i) => ({ ...b, seq: s.seq + i + 1, ts }) as DashboardEvent);
+      return {
+        ...s,
+        seq: s.seq + bodies.length,
+        events: [...s.events, ...appended].slice(-DashboardEventLogEntity.maxEvents),
+      };
+    });
+    return appended;
+  }
+}
+
+// OUTAGE HISTORY ENTITY: one DO instance per month of outage start times ("yyyy-MM")
+export class OutageHistoryEntity extends Entity<OutageHistoryMonth> {
+  static readonly entityName = "outage-history";
+  static readonly initialState: OutageHistoryMonth = { id: "", records: [] };
+
+  static monthOf(iso: string): string {
+    return iso.slice(0, 7);
+  }
+
+  /** Outages returned by the active feed: create on first sight, track impact changes, reopen if needed. */
+  async recordSeen(outages: Outage[], seenAt: string): Promise<void> {
+    if (outages.length === 0) return;
+    await this.mutate((s) => {
+      const byId = new Map(s.records.map((r) => [r.id, r]));
+      for (const outage of outages) {
+        const existing = byId.get(outage.id);
+        if (!existing) {
+          byId.set(outage.id, { ...outage, firstSeen: seenAt, lastSeen: seenAt, resolvedAt: null, impactChanges: [] });
+          continue;
+        }
+        const impactChanges = existing.impactLevel !== outage.impactLevel
+          ? [...existing.impactChanges, { at: seenAt, from: existing.impactLevel, to: outage.impactLevel }]
+          : existing.impactChanges;
+        const etaChanges = existing.eta !== outage.eta
+          ? [...(existing.etaChanges ?? []), { at: seenAt, from: existing.eta, to: outage.eta }]
+          : existing.etaChanges;
+        byId.set(outage.id, { ...existing, ...outage, lastSeen: seenAt, resolvedAt: null, impactChanges, etaChanges });
+      }
+      return { id: this.id, records: Array.from(byId.values()) };
+    });
+  }
+
+  /** Outages that dropped out of the active feed. */
+  async recordResolved(ids: string[], resolvedAt: string): Promise<void> {
+    if (ids.length === 0) return;
+    const resolved = new Set(ids);
+    await this.mutate((s) => ({
+      id: this.id,
+      records: s.records.map((r) => (resolved.has(r.id) && !r.resolvedAt ? { ...r, resolvedAt } : r)),
+    }));
+  }
+
+  /** Records imported from ServiceNow history; ServiceNow's end time wins over our own observation. */
+  async mergeSynced(records: OutageRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.mutate((s) => {
+      const byId = new Map(s.records.map((r) => [r.id, r]));
+      for (const record of records) {
+        const existing = byId.get(record.id);
+        byId.set(record.id, existing
+          ? {
+              ...existing,
+              ...record,
+              firstSeen: existing.firstSeen < record.firstSeen ? existing.firstSeen : record.firstSeen,
+              lastSeen: existing.lastSeen > record.lastSeen ? existing.lastSeen : record.lastSeen,
+              // An ongoing synced record also clears a future ETA stored as resolvedAt by older syncs
+              resolvedAt: record.resolvedAt ?? (existing.resolvedAt && existing.resolvedAt <= record.lastSeen ? existing.resolvedAt : null),
+              impactChanges: existing.impactChanges,
+              etaChanges: existing.etaChanges,
+            }
+          : record);
+      }
+      return { id: this.id, records: Array.from(byId.values()) };
+    });
+  }
+}
+
+// OUTAGE HISTORY SYNC ENTITY: Singleton tracking the last ServiceNow history import
+export class OutageHistorySyncEntity extends Entity<OutageHistorySyncState> {
+  static readonly entityName = "outage-history-sync";
+  static readonly singletonId = "global-sync";
+  static readonly initialState: OutageHistorySyncState = {
+    id: OutageHistorySyncEntity.singletonId,
+    lastSyncedAt: null,
+    lastError: null,
+    imported: 0,
+  };
+
+  constructor(env: Env) {
+    super(env, OutageHistorySyncEntity.singletonId);
+  }
+}
+
+// NOTIFICATION CHANNEL ENTITY: one DO instance per outbound webhook channel
+export class NotificationChannelEntity extends IndexedEntity<NotificationChannel> {
+  static readonly entityName = "notification-channel";
+  static readonly indexName = "notification-channels";
+  static readonly initialState: NotificationChannel = {
+    id: "",
+    name: "",
+    type: 'WEBHOOK',
+    webhookUrl: "",
+    enabled: true,
+    rules: [],
+    rateLimitPerHour: 20,
+  };
+}
+
+// NOTIFICATION LOG ENTITY: Singleton delivery log plus the dedupe keys already notified
+export class NotificationLogEntity extends Entity<NotificationLog> {
+  static readonly entityName = "notification-log";
+  static readonly singletonId = "global-log";
+  static readonly maxDeliveries = 500;
+  static readonly dedupeRetentionMs = 30 * 24 * 60 * 60_000;
+  static readonly initialState: NotificationLog = {
+    id: NotificationLogEntity.singletonId,
+    deliveries: [],
+    notified: {},
+  };
+
+  constructor(env: Env) {
+    super(env, NotificationLogEntity.singletonId);
+  }
+
+  /** Atomically mark dedupe keys as notified; returns only the keys that were not already marked. */
+  async claim(keys: string[]): Promise<string[]> {
+    if (keys.length === 0) return [];
+    let claimed: string[] = [];
+    await this.mutate((s) => {
+      const now = Date.now();
+      const notified: Record<string, string> = {};
+      for (const [key, at] of Object.entries(s.notified)) {
+        if (now - Date.parse(at) < NotificationLogEntity.dedupeRetentionMs) notified[key] = at;
+      }
+      claimed = keys.filter((k) => !notified[k]);
+      const at = new Date(now).toISOString();
+      for (const key of claimed) notified[key] = at;
+      return { ...s, notified };
+    });
+    return claimed;
+  }
+
+  /** Forget dedupe keys whose event part matches, so a recurrence notifies again. */
+  async release(dedupeKeys: string[]): Promise<void> {
+    if (dedupeKeys.length === 0) return;
+    const suffixes = dedupeKeys.map((k) => `|${k}`);
+    await this.mutate((s) => ({
+      ...s,
+      notified: Object.fromEntries(Object.entries(s.notified).filter(([key]) => !suffixes.some((x) => key.endsWith(x)))),
+    }));
+  }
+
+  async record(deliveries: NotificationDelivery[]): Promise<void> {
+    if (deliveries.length === 0) return;
+    await this.mutate((s) => ({
+      ...s,
+      deliveries: [...deliveries, ...s.deliveries].slice(0, NotificationLogEntity.maxDeliveries),
+    }));
+  }
+}
+
+// INGEST LOG ENTITY: Singleton list of rejected inbound webhook payloads
+export class IngestLogEntity extends Entity<IngestLog> {
+  static readonly entityName = "ingest-log";
+  static readonly singletonId = "global-log";
+  static readonly maxRejections = 200;
+  static readonly initialState: IngestLog = {
+    id: IngestLogEntity.singletonId,
+    rejections: [],
+  };
+
+  constructor(env: Env) {
+    super(env, IngestLogEntity.singletonId);
+  }
+
+  async reject(rejection: IngestRejection): Promise<void> {
+    await this.mutate((s) => ({
+      ...s,
+      rejections: [rejection, ...s.rejections].slice(0, IngestLogEntity.maxRejections),
+    }));
+  }
+}
+
+// ALERT ACKNOWLEDGEMENT ENTITY: Singleton record of who acknowledged which alert from the dashboard
+export class AlertAcknowledgementEntity extends Entity<AlertAcknowledgementLog> {
+  static readonly entityName = "alert-acknowledgements";
+  static readonly singletonId = "global-acks";
+  static readonly retentionMs = 30 * 24 * 60 * 60_000;
+  static readonly initialState: AlertAcknowledgementLog = {
+    id: AlertAcknowledgementEntity.singletonId,
+    acknowledgements: {},
+  };
+
+  constructor(env: Env) {
+    super(env, AlertAcknowledgementEntity.singletonId);
+  }
+
+  async record(ack: AlertAcknowledgement): Promise<void> {
+    await this.mutate((s) => {
+      const cutoff = Date.now() - AlertAcknowledgementEntity.retentionMs;
+      const kept = Object.values(s.acknowledgements).filter((a) => Date.parse(a.acknowledgedAt) >= cutoff);
+      return {
+        ...s,
+        acknowledgements: Object.fromEntries([...kept, ack].map((a) => [a.alertId, a])),
+      };
+    });
+  }
+}
+
+// STATUS PAGE ENTITY: Singleton holding what the public status page publishes
+export class StatusPageConfigEntity extends Entity<StatusPageConfig> {
+  static readonly entityName = "status-page-config";
+  static readonly singletonId = "global-config";
+  static readonly initialState: StatusPageConfig = {
+    id: StatusPageConfigEntity.singletonId,
+    title: 'Service Status',
+    systems: [],
+    vendorIds: [],
+    messages: {},
+  };
+
+  constructor(env: Env) {
+    super(env, StatusPageConfigEntity.singletonId);
+  }
+}
+
+// VENDOR STATUS HISTORY ENTITY: Singleton log of vendor status transitions
+export class VendorStatusHistoryEntity extends Entity<VendorStatusHistory> {
+  static readonly entityName = "vendor-status-history";
+  static readonly singletonId = "global-history";
+  static readonly maxTransitions = 500;
+  static readonly initialState: VendorStatusHistory = {
+    id: VendorStatusHistoryEntity.singletonId,
+    transitions: [],
+  };
+
+  constructor(env: Env) {
+    super(env, VendorStatusHistoryEntity.singletonId);
+  }
+
+  async record(transitions: VendorStatusTransition[]): Promise<void> {
+    if (transitions.length === 0) return;
+    await this.mutate((s) => ({
+      ...s,
+      transitions: [...transitions, ...s.transitions].slice(0, VendorStatusHistoryEntity.maxTransitions),
+    }));
+  }
+}
+
+// API TOKEN ENTITY: one DO instance per token, keyed by the SHA-256 of the token
+export class ApiTokenEntity extends IndexedEntity<ApiToken> {
+  static readonly entityName = "api-token";
+  static readonly indexName = "api-tokens";
+  static readonly initialState: ApiToken = {
+    id: "",
+    name: "",
+    role: 'viewer',
+    prefix: "",
+    createdBy: "",
+    createdAt: "",
+    lastUsedAt: null,
+  };
+}
+
+// AUDIT ENTRY ENTITY: one DO instance per audited request; ids sort newest first in the index
+export class AuditEntryEntity extends IndexedEntity<AuditEntry> {
+  static readonly entityName = "audit-entry";
+  static readonly indexName = "audit-entries";
+  static readonly initialState: AuditEntry = {
+    id: "",
+    at: "",
+    actor: "",
+    via: null,
+    role: null,
+    method: "",
+    route: "",
+    path: "",
+    status: 0,
+    entity: null,
+    entityId: null,
+    changes: [],
+    omittedChanges: 0,
+  };
+}
+
+// CONFIG VERSION ENTITY: one DO instance per saved ServiceNow / SolarWinds config version
+export class ConfigVersionEntity extends IndexedEntity<ConfigVersion> {
+  static readonly entityName = "config-version";
+  static readonly indexName = "config-versions";
+  static readonly initialState: ConfigVersion = {
+    id: "",
+    configName: 'servicenow',
+    version: 0,
+    savedAt: null,
+    savedBy: null,
+    rollbackOf: null,
+    config: ServiceNowConfigEntity.initialState,
+  };
+}
@@ -3,7 +3,7 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
-import { userRoutes } from './user-routes';
+import { userRoutes, runScheduledPoll } from './user-routes';
 import { Env, GlobalDurableObject } from './core-utils';
 
 // Need to export GlobalDurableObject to make it available in wrangler
@@ -26,7 +26,7 @@ const app = new Hono<{ Bindings: Env }>();
 
 app.use('*', logger());
 
-app.use('/api/*', cors({ origin: '*', allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'], allowHeaders: ['Content-Type', 'Authorization'] }));
+app.use('/api/*', cors({ origin: '*', allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'], allowHeaders: ['Content-Type', 'Authorization'] }));
 
 userRoutes(app);
 
@@ -49,4 +49,8 @@ app.onError((err, c) => { console.error(`[ERROR] ${err}`); return c.json({ succe
 
 console.log(`Server is running`)
 
-export default { fetch: app.fetch } satisfies ExportedHandler<Env>;
\ No newline at end of file
+export default {
+  fetch: app.fetch,
+  // Cron trigger (wrangler.jsonc -> triggers.crons): refresh cached integration snapshots
+  scheduled: (_controller, env, ctx) => { ctx.waitUntil(runScheduledPoll(env)); },
+} satisfies ExportedHandler<Env>;
\ No newline at end of file
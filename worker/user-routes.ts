@@ -1,11 +1,16 @@
 import { Hono } from "hono";
-import type { Env } from './core-utils';
+import { streamSSE } from "hono/streaming";
+import { getCookie } from "hono/cookie";
+import { routePath } from "hono/route";
+import type { Context } from "hono";
+import { z } from "zod";
+import type { Env, Entity } from './core-utils';
 import { ok, bad, notFound, isStr, badWithData } from './core-utils';
 import { MOCK_OUTAGES, MOCK_ALERTS, MOCK_TICKETS, MOCK_OUTAGE_HISTORY } from "@shared/mock-data";
-import { VendorEntity, ServiceNowConfigEntity, SolarWindsConfigEntity, CollaborationBridgeEntity } from "./entities";
-import type { Vendor, VendorStatus, VendorStatusOption, ServiceNowConfig, Outage, SolarWindsConfig, MonitoringAlert, AlertSeverity, ServiceNowTicket, CollaborationBridge, ImpactLevel } from "@shared/types";
+import { VendorEntity, ServiceNowConfigEntity, SolarWindsConfigEntity, CollaborationBridgeEntity, FeedSnapshotEntity, DashboardEventLogEntity, OutageHistoryEntity, OutageHistorySyncEntity, NotificationChannelEntity, NotificationLogEntity, IngestLogEntity, AlertAcknowledgementEntity, StatusPageConfigEntity, VendorStatusHistoryEntity, ApiTokenEntity, AuditEntryEntity, ConfigVersionEntity } from "./entities";
+import type { Vendor, VendorStatus, VendorStatusOption, ServiceNowConfig, Outage, SolarWindsConfig, SolarWindsConnectionTestResult, MonitoringAlert, IntegrationFeed, FeedSnapshot, ScheduledChange, DashboardEventBody, OutageRecord, OutageHistoryPage, AvailabilityMetrics, AvailabilityReport, SystemAvailability, NotificationChannel, NotificationChannelType, NotificationRule, NotificationRuleType, NotificationDelivery, IngestSource, IngestRejection, AlertSeverity, AlertAcknowledgement, ServiceNowFeedName, ServiceNowFeedQuery, ServiceNowFeedPreview, ChangeConflict, OutageDetail, OutageJournalEntry, ServiceNowTicket, CollaborationBridge, ImpactLevel, StatusPageConfig, StatusPageMessage, PublicStatus, PublicStatusComponent, PublicIncident, VendorStatusTransition, VendorProviderType, VendorIndicatorMappingItem, VendorProviderComponent, VendorProviderPreview, VendorComponentStatus, VendorFeedRule, VendorRule, VendorRuleOperator, VendorEvaluation, UserRole, DashboardConfig, DashboardPermissions, ApiToken, ApiTokenCreated, AuditEntry, AuditChange, AuditPage, VersionedConfigName, ConfigVersion, ConfigVersionPage, ConfigVersionDiff, ConfigBundle, ConfigImportMode, ConfigImportAction, ConfigImportItem, ConfigImportResult, RuntimeSetting, RuntimeSettingType } from "@shared/types";
 import { format, subDays } from 'date-fns';
-import { startOfToday, endOfToday } from 'date-fns';
+import { startOfToday, endOfToday, addDays } from 'date-fns';
 
 // ---------- KV helpers (NEW) ----------
 async function kvGet(c: any, key: string): Promise<string | null> {
@@ -32,6 +37,19 @@ async function kvGetString(c: any, key: string, fallbackEnv?: string | undefined
   return (raw != null ? raw : (fallbackEnv ?? '')).toString();
 }
 
+// Writes fail loudly: unlike reads there is no env value to fall back on
+async function kvPut(c: any, key: string, value: string): Promise<void> {
+  const kv = (c.env as any).KV;
+  if (!kv || typeof kv.put !== 'function') throw new Error('KV namespace is not bound');
+  await kv.put(key, value);
+}
+
+async function kvDelete(c: any, key: string): Promise<void> {
+  const kv = (c.env as any).KV;
+  if (!kv || typeof kv.delete !== 'function') throw new Error('KV namespace is not bound');
+  await kv.delete(key);
+}
+
 function csvToList(raw: string): string[] {
   return (raw ?? '')
     .split(',')
@@ -39,9 +57,15 @@ function csvToList(raw: string): string[] {
     .filter(Boolean);
 }
 
+// Outcome of a live integration fetch (shared by the routes and the scheduled poller)
+type FeedResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
 // Helper to safely access nested properties from a JSON object
 const getProperty = (objectData: any, path: string): any => {
-  const value = path.split('.').reduce((accumulator, part) => accumulator && accumulator[part], objectData);
+  // Webhook payloads may carry dot-walked fields as flat keys ("cmdb_ci.name")
+  const value = objectData && path in objectData
+    ? objectData[path]
+    : path.split('.').reduce((accumulator, part) => accumulator && accumulator[part], objectData);
   // Handle ServiceNow reference fields which are returned as objects
   if (typeof value === 'object' && value !== null) {
     return value.display_value || value.name || value.value || JSON.stringify(value);
@@ -113,348 +137,312 @@ async function logServiceNowInteraction(endpoint: string, request: Request, resp
   return { response: newResponse, data: parsedData };
 }
 
-export function userRoutes(app: Hono<{ Bindings: Env }>) {
-  // — Aegis Dashboard Routes —
+// Build SolarWinds request headers (Basic auth + optional tunnel / Cloudflare Access headers)
+function solarWindsHeaders(env: Env, username: string, password: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Authorization': 'Basic ' + btoa(`${username}:${password}`),
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  };
 
-  // Global error handler for all routes
-  app.onError((err, c) => {
-    console.error('Global error handler caught:', {
-      message: err.message,
-      stack: err.stack,
-      name: err.name,
-    });
-    return c.json({
-      success: false,
-      error: 'Internal Server Error',
-      details: err.message,
-      stack: err.stack
-    }, 500);
-  });
+  const tunnelCode = env.SOLARWINDS_CUSTOM_HEADER;
+  if (tunnelCode) headers['X-Tunnel-Code'] = tunnelCode;
 
-  // ADDED: Config endpoint to check if management is enabled (now reads KV with env fallback)
-  app.get('/api/config', async (c) => {
-    const enableManagement = await kvGetBool(c, 'ENABLE_MANAGEMENT', c.env.ENABLE_MANAGEMENT as any);
-    return c.json({ enableManagement });
-  });
+  const cfId = (env as any).CF_ACCESS_CLIENT_ID;
+  const cfSecret = (env as any).CF_ACCESS_CLIENT_SECRET;
+  if (cfId && cfSecret) {
+    headers['CF-Access-Client-Id'] = cfId;
+    headers['CF-Access-Client-Secret'] = cfSecret;
+  }
+  return headers;
+}
 
-  // ADDED: Middleware to check if management features are enabled (KV-aware)
-  const checkManagementEnabled = async (c: any, next: any) => {
-    const enableManagement = await kvGetBool(c, 'ENABLE_MANAGEMENT', c.env.ENABLE_MANAGEMENT as any);
-    if (!enableManagement) {
-      return c.json({ error: 'Management features are disabled' }, 403);
-    }
-    await next();
-  };
+// Credentials are sent as Basic auth to the configured host, so the config may only name SolarWinds
+// credential secrets; otherwise it could ship another integration's secret to any host
+const SOLARWINDS_CREDENTIAL_VAR = /^SOLARWINDS_[A-Z0-9_]+$/;
+const SOLARWINDS_NON_CREDENTIAL_VARS = new Set(['SOLARWINDS_WEBHOOK_SECRET', 'SOLARWINDS_UI_BASE', 'SOLARWINDS_EXCLUDE_CAPTIONS']);
 
-  // — VENDOR CRUD —
-  app.get('/api/vendors', async (c) => {
-    const { items } = await VendorEntity.list(c.env);
-    return ok(c, items);
-  });
+const isSolarWindsCredentialVar = (name: string) =>
+  SOLARWINDS_CREDENTIAL_VAR.test(name.trim()) && !SOLARWINDS_NON_CREDENTIAL_VARS.has(name.trim());
 
-  // MODIFIED: Added checkManagementEnabled middleware
-  app.post('/api/vendors', checkManagementEnabled, async (c) => {
-    const body = await c.req.json<Partial<Vendor>>();
-    if (!isStr(body.name) || !isStr(body.url) || !isStr(body.statusType)) {
-      return bad(c, 'name, url, and statusType are required');
+// Validate a SolarWinds config payload; returns an error message or null
+function validateSolarWindsConfig(body: Partial<SolarWindsConfig>): string | null {
+  if (typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+  if (!isStr(body.usernameVar) || !isStr(body.passwordVar)) {
+    return 'usernameVar and passwordVar are required';
+  }
+  if (!isSolarWindsCredentialVar(body.usernameVar) || !isSolarWindsCredentialVar(body.passwordVar)) {
+    return 'usernameVar and passwordVar must name SOLARWINDS_* credential secrets (e.g. SOLARWINDS_USERNAME)';
+  }
+  const apiUrl = (body.apiUrl ?? '').trim();
+  if (body.enabled && !apiUrl) return 'apiUrl is required when enabled';
+  if (apiUrl) {
+    try {
+      const parsed = new URL(apiUrl);
+      if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        return 'apiUrl must be an http(s) URL';
+      }
+    } catch {
+      return 'apiUrl must be a valid URL';
     }
-    const newVendor: Vendor = {
-      id: crypto.randomUUID(),
-      name: body.name,
-      url: body.url,
-      statusType: body.statusType,
-      apiUrl: body.apiUrl,
-      jsonPath: body.jsonPath,
-      expectedValue: body.expectedValue,
-    };
-    await VendorEntity.create(c.env, newVendor);
-    return ok(c, newVendor);
-  });
-
-  // MODIFIED: Added checkManagementEnabled middleware
-  app.put('/api/vendors/:id', checkManagementEnabled, async (c) => {
-    const id = c.req.param('id');
-    const body = await c.req.json<Partial<Vendor>>();
-    if (!isStr(body.name) || !isStr(body.url) || !isStr(body.statusType)) {
-      return bad(c, 'name, url, and statusType are required');
+  }
+  if (body.severityMapping !== undefined) {
+    if (!Array.isArray(body.severityMapping)) return 'severityMapping must be an array';
+    for (const item of body.severityMapping) {
+      if (!isStr(item?.solarwindsValue?.trim())) return 'severityMapping values are required';
+      if (!['Critical', 'Warning', 'Info'].includes(item.dashboardValue)) {
+        return 'severityMapping dashboardValue must be Critical, Warning or Info';
+      }
     }
-    const vendor = new VendorEntity(c.env, id);
-    if (!(await vendor.exists())) return notFound(c, 'Vendor not found');
-    const updatedVendor: Vendor = {
-      id,
-      name: body.name,
-      url: body.url,
-      statusType: body.statusType,
-      apiUrl: body.apiUrl,
-      jsonPath: body.jsonPath,
-      expectedValue: body.expectedValue,
-    };
-    await vendor.save(updatedVendor);
-    return ok(c, updatedVendor);
-  });
+  }
+  return null;
+}
 
-  // MODIFIED: Added checkManagementEnabled middleware
-  app.delete('/api/vendors/:id', checkManagementEnabled, async (c) => {
-    const id = c.req.param('id');
-    const deleted = await VendorEntity.delete(c.env, id);
-    if (!deleted) return notFound(c, 'Vendor not found');
-    return ok(c, { id, deleted });
-  });
+const NOTIFICATION_CHANNEL_TYPES: NotificationChannelType[] = ['TEAMS', 'SLACK', 'WEBHOOK'];
+const NOTIFICATION_RULE_TYPES: NotificationRuleType[] = ['OUTAGE_IMPACT', 'VENDOR_OUTAGE', 'ALERT_UNACKNOWLEDGED'];
 
-  // — VENDOR STATUS (Now Dynamic & Resilient & Sorted) —
-  app.get('/api/vendors/status', async (c) => {
-    const { items: vendors } = await VendorEntity.list(c.env);
-    const statusPromises = vendors.map(async (vendor): Promise<VendorStatus> => {
-      let status: VendorStatusOption = 'Operational';
-      if (vendor.statusType === 'API_JSON' && vendor.apiUrl && vendor.jsonPath && vendor.expectedValue) {
-        try {
-          const response = await fetch(vendor.apiUrl, {
-            headers: { 'User-Agent': 'AegisDashboard/1.0' }
-          });
-          if (!response.ok) {
-            status = 'Degraded'; // Status page API is failing
-          } else {
-            const json = await response.json();
-            const value = getProperty(json, vendor.jsonPath);
-            if (value === undefined) {
-              status = 'Degraded'; // Path not found in JSON
-            } else {
-              // Split comma-separated expected values and trim spaces
-              const allowedValues = vendor.expectedValue
-                .split(',')
-                .map(v => v.trim().toLowerCase());
-            
-              const actualValue = String(value).toLowerCase().trim();
-            
-              if (allowedValues.includes(actualValue)) {
-                status = 'Operational';
-              } else {
-                status = 'Outage';
-              }
-            }
-          }
-        } catch (error) {
-          console.error(`Failed to fetch status for ${vendor.name}:`, error);
-          status = 'Degraded'; // Network error or other issue
-        }
+function validateNotificationChannel(body: Partial<NotificationChannel>): string | null {
+  if (!isStr(body.name)) return 'name is required';
+  if (!body.type || !NOTIFICATION_CHANNEL_TYPES.includes(body.type)) {
+    return `type must be one of ${NOTIFICATION_CHANNEL_TYPES.join(', ')}`;
+  }
+  try {
+    const parsed = new URL(body.webhookUrl ?? '');
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return 'webhookUrl must be an http(s) URL';
+  } catch {
+    return 'webhookUrl must be a valid URL';
+  }
+  if (typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+  if (!Number.isInteger(body.rateLimitPerHour) || body.rateLimitPerHour! < 1) {
+    return 'rateLimitPerHour must be a positive integer';
+  }
+  if (!Array.isArray(body.rules)) return 'rules must be an array';
+  for (const rule of body.rules) {
+    if (!NOTIFICATION_RULE_TYPES.includes(rule?.type)) {
+      return `rule type must be one of ${NOTIFICATION_RULE_TYPES.join(', ')}`;
+    }
+    if (rule.systemPattern) {
+      try {
+        new RegExp(rule.systemPattern, 'i');
+      } catch {
+        return `Invalid systemPattern: ${rule.systemPattern}`;
       }
-      // For 'MANUAL' type, we default to 'Operational'
-      return { id: vendor.id, name: vendor.name, url: vendor.url, status };
-    });
-    const statuses = await Promise.all(statusPromises);
-
-    // Sort: Outage first, then Degraded, then Operational (alphabetically within each group)
-    const sortedStatuses = statuses.sort((a, b) => {
-      const statusOrder = { 'Outage': 0, 'Degraded': 1, 'Operational': 2 };
-      const statusDiff = statusOrder[a.status] - statusOrder[b.status];
-      if (statusDiff !== 0) return statusDiff;
-      // Within same status, sort alphabetically by name
-      return a.name.localeCompare(b.name);
-    });
-
-    return ok(c, sortedStatuses);
-  });
-
-  // — SERVICENOW CONFIG —
-  app.get('/api/servicenow/config', async (c) => {
-    const configEntity = new ServiceNowConfigEntity(c.env);
-    const config = await configEntity.getState();
-    return ok(c, config);
-  });
-
-  // MODIFIED: Added checkManagementEnabled middleware
-  app.post('/api/servicenow/config', checkManagementEnabled, async (c) => {
-    const body = await c.req.json<ServiceNowConfig>();
-    const configEntity = new ServiceNowConfigEntity(c.env);
-    await configEntity.save(body);
-    return ok(c, body);
-  });
-
-  // — ACTIVE OUTAGES (Now Dynamic)
-  app.get('/api/outages/active', async (c) => {
-    try {
-      console.log('Step 1: Starting /api/outages/active request');
+    }
+    if (rule.impactLevels && !rule.impactLevels.every((l) => l === 'Outage' || l === 'Degradation')) {
+      return 'impactLevels may only contain Outage or Degradation';
+    }
+    if (rule.minutes != null && (!Number.isInteger(rule.minutes) || rule.minutes < 1)) {
+      return 'minutes must be a positive integer';
+    }
+  }
+  return null;
+}
 
-      const configEntity = new ServiceNowConfigEntity(c.env);
-      console.log('Step 1.5: Created config entity');
+// Outage field mapping with the impact level pinned to 'type', plus the impact lookup (lower-cased SN value)
+function outageMappings(config: ServiceNowConfig) {
+  const fieldMapping = { ...config.fieldMapping, impactLevel: 'type' };
+  const impactMapping = new Map(config.impactLevelMapping.map(item => [item.servicenowValue.toLowerCase(), item.dashboardValue]));
+  return { fieldMapping, impactMapping };
+}
 
-      const config = await configEntity.getState();
-      console.log('Step 2: Got config', {
-        enabled: config.enabled,
-        hasInstanceUrl: !!config.instanceUrl,
-        instanceUrl: config.instanceUrl
-      });
+// Map one outage-table record (API row or webhook payload) to a dashboard Outage
+function mapServiceNowOutage(item: any, fieldMapping: ServiceNowConfig['fieldMapping'], impactMapping: Map<string, ImpactLevel>): Outage {
+  const rawImpact = getProperty(item, fieldMapping.impactLevel);
+  const servicenowImpact = String(rawImpact || '').toLowerCase().trim();
+  const mappedImpact = impactMapping.get(servicenowImpact) || 'Degradation';
 
-      if (!config.enabled || !config.instanceUrl) {
-        console.log('Step 3: ServiceNow not enabled or configured - returning empty array');
-        // Return empty array instead of error when not configured
-        return ok(c, []);
+  return {
+    id: item.number || item.sys_id, // Use 'number' field for display, fallback to sys_id
+    systemName: getProperty(item, fieldMapping.systemName) || 'Unknown System',
+    impactLevel: mappedImpact as ImpactLevel,
+    startTime: safeParseDate(getProperty(item, fieldMapping.startTime)),
+    eta: (() => {
+      const rawEnd = getProperty(item, fieldMapping.eta);
+      if (!rawEnd || String(rawEnd).trim().length === 0) {
+        return 'Unknown';
       }
+      return safeParseDate(rawEnd);
+    })(),
+    description: getProperty(item, fieldMapping.description) || 'No description provided.',
+    teamsBridgeUrl: getProperty(item, fieldMapping.teamsBridgeUrl) || null,
+  };
+}
 
-      const username = c.env[config.usernameVar as keyof Env] as string | undefined;
-      const password = c.env[config.passwordVar as keyof Env] as string | undefined;
-      console.log('Step 4: Checked credentials', { hasUsername: !!username, hasPassword: !!password });
+// ---------- ServiceNow feed queries ----------
+const SERVICENOW_FEEDS: ServiceNowFeedName[] = ['outages', 'tickets', 'history', 'changes'];
+const MAX_FEED_LIMIT = 1000;
+const FEED_PREVIEW_ROWS = 10;
 
-      if (!username || !password) {
-        console.log('Step 5: Missing credentials - returning empty array');
-        // Return empty array instead of error when credentials missing
-        return ok(c, []);
-      }
+// "-sys_updated_on,number" -> "ORDERBYDESCsys_updated_on^ORDERBYnumber"
+function orderByClause(orderBy: string): string {
+  return csvToList(orderBy)
+    .map((field) => (field.startsWith('-') ? `ORDERBYDESC${field.slice(1)}` : `ORDERBY${field}`))
+    .join('^');
+}
 
-      //const { outageTable, fieldMapping, impactLevelMapping } = config;
-      const { outageTable, fieldMapping: rawFieldMapping, impactLevelMapping } = config;
-      const fieldMapping = {
-        ...rawFieldMapping,
-        impactLevel: 'type'
-      };
-      console.log('Step 6: Got field mappings', { outageTable, fieldMappingKeys: Object.keys(fieldMapping) });
+const andQuery = (...parts: string[]) => parts.filter(Boolean).join('^');
 
-      const impactMapping = new Map(impactLevelMapping.map(item => [item.servicenowValue.toLowerCase(), item.dashboardValue]));
-      const fields = Object.values(fieldMapping).join(',');
-      // Query for active outages where 'end' field is empty (ongoing outages)
-      const query = 'active=true^endISEMPTY';
-      const encodedQuery = encodeURIComponent(query);
-      // Include 'number' field for the outage number display
-      const url = `${config.instanceUrl}/api/now/table/${outageTable}?sysparm_display_value=true&sysparm_query=${encodedQuery}&sysparm_fields=sys_id,number,${fields}`;
-      console.log('Step 7: Constructed URL (partial):', url.substring(0, 100));
+function validateFeedQueries(feedQueries: unknown): string | null {
+  if (!feedQueries || typeof feedQueries !== 'object') return 'feedQueries must be an object';
+  for (const feed of SERVICENOW_FEEDS) {
+    const q = (feedQueries as Record<string, ServiceNowFeedQuery>)[feed];
+    if (!q) return `feedQueries.${feed} is required`;
+    if (typeof q.query !== 'string') return `feedQueries.${feed}.query must be a string`;
+    if (/\^NQ|ORDERBY/i.test(q.query)) return `feedQueries.${feed}.query must not contain ^NQ or ORDERBY (use orderBy)`;
+    if (!Number.isInteger(q.limit) || q.limit < 1 || q.limit > MAX_FEED_LIMIT) {
+      return `feedQueries.${feed}.limit must be between 1 and ${MAX_FEED_LIMIT}`;
+    }
+    if (typeof q.orderBy !== 'string' || !csvToList(q.orderBy).every((f) => /^-?[\w.]+$/.test(f))) {
+      return `feedQueries.${feed}.orderBy must be a comma-separated list of fields`;
+    }
+  }
+  return null;
+}
 
-      const request = new Request(url, {
-        headers: {
-          'Authorization': 'Basic ' + btoa(`${username}:${password}`),
-          'Accept': 'application/json',
-        },
-      });
-      console.log('Step 8: Created request, about to fetch');
+// As with SolarWinds, the config may only name ServiceNow credential secrets
+const SERVICENOW_CREDENTIAL_VAR = /^SERVICENOW_[A-Z0-9_]+$/;
+const SERVICENOW_NON_CREDENTIAL_VARS = new Set(['SERVICENOW_WEBHOOK_SECRET', 'SERVICENOW_TICKET_URL_PREFIX']);
 
-      const response = await fetch(request);
-      console.log('Step 9: Got response', { status: response.status, ok: response.ok });
+const isServiceNowCredentialVar = (name: string) =>
+  SERVICENOW_CREDENTIAL_VAR.test(name.trim()) && !SERVICENOW_NON_CREDENTIAL_VARS.has(name.trim());
 
-      const { response: loggedResponse, data } = await logServiceNowInteraction('ActiveOutages', request, response);
-      console.log('Step 10: Logged interaction', { hasData: !!data, hasResult: !!(data && data.result) });
+// Checks on a well-formed ServiceNow config; returns an error message or null
+function validateServiceNowConfig(config: ServiceNowConfig): string | null {
+  if (!isServiceNowCredentialVar(config.usernameVar) || !isServiceNowCredentialVar(config.passwordVar)) {
+    return 'usernameVar and passwordVar must name SERVICENOW_* credential secrets (e.g. SERVICENOW_USERNAME)';
+  }
+  const instanceUrl = config.instanceUrl.trim();
+  if (config.enabled && !instanceUrl) return 'instanceUrl is required when enabled';
+  if (instanceUrl) {
+    try {
+      const parsed = new URL(instanceUrl);
+      if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return 'instanceUrl must be an http(s) URL';
+    } catch {
+      return 'instanceUrl must be a valid URL';
+    }
+  }
+  return validateFeedQueries(config.feedQueries);
+}
 
-      if (!loggedResponse.ok) {
-        console.log('Step 11: Response not OK - returning empty array');
-        return ok(c, []);
-      }
+// Table, columns and full encoded query for one feed. The configured filter is ANDed with the
+// window the feed needs: history adds "ended since", changes add "overlaps the window" (today by
+// default) on either the actual or the planned dates (two ^NQ branches). Window bounds are
+// "yyyy-MM-dd HH:mm:ss" in UTC.
+function serviceNowFeedRequest(config: ServiceNowConfig, feed: ServiceNowFeedName, window?: { from: string; to?: string }) {
+  const { query: filter, limit, orderBy } = config.feedQueries[feed];
+  const order = orderByClause(orderBy);
+  const outageFields = ['sys_id', 'number', ...Object.values(outageMappings(config).fieldMapping)];
 
-      if (!data || !data.result) {
-        console.log('Step 12: Invalid response structure - returning empty array', { data });
-        return ok(c, []);
-      }
+  switch (feed) {
+    case 'outages':
+      return { table: config.outageTable, fields: outageFields, query: andQuery(filter, order), limit };
+    case 'tickets':
+      return { table: config.ticketTable, fields: ['sys_id', ...Object.values(config.ticketFieldMapping)], query: andQuery(filter, order), limit };
+    case 'history': {
+      const since = window?.from ?? format(subDays(new Date(), 7), 'yyyy-MM-dd HH:mm:ss');
+      return { table: config.outageTable, fields: outageFields, query: andQuery(filter, `endISEMPTY^ORend>=${since}`, order), limit };
+    }
+    case 'changes': {
+      const F = config.changeFieldMapping;
+      const from = window?.from ?? 'javascript:gs.beginningOfToday()';
+      const to = window?.to ?? 'javascript:gs.endOfToday()';
+      const overlaps = (start: string, end: string) => `${start}<=${to}^${end}>=${from}`;
+      return {
+        table: config.changeTable,
+        fields: ['sys_id', ...Object.values(F)],
+        query: `${andQuery(filter, overlaps(F.start, F.end))}^NQ${andQuery(filter, overlaps(F.plannedStart, F.plannedEnd), order)}`,
+        limit,
+      };
+    }
+  }
+}
 
-      console.log('Step 13: Processing results', { count: data.result.length });
-      const outages: Outage[] = data.result.map((item: any) => {
-        const rawImpact = getProperty(item, fieldMapping.impactLevel);
-        const servicenowImpact = String(rawImpact || '').toLowerCase().trim();
-        const mappedImpact = impactMapping.get(servicenowImpact) || 'Degradation';
+// Active outages from the configured ServiceNow outage table
+async function loadActiveOutages(env: Env): Promise<FeedResult<Outage[]>> {
+  try {
+    console.log('Step 1: Starting /api/outages/active request');
 
-        console.log('Impact mapping:', {
-          rawImpact,
-          servicenowImpact,
-          mappedImpact,
-          availableMappings: Array.from(impactMapping.entries())
-        });
+    const configEntity = new ServiceNowConfigEntity(env);
+    console.log('Step 1.5: Created config entity');
 
-        return {
-          id: item.number || item.sys_id, // Use 'number' field for display, fallback to sys_id
-          systemName: getProperty(item, fieldMapping.systemName) || 'Unknown System',
-          impactLevel: mappedImpact as ImpactLevel,
-          startTime: safeParseDate(getProperty(item, fieldMapping.startTime)),
-          eta: (() => {
-            const rawEnd = getProperty(item, fieldMapping.eta);
-            if (!rawEnd || String(rawEnd).trim().length === 0) {
-              return 'Unknown';
-            }
-            return safeParseDate(rawEnd);
-          })(),
-          description: getProperty(item, fieldMapping.description) || 'No description provided.',
-          teamsBridgeUrl: getProperty(item, fieldMapping.teamsBridgeUrl) || null,
-        };
-      });
+    const config = await configEntity.getState();
+    console.log('Step 2: Got config', {
+      enabled: config.enabled,
+      hasInstanceUrl: !!config.instanceUrl,
+      instanceUrl: config.instanceUrl
+    });
 
-      console.log('Step 14: Returning outages', { count: outages.length });
-      return ok(c, outages);
-    } catch (error: any) {
-      console.error('CRITICAL ERROR in /api/outages/active:', {
-        message: error?.message,
-        stack: error?.stack,
-        name: error?.name,
-        error: String(error)
-      });
-      return c.json({
-        success: false,
-        error: 'Internal server error',
-        message: error?.message || String(error),
-        stack: error?.stack
-      }, 500);
+    if (!config.enabled || !config.instanceUrl) {
+      console.log('Step 3: ServiceNow not enabled or configured - returning empty array');
+      // Return empty array instead of error when not configured
+      return { ok: true, data: [] };
     }
-  });
 
-// — MONITORING ALERTS
-app.get('/api/monitoring/alerts', async (c) => {
-  const configEntity = new SolarWindsConfigEntity(c.env);
-  const config = await configEntity.getState();
+    const username = env[config.usernameVar as keyof Env] as string | undefined;
+    const password = env[config.passwordVar as keyof Env] as string | undefined;
+    console.log('Step 4: Checked credentials', { hasUsername: !!username, hasPassword: !!password });
 
-  if (!config.enabled || !config.apiUrl) {
-    return bad(c, 'SolarWinds integration is not configured or enabled.');
-  }
+    if (!username || !password) {
+      console.log('Step 5: Missing credentials');
+      return { ok: false, error: 'ServiceNow credentials are not set in Worker secrets.' };
+    }
 
-  const username = c.env[config.usernameVar as keyof Env] as string | undefined;
-  const password = c.env[config.passwordVar as keyof Env] as string | undefined;
+    const { outageTable } = config;
+    const { fieldMapping, impactMapping } = outageMappings(config);
+    console.log('Step 6: Got field mappings', { outageTable, fieldMappingKeys: Object.keys(fieldMapping) });
 
-  if (!username || !password) {
-    return bad(c, 'SolarWinds credentials are not set in Worker secrets.');
-  }
+    // Configured query (default: active and 'end' empty or still in the future, i.e. an ETA)
+    const feedRequest = serviceNowFeedRequest(config, 'outages');
+    const encodedQuery = encodeURIComponent(feedRequest.query);
+    // Include 'number' field for the outage number display
+    const url = `${config.instanceUrl}/api/now/table/${outageTable}?sysparm_display_value=true&sysparm_query=${encodedQuery}&sysparm_limit=${feedRequest.limit}&sysparm_fields=${feedRequest.fields.join(',')}`;
+    console.log('Step 7: Constructed URL (partial):', url.substring(0, 100));
 
-  const url = `${config.apiUrl}/SolarWinds/InformationService/v3/Json/Query`;
+    const request = new Request(url, {
+      headers: {
+        'Authorization': 'Basic ' + btoa(`${username}:${password}`),
+        'Accept': 'application/json',
+      },
+    });
+    console.log('Step 8: Created request, about to fetch');
 
-  // Primary (B) – includes RelatedNodeCaption + EntityType
-  const queryB =
-    "SELECT aa.AlertObjectID, " +
-    "       ao.EntityCaption, ao.RelatedNodeCaption, ao.EntityType, ao.EntityDetailsUrl, " +
-    "       aa.TriggeredDateTime, aa.Acknowledged " +
-    "FROM Orion.AlertActive AS aa " +
-    "JOIN Orion.AlertObjects AS ao ON aa.AlertObjectID = ao.AlertObjectID " +
-    "ORDER BY aa.TriggeredDateTime DESC";
+    const response = await fetch(request);
+    console.log('Step 9: Got response', { status: response.status, ok: response.ok });
 
-  // Fallback (A)
-  const queryA =
-    "SELECT aa.AlertObjectID, " +
-    "       ao.EntityCaption, ao.RelatedNodeCaption, ao.EntityType, ao.EntityDetailsUrl " +
-    "FROM Orion.AlertActive AS aa " +
-    "JOIN Orion.AlertObjects AS ao ON aa.AlertObjectID = ao.AlertObjectID " +
-    "ORDER BY aa.AlertObjectID DESC";
+    const { response: loggedResponse, data } = await logServiceNowInteraction('ActiveOutages', request, response);
+    console.log('Step 10: Logged interaction', { hasData: !!data, hasResult: !!(data && data.result) });
 
-  const headers: Record<string, string> = {
-    'Authorization': 'Basic ' + btoa(`${username}:${password}`),
-    'Content-Type': 'application/json',
-    'Accept': 'application/json',
-  };
+    if (!loggedResponse.ok) {
+      console.log('Step 11: Response not OK');
+      return { ok: false, error: `Failed to fetch outages from ServiceNow: ${loggedResponse.statusText}` };
+    }
 
-  const tunnelCode = c.env.SOLARWINDS_CUSTOM_HEADER;
-  if (tunnelCode) headers['X-Tunnel-Code'] = tunnelCode;
+    if (!data || !data.result) {
+      console.log('Step 12: Invalid response structure', { data });
+      return { ok: false, error: 'Invalid response from ServiceNow' };
+    }
 
-  const cfId = (c.env as any).CF_ACCESS_CLIENT_ID;
-  const cfSecret = (c.env as any).CF_ACCESS_CLIENT_SECRET;
-  if (cfId && cfSecret) {
-    headers['CF-Access-Client-Id'] = cfId;
-    headers['CF-Access-Client-Secret'] = cfSecret;
-  }
+    console.log('Step 13: Processing results', { count: data.result.length });
+    const outages: Outage[] = data.result.map((item: any) => mapServiceNowOutage(item, fieldMapping, impactMapping));
 
-  // helper to issue one query
-  const run = async (query: string) => {
-    const resp = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({ query }),
+    console.log('Step 14: Returning outages', { count: outages.length });
+    return { ok: true, data: outages };
+  } catch (error: any) {
+    console.error('CRITICAL ERROR in /api/outages/active:', {
+      message: error?.message,
+      stack: error?.stack,
+      name: error?.name,
+      error: String(error)
     });
-    return resp;
-  };
+    return { ok: false, error: error?.message || 'Internal server error' };
+  }
+}
 
-  // link builder with optional UI override (KV > ENV > derive)
-  const kvUiBase = await kvGetString(c, 'SOLARWINDS_UI_BASE', (c.env as any).SOLARWINDS_UI_BASE);
+// Link builder for SolarWinds entity URLs with optional UI override (KV > ENV > derive)
+async function solarWindsLinkBuilder(env: Env, config: SolarWindsConfig) {
+  const kvUiBase = await kvGetString({ env }, 'SOLARWINDS_UI_BASE', (env as any).SOLARWINDS_UI_BASE);
   const uiBase = kvUiBase || '';
-  const toAbsoluteUrl = (maybeUrl?: string | null) => {
+  return (maybeUrl?: string | null) => {
     if (!maybeUrl) return 'N/A';
     const isAbsolute = /^https?:\/\//i.test(maybeUrl);
 
@@ -475,357 +463,636 @@ app.get('/api/monitoring/alerts', async (c) => {
       return maybeUrl;
     }
   };
+}
 
-  // Build a display title as "NODE — issue", with NODE uppercased.
-  const titleFrom = (r: any) => {
-    const nodeRaw = (r.RelatedNodeCaption ?? '').toString().trim();
-    const entityType = (r.EntityType ?? '').toString();
-    const entityCaption = (r.EntityCaption ?? 'Alert').toString().trim();
+// Build a display title as "NODE — issue", with NODE uppercased.
+const solarWindsTitle = (r: any) => {
+  const nodeRaw = (r.RelatedNodeCaption ?? '').toString().trim();
+  const entityType = (r.EntityType ?? '').toString();
+  const entityCaption = (r.EntityCaption ?? 'Alert').toString().trim();
 
-    // If RelatedNodeCaption is missing but the object IS a node,
-    // treat EntityCaption as the node name and still show "NODE — issue"
-    let node = nodeRaw;
-    let issue = entityCaption;
+  const alertName = (r.AlertName ?? '').toString().trim();
 
-    if (!node && entityType === 'Orion.Nodes') {
-      node = entityCaption;      // node name comes from EntityCaption
-      // issue remains entityCaption unless you later add AlertName to the query
-    }
+  // If RelatedNodeCaption is missing but the object IS a node,
+  // treat EntityCaption as the node name and still show "NODE — issue"
+  let node = nodeRaw;
+  let issue = entityCaption;
 
-    const nodeUP = node ? node.toUpperCase() : '';
-    return nodeUP ? `${nodeUP} — ${issue}` : issue;
-  };
+  if (!node && entityType === 'Orion.Nodes') {
+    node = entityCaption;      // node name comes from EntityCaption
+    issue = alertName || entityCaption;
+  }
 
-  try {
-    // try B first
-    let resp = await run(queryB);
+  const nodeUP = node ? node.toUpperCase() : '';
+  return nodeUP ? `${nodeUP} — ${issue}` : issue;
+};
 
-    if (!resp.ok) {
-      const txt = await resp.text();
-      console.error(`SolarWinds API Error (${resp.status}) on query B: ${txt}`);
-      if (resp.status === 400) {
-        resp = await run(queryA);
-      } else {
-        return bad(c, `Failed to fetch from SolarWinds: ${resp.statusText}`);
-      }
-    }
+// Raw severity (lower-cased) -> dashboard severity; configs saved before the mapping existed use the defaults
+function solarWindsSeverityMapping(config: SolarWindsConfig): Map<string, AlertSeverity> {
+  const items = config.severityMapping ?? SolarWindsConfigEntity.initialState.severityMapping;
+  return new Map(items.map((item) => [item.solarwindsValue.toLowerCase().trim(), item.dashboardValue]));
+}
 
-    if (!resp.ok) {
-      const txt = await resp.text();
-      console.error(`SolarWinds API Error (${resp.status}) on fallback A: ${txt}`);
-      return bad(c, `Failed to fetch from SolarWinds: ${resp.statusText}`);
-    }
+// Normalize one SWQL row (or an alert-action payload using the same column names)
+function normalizeSolarWindsAlert(
+  r: any,
+  toAbsoluteUrl: (maybeUrl?: string | null) => string,
+  severityMapping: Map<string, AlertSeverity>
+): MonitoringAlert {
+  const nodeRaw = (r.RelatedNodeCaption ?? '').toString().trim();
+  const entityType = (r.EntityType ?? '').toString();
+  const entityCaption = (r.EntityCaption ?? 'Alert').toString().trim();
+  const alertName = (r.AlertName ?? '').toString().trim();
 
-    const json = await resp.json() as { results?: any[] };
-    let rows = Array.isArray(json.results) ? json.results : [];
+  // Decide node+issue as above, and uppercase the node for display + nodeCaption
+  let node = nodeRaw;
+  let issue = entityCaption;
 
-    // Filter out excluded captions via KV CSV (fallback to ENV)
-    const exCsv = await kvGetString(c, 'SOLARWINDS_EXCLUDE_CAPTIONS', (c.env as any).SOLARWINDS_EXCLUDE_CAPTIONS);
-    const excludeList = csvToList(exCsv).map(v => v.toLowerCase());
+  if (!node && entityType === 'Orion.Nodes') {
+    node = entityCaption;
+    issue = alertName || entityCaption;
+  }
 
-    rows = rows.filter((r) => {
-      const caption = String(r.EntityCaption || '').toLowerCase();
-      return !excludeList.some((term) => caption === term || caption.startsWith(term));
-    });
+  const nodeCaption = node ? node.toUpperCase() : '';
 
-    const alerts: MonitoringAlert[] = rows.map((r) => {
-      const nodeRaw = (r.RelatedNodeCaption ?? '').toString().trim();
-      const entityType = (r.EntityType ?? '').toString();
-      const entityCaption = (r.EntityCaption ?? 'Alert').toString().trim();
+  return {
+    id: String(r.AlertObjectID),
+    type: solarWindsTitle(r),            // e.g., "SERVERNAME — SSL Certificate Expiration Date Monitor"
+    nodeCaption,                         // uppercase node (extra field for the UI if needed)
+    affectedSystem: toAbsoluteUrl(r.EntityDetailsUrl),
+    timestamp: new Date(r.TriggeredDateTime ?? Date.now()).toISOString(),
+    severity: severityMapping.get(String(r.Severity ?? '').toLowerCase().trim()) ?? 'Info',
+    validated: Boolean(r.Acknowledged ?? false),
+    acknowledgedBy: r.AcknowledgedBy ? String(r.AcknowledgedBy) : null,
+    acknowledgedAt: r.AcknowledgedDateTime ? new Date(r.AcknowledgedDateTime).toISOString() : null,
+    // Keep 'issue' if your UI wants it later; harmless if unused:
+    // @ts-ignore allow extra field beyond shared types
+    issue,
+  } as any;
+}
+
+// Captions excluded from the alert feed (KV CSV > ENV), lower-cased
+async function solarWindsExcludeList(env: Env): Promise<string[]> {
+  const exCsv = await kvGetString({ env }, 'SOLARWINDS_EXCLUDE_CAPTIONS', (env as any).SOLARWINDS_EXCLUDE_CAPTIONS);
+  return csvToList(exCsv).map(v => v.toLowerCase());
+}
 
-      // Decide node+issue as above, and uppercase the node for display + nodeCaption
-      let node = nodeRaw;
-      let issue = entityCaption;
+function isExcludedCaption(entityCaption: unknown, excludeList: string[]): boolean {
+  const caption = String(entityCaption || '').toLowerCase();
+  return excludeList.some((term) => caption === term || caption.startsWith(term));
+}
 
-      if (!node && entityType === 'Orion.Nodes') {
-        node = entityCaption;
-      }
+// Active SolarWinds alerts, normalized for the dashboard
+async function loadMonitoringAlerts(env: Env): Promise<FeedResult<MonitoringAlert[]>> {
+  const configEntity = new SolarWindsConfigEntity(env);
+  const config = await configEntity.getState();
 
-      const nodeCaption = node ? node.toUpperCase() : '';
+  if (!config.enabled || !config.apiUrl) {
+    return { ok: false, error: 'SolarWinds integration is not configured or enabled.' };
+  }
 
-      return {
-        id: String(r.AlertObjectID),
-        type: titleFrom(r),                  // e.g., "SERVERNAME — SSL Certificate Expiration Date Monitor"
-        nodeCaption,                         // uppercase node (extra field for the UI if needed)
-        affectedSystem: toAbsoluteUrl(r.EntityDetailsUrl),
-        timestamp: new Date(r.TriggeredDateTime ?? Date.now()).toISOString(),
-        severity: 'Info',                    // TODO: enrich if you add severity mapping
-        validated: Boolean(r.Acknowledged ?? false),
-        // Keep 'issue' if your UI wants it later; harmless if unused:
-        // @ts-ignore allow extra field beyond shared types
-        issue,
-      } as any;
-    });
+  const username = env[config.usernameVar as keyof Env] as string | undefined;
+  const password = env[config.passwordVar as keyof Env] as string | undefined;
 
-    return ok(c, alerts);
-  } catch (err) {
-    console.error('Unexpected error fetching SolarWinds data:', err);
-    return bad(c, 'An unexpected error occurred while fetching SolarWinds data.');
+  if (!username || !password) {
+    return { ok: false, error: 'SolarWinds credentials are not set in Worker secrets.' };
   }
-});
 
-  // — SERVICENOW TICKETS
-  app.get('/api/servicenow/tickets', async (c) => {
-    const configEntity = new ServiceNowConfigEntity(c.env);
-    const config = await configEntity.getState();
+  const url = `${config.apiUrl}/SolarWinds/InformationService/v3/Json/Query`;
 
-    if (!config.enabled || !config.instanceUrl) {
-      return bad(c, 'ServiceNow integration is not configured or enabled.');
-    }
+  // Primary (C) – B plus alert name + severity from the alert definition and who acknowledged it
+  const queryC =
+    "SELECT aa.AlertObjectID, " +
+    "       ao.EntityCaption, ao.RelatedNodeCaption, ao.EntityType, ao.EntityDetailsUrl, " +
+    "       aa.TriggeredDateTime, aa.Acknowledged, aa.AcknowledgedBy, aa.AcknowledgedDateTime, " +
+    "       ac.Name AS AlertName, ac.Severity " +
+    "FROM Orion.AlertActive AS aa " +
+    "JOIN Orion.AlertObjects AS ao ON aa.AlertObjectID = ao.AlertObjectID " +
+    "LEFT JOIN Orion.AlertConfigurations AS ac ON ao.AlertID = ac.AlertID " +
+    "ORDER BY aa.TriggeredDateTime DESC";
 
-    const username = c.env[config.usernameVar as keyof Env] as string | undefined;
-    const password = c.env[config.passwordVar as keyof Env] as string | undefined;
+  // Fallback (B) – includes RelatedNodeCaption + EntityType
+  const queryB =
+    "SELECT aa.AlertObjectID, " +
+    "       ao.EntityCaption, ao.RelatedNodeCaption, ao.EntityType, ao.EntityDetailsUrl, " +
+    "       aa.TriggeredDateTime, aa.Acknowledged " +
+    "FROM Orion.AlertActive AS aa " +
+    "JOIN Orion.AlertObjects AS ao ON aa.AlertObjectID = ao.AlertObjectID " +
+    "ORDER BY aa.TriggeredDateTime DESC";
 
-    if (!username || !password) {
-      return bad(c, 'ServiceNow credentials are not set in Worker secrets.');
+  // Fallback (A)
+  const queryA =
+    "SELECT aa.AlertObjectID, " +
+    "       ao.EntityCaption, ao.RelatedNodeCaption, ao.EntityType, ao.EntityDetailsUrl " +
+    "FROM Orion.AlertActive AS aa " +
+    "JOIN Orion.AlertObjects AS ao ON aa.AlertObjectID = ao.AlertObjectID " +
+    "ORDER BY aa.AlertObjectID DESC";
+
+  const headers = solarWindsHeaders(env, username, password);
+
+  // helper to issue one query
+  const run = async (query: string) => {
+    const resp = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ query }),
+    });
+    return resp;
+  };
+
+  const toAbsoluteUrl = await solarWindsLinkBuilder(env, config);
+  const severityMapping = solarWindsSeverityMapping(config);
+
+  try {
+    // try C first; a 400 (unsupported column/entity on older Orion) falls back to B, then A
+    const attempts: [string, string][] = [['C', queryC], ['B', queryB], ['A', queryA]];
+    let resp!: Response;
+    for (const [name, query] of attempts) {
+      resp = await run(query);
+      if (resp.ok) break;
+      const txt = await resp.text();
+      console.error(`SolarWinds API Error (${resp.status}) on query ${name}: ${txt}`);
+      if (resp.status !== 400) break;
     }
 
-    const { ticketTable, ticketFieldMapping } = config;
-    const fields = Object.values(ticketFieldMapping).join(',');
-    const baseQuery = 'stateNOT IN 6,7,8^ORDERBYDESCsys_updated_on';
-    const priorityQuery = `^${ticketFieldMapping.priority}=1`;
-    const fullQuery = encodeURIComponent(`${baseQuery}${priorityQuery}`);
-    const url = `${config.instanceUrl}/api/now/table/${ticketTable}?sysparm_display_value=true&sysparm_query=${fullQuery}&sysparm_limit=20&sysparm_fields=${fields}`;
+    if (!resp.ok) {
+      return { ok: false, error: `Failed to fetch from SolarWinds: ${resp.statusText}` };
+    }
 
-    try {
-      const request = new Request(url, {
-        headers: {
-          'Authorization': 'Basic ' + btoa(`${username}:${password}`),
-          'Accept': 'application/json',
-        },
-      });
+    const json = await resp.json() as { results?: any[] };
+    let rows = Array.isArray(json.results) ? json.results : [];
 
-      const response = await fetch(request);
-      const { response: loggedResponse, data } = await logServiceNowInteraction('ServiceNowTickets', request, response);
+    // Filter out excluded captions via KV CSV (fallback to ENV)
+    const excludeList = await solarWindsExcludeList(env);
+    rows = rows.filter((r) => !isExcludedCaption(r.EntityCaption, excludeList));
 
-      if (!loggedResponse.ok) {
-        return bad(c, `Failed to fetch tickets from ServiceNow: ${loggedResponse.statusText}`);
-      }
+    // Orion only knows the API account for acknowledgements made here; prefer our own record
+    const { acknowledgements } = await new AlertAcknowledgementEntity(env).getState();
+    const alerts: MonitoringAlert[] = rows.map((r) => {
+      const alert = normalizeSolarWindsAlert(r, toAbsoluteUrl, severityMapping);
+      const ack = acknowledgements[alert.id];
+      return alert.validated && ack
+        ? { ...alert, acknowledgedBy: ack.acknowledgedBy, acknowledgedAt: ack.acknowledgedAt }
+        : alert;
+    });
 
-      if (!data || !data.result) {
-        return bad(c, 'Invalid response from ServiceNow');
-      }
+    return { ok: true, data: alerts };
+  } catch (err) {
+    console.error('Unexpected error fetching SolarWinds data:', err);
+    return { ok: false, error: 'An unexpected error occurred while fetching SolarWinds data.' };
+  }
+}
 
-      const tickets: ServiceNowTicket[] = data.result.map((item: any) => ({
-        id: getProperty(item, ticketFieldMapping.id) || 'N/A',
-        summary: getProperty(item, ticketFieldMapping.summary) || 'No summary',
-        affectedCI: getProperty(item, ticketFieldMapping.affectedCI) || 'N/A',
-        status: (getProperty(item, ticketFieldMapping.status) as any) || 'New',
-        assignedTeam: getProperty(item, ticketFieldMapping.assignedTeam) || 'Unassigned',
-        ticketUrl: `${config.instanceUrl}/nav_to.do?uri=${ticketTable}.do?sys_id=${item.sys_id}`,
-      }));
+// Evaluate every vendor's status page (dynamic, resilient & sorted)
+// ---------- Vendor status providers ----------
+const VENDOR_PROVIDER_TYPES: VendorProviderType[] = ['STATUSPAGE_IO', 'STATUS_IO', 'INSTATUS'];
 
-      return ok(c, tickets);
-    } catch (error) {
-      console.error('Error fetching tickets from ServiceNow:', error);
-      return bad(c, 'An unexpected error occurred while fetching ServiceNow tickets.');
-    }
-  });
+const isVendorProvider = (type: unknown): type is VendorProviderType => VENDOR_PROVIDER_TYPES.includes(type as VendorProviderType);
 
-  // — COLLABORATION BRIDGES CRUD —
-  app.get('/api/collaboration/bridges', async (c) => {
-    await CollaborationBridgeEntity.ensureSeed(c.env);
-    const { items } = await CollaborationBridgeEntity.list(c.env);
-    return ok(c, items);
-  });
+// Page indicators and component statuses share one table per provider; unknown values map to Degraded
+const DEFAULT_INDICATOR_MAPPINGS: Record<VendorProviderType, VendorIndicatorMappingItem[]> = {
+  STATUSPAGE_IO: [
+    { providerValue: 'none', dashboardValue: 'Operational' },
+    { providerValue: 'operational', dashboardValue: 'Operational' },
+    { providerValue: 'minor', dashboardValue: 'Degraded' },
+    { providerValue: 'degraded_performance', dashboardValue: 'Degraded' },
+    { providerValue: 'partial_outage', dashboardValue: 'Degraded' },
+    { providerValue: 'maintenance', dashboardValue: 'Degraded' },
+    { providerValue: 'under_maintenance', dashboardValue: 'Degraded' },
+    { providerValue: 'major', dashboardValue: 'Outage' },
+    { providerValue: 'critical', dashboardValue: 'Outage' },
+    { providerValue: 'major_outage', dashboardValue: 'Outage' },
+  ],
+  // Status.io status codes
+  STATUS_IO: [
+    { providerValue: '100', dashboardValue: 'Operational' },
+    { providerValue: '200', dashboardValue: 'Degraded' },
+    { providerValue: '300', dashboardValue: 'Degraded' },
+    { providerValue: '400', dashboardValue: 'Degraded' },
+    { providerValue: '500', dashboardValue: 'Outage' },
+    { providerValue: '600', dashboardValue: 'Outage' },
+  ],
+  INSTATUS: [
+    { providerValue: 'up', dashboardValue: 'Operational' },
+    { providerValue: 'operational', dashboardValue: 'Operational' },
+    { providerValue: 'hasissues', dashboardValue: 'Degraded' },
+    { providerValue: 'degradedperformance', dashboardValue: 'Degraded' },
+    { providerValue: 'partialoutage', dashboardValue: 'Degraded' },
+    { providerValue: 'undermaintenance', dashboardValue: 'Degraded' },
+    { providerValue: 'majoroutage', dashboardValue: 'Outage' },
+  ],
+};
 
-  // MODIFIED: Added checkManagementEnabled middleware
-  app.post('/api/collaboration/bridges', checkManagementEnabled, async (c) => {
-    const body = await c.req.json<Partial<CollaborationBridge>>();
-    if (!isStr(body.title) || !isStr(body.teamsCallUrl) || typeof body.participants !== 'number') {
-      return bad(c, 'title, teamsCallUrl, and participants are required');
-    }
-    const newBridge: CollaborationBridge = {
-      id: crypto.randomUUID(),
-      title: body.title,
-      participants: body.participants,
-      duration: body.duration || '0m',
-      isHighSeverity: body.isHighSeverity || false,
-      teamsCallUrl: body.teamsCallUrl,
+// Provider summary normalized to raw values; mapping to dashboard statuses happens afterwards
+interface ProviderSummary {
+  overall: string;
+  components: VendorProviderComponent[];
+  incidents: string[]; // Titles of unresolved incidents, most relevant first
+}
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+async function fetchVendorJson(url: string): Promise<any> {
+  const response = await fetch(url, { headers: { 'User-Agent': 'AegisDashboard/1.0', 'Accept': 'application/json' } });
+  if (!response.ok) throw new Error(`HTTP ${response.status} from ${url}`);
+  return response.json();
+}
+
+const VENDOR_PROVIDERS: Record<VendorProviderType, (vendor: Pick<Vendor, 'url' | 'apiUrl'>) => Promise<ProviderSummary>> = {
+  // Atlassian Statuspage: /api/v2/summary.json
+  STATUSPAGE_IO: async (vendor) => {
+    const json = await fetchVendorJson(vendor.apiUrl || `${trimTrailingSlash(vendor.url)}/api/v2/summary.json`);
+    return {
+      overall: String(json?.status?.indicator ?? ''),
+      components: (json?.components ?? [])
+        .filter((c: any) => !c.group)
+        .map((c: any) => ({ id: String(c.id), name: String(c.name), status: String(c.status) })),
+      incidents: (json?.incidents ?? []).map((i: any) => String(i.name)),
     };
-    await CollaborationBridgeEntity.create(c.env, newBridge);
-    return ok(c, newBridge);
-  });
+  },
+  // Status.io public API: https://api.status.io/1.0/status/<page id>
+  STATUS_IO: async (vendor) => {
+    if (!vendor.apiUrl) throw new Error('Status.io vendors need the public status API URL');
+    const result = (await fetchVendorJson(vendor.apiUrl))?.result ?? {};
+    return {
+      overall: String(result.status_overall?.status_code ?? ''),
+      components: (result.status ?? []).map((c: any) => ({ id: String(c.id), name: String(c.name), status: String(c.status_code) })),
+      incidents: (result.incidents ?? []).map((i: any) => String(i.name)),
+    };
+  },
+  // Instatus: /summary.json for the page and incidents, /v2/components.json for components
+  INSTATUS: async (vendor) => {
+    const base = trimTrailingSlash(vendor.url);
+    const [summary, components] = await Promise.all([
+      fetchVendorJson(vendor.apiUrl || `${base}/summary.json`),
+      fetchVendorJson(`${base}/v2/components.json`).catch(() => null),
+    ]);
+    return {
+      overall: String(summary?.page?.status ?? ''),
+      components: (components?.components ?? []).map((c: any) => ({ id: String(c.id), name: String(c.name), status: String(c.status) })),
+      incidents: (summary?.activeIncidents ?? []).map((i: any) => String(i.name)),
+    };
+  },
+};
 
-  // MODIFIED: Added checkManagementEnabled middleware
-  app.put('/api/collaboration/bridges/:id', checkManagementEnabled, async (c) => {
-    const id = c.req.param('id');
-    const body = await c.req.json<Partial<CollaborationBridge>>();
-    if (!isStr(body.title) || !isStr(body.teamsCallUrl) || typeof body.participants !== 'number') {
-      return bad(c, 'title, teamsCallUrl, and participants are required');
-    }
-    const bridge = new CollaborationBridgeEntity(c.env, id);
-    if (!(await bridge.exists())) return notFound(c, 'Bridge not found');
-    const currentState = await bridge.getState();
-    const updatedBridge: CollaborationBridge = { ...currentState, ...body, id };
-    await bridge.save(updatedBridge);
-    return ok(c, updatedBridge);
+function indicatorMapper(type: VendorProviderType, overrides: VendorIndicatorMappingItem[] | null | undefined) {
+  const mapping = new Map(
+    [...DEFAULT_INDICATOR_MAPPINGS[type], ...(overrides ?? [])].map((m) => [m.providerValue.trim().toLowerCase(), m.dashboardValue])
+  );
+  return (value: string): VendorStatusOption => mapping.get(value.trim().toLowerCase()) ?? 'Degraded';
+}
+
+// Worst tracked component, or the page indicator when no components are tracked (or none are listed anymore)
+function evaluateProviderSummary(
+  type: VendorProviderType,
+  vendor: Pick<Vendor, 'components' | 'indicatorMapping'>,
+  summary: ProviderSummary
+): { status: VendorStatusOption; incident: string | null; components: VendorComponentStatus[] } {
+  const toStatus = indicatorMapper(type, vendor.indicatorMapping);
+  const tracked = new Set(vendor.components ?? []);
+  const components = summary.components
+    .filter((c) => tracked.has(c.id))
+    .map((c) => ({ id: c.id, name: c.name, status: toStatus(c.status) }));
+  const status = components.length > 0 ? worstStatus(components.map((c) => c.status)) : toStatus(summary.overall);
+  return { status, incident: summary.incidents[0] ?? null, components };
+}
+
+function validateVendorProvider(body: Partial<Vendor>): string | null {
+  if (!isVendorProvider(body.statusType)) return null;
+  if (body.statusType === 'STATUS_IO' && !isStr(body.apiUrl)) return 'apiUrl (the Status.io public status API URL) is required';
+  if (body.components != null && (!Array.isArray(body.components) || !body.components.every(isStr))) {
+    return 'components must be a list of component ids';
+  }
+  if (body.indicatorMapping != null) {
+    const valid = Array.isArray(body.indicatorMapping) && body.indicatorMapping.every((m) =>
+      isStr(m?.providerValue?.trim()) && RULE_STATUSES.includes(m.dashboardValue));
+    if (!valid) return 'indicatorMapping must map provider values to Operational, Degraded or Outage';
+  }
+  return null;
+}
+
+// ---------- Vendor status feeds (RSS / Atom) ----------
+const DEFAULT_FEED_WINDOW_HOURS = 24;
+const MAX_FEED_WINDOW_HOURS = 24 * 30;
+// Entries whose title or summary contain one of these are treated as closed
+const RESOLVED_FEED_KEYWORDS = ['resolved', 'operating normally', 'recovered', 'completed'];
+
+interface StatusFeedEntry {
+  title: string;
+  summary: string;
+  published: string | null; // ISO 8601 string
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Text content of an element: CDATA unwrapped, entities decoded, then markup (HTML descriptions are often escaped) dropped
+function xmlText(raw: string): string {
+  return raw
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+      }
+      return XML_ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function xmlChild(block: string, names: string[]): string | null {
+  for (const name of names) {
+    const match = block.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'i'));
+    if (match) return xmlText(match[1]);
+  }
+  return null;
+}
+
+// RSS 2.0 <item>s and Atom <entry>s; no DOM parser in Workers, and status feeds are simple
+function parseStatusFeed(xml: string): StatusFeedEntry[] {
+  const blocks = xml.match(/<(item|entry)(?:\s[^>]*)?>[\s\S]*?<\/\1>/gi) ?? [];
+  return blocks.map((block) => {
+    const date = xmlChild(block, ['pubDate', 'updated', 'published', 'dc:date']);
+    const millis = date ? Date.parse(date) : NaN;
+    return {
+      title: xmlChild(block, ['title']) ?? '',
+      summary: xmlChild(block, ['description', 'summary', 'content']) ?? '',
+      published: Number.isNaN(millis) ? null : new Date(millis).toISOString(),
+    };
   });
+}
 
-  // MODIFIED: Added checkManagementEnabled middleware
-  app.delete('/api/collaboration/bridges/:id', checkManagementEnabled, async (c) => {
-    const id = c.req.param('id');
-    const deleted = await CollaborationBridgeEntity.delete(c.env, id);
-    if (!deleted) return notFound(c, 'Bridge not found');
-    return ok(c, { id, deleted });
+// Active = inside the window and not marked resolved; the worst classified entry sets the status
+function evaluateStatusFeed(
+  vendor: Pick<Vendor, 'feedWindowHours' | 'feedRules'>,
+  entries: StatusFeedEntry[],
+  now: number
+): { status: VendorStatusOption; incident: string | null } {
+  const cutoff = new Date(now - (vendor.feedWindowHours || DEFAULT_FEED_WINDOW_HOURS) * 3_600_000).toISOString();
+  const active = entries
+    .filter((e) => e.published && e.published >= cutoff)
+    .filter((e) => {
+      const text = `${e.title} ${e.summary}`.toLowerCase();
+      return !RESOLVED_FEED_KEYWORDS.some((keyword) => text.includes(keyword));
+    })
+    .sort((a, b) => b.published!.localeCompare(a.published!));
+  const classify = (entry: StatusFeedEntry): VendorStatusOption => {
+    const text = `${entry.title} ${entry.summary}`.toLowerCase();
+    return (vendor.feedRules ?? []).find((rule) => text.includes(rule.keyword.trim().toLowerCase()))?.status ?? 'Degraded';
+  };
+  return { status: worstStatus(active.map(classify)), incident: active[0]?.title || null };
+}
+
+async function fetchStatusFeed(url: string): Promise<StatusFeedEntry[]> {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': 'AegisDashboard/1.0', 'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8' },
   });
+  if (!response.ok) throw new Error(`HTTP ${response.status} from ${url}`);
+  return parseStatusFeed(await response.text());
+}
 
-  // — OUTAGE HISTORY (Trends) —
-  // Matches SN list filter: **Begin on Last 7 days** AND type IN (degradation,outage)
-  app.get('/api/outages/history', async (c) => {
-    const configEntity = new ServiceNowConfigEntity(c.env);
-    const config = await configEntity.getState();
+function validateVendorFeed(body: Partial<Vendor>): string | null {
+  if (body.statusType !== 'FEED') return null;
+  if (!isStr(body.apiUrl)) return 'apiUrl (the RSS/Atom feed URL) is required';
+  if (body.feedWindowHours != null && (!Number.isInteger(body.feedWindowHours) || body.feedWindowHours < 1 || body.feedWindowHours > MAX_FEED_WINDOW_HOURS)) {
+    return `feedWindowHours must be between 1 and ${MAX_FEED_WINDOW_HOURS}`;
+  }
+  if (body.feedRules != null) {
+    const valid = Array.isArray(body.feedRules) && body.feedRules.every((rule: VendorFeedRule) =>
+      isStr(rule?.keyword?.trim()) && (rule.status === 'Degraded' || rule.status === 'Outage'));
+    if (!valid) return 'feedRules must map keywords to Degraded or Outage';
+  }
+  return null;
+}
 
-    if (!config.enabled || !config.instanceUrl) {
-      return bad(c, 'ServiceNow integration is not configured or enabled.');
+// ---------- Vendor rules (API_JSON) ----------
+const VENDOR_RULE_OPERATORS: VendorRuleOperator[] = ['equals', 'in', 'regex', 'gt', 'gte', 'lt', 'lte'];
+const RULE_STATUSES = ['Operational', 'Degraded', 'Outage'];
+
+// Values selected by a path such as "status.indicator", "components[0].status" or "components[*].status"
+// ("$." prefix optional). Wildcards fan out over arrays and object values.
+function selectJsonPath(data: unknown, path: string): unknown[] {
+  const segments = path.trim().replace(/^\$\.?/, '').replace(/\[(\d+|\*)\]/g, '.$1').split('.').filter(Boolean);
+  return segments.reduce<unknown[]>((values, segment) => values.flatMap((value) => {
+    if (value === null || typeof value !== 'object') return [];
+    if (segment === '*') return Object.values(value as Record<string, unknown>);
+    const next = (value as Record<string, unknown>)[segment];
+    return next === undefined ? [] : [next];
+  }), [data]);
+}
+
+function ruleMatches(rule: VendorRule, value: unknown): boolean {
+  if (value === null || typeof value === 'object') return false;
+  const actual = String(value).trim();
+  switch (rule.operator) {
+    case 'equals':
+      return actual.toLowerCase() === rule.value.trim().toLowerCase();
+    case 'in':
+      return csvToList(rule.value).map((v) => v.toLowerCase()).includes(actual.toLowerCase());
+    case 'regex':
+      return new RegExp(rule.value, 'i').test(actual);
+    default: {
+      const a = Number(actual);
+      const b = Number(rule.value);
+      if (actual === '' || Number.isNaN(a) || Number.isNaN(b)) return false;
+      return rule.operator === 'gt' ? a > b : rule.operator === 'gte' ? a >= b : rule.operator === 'lt' ? a < b : a <= b;
     }
+  }
+}
 
-    const username = c.env[config.usernameVar as keyof Env] as string | undefined;
-    const password = c.env[config.passwordVar as keyof Env] as string | undefined;
+// Vendors saved before rules existed carry a single jsonPath / expectedValue check
+function vendorRules(vendor: Pick<Vendor, 'rules' | 'jsonPath' | 'expectedValue'>): VendorRule[] {
+  if (vendor.rules?.length) return vendor.rules;
+  if (vendor.jsonPath && vendor.expectedValue) {
+    return [{ path: vendor.jsonPath, operator: 'in', value: vendor.expectedValue, status: 'Operational' }];
+  }
+  return [];
+}
 
-    if (!username || !password) {
-      return bad(c, 'ServiceNow credentials are not set in Worker secrets.');
+function evaluateVendorRules(vendor: Pick<Vendor, 'rules' | 'jsonPath' | 'expectedValue' | 'defaultStatus'>, json: unknown): VendorEvaluation {
+  const rules = vendorRules(vendor);
+  for (const [index, rule] of rules.entries()) {
+    const values = selectJsonPath(json, rule.path);
+    const matched = values.find((value) => ruleMatches(rule, value));
+    if (matched !== undefined) {
+      return { status: rule.status, incident: null, detail: `Rule ${index + 1} matched: ${rule.path} = ${String(matched)}` };
     }
+  }
+  const status = vendor.defaultStatus ?? 'Outage';
+  return { status, incident: null, detail: rules.length ? 'No rule matched; using the default status' : 'No rules configured' };
+}
 
-    // Normalize mapping (force 'type' for impact)
-    const { outageTable, fieldMapping: rawFieldMapping, impactLevelMapping } = config;
-    const fieldMapping = { ...rawFieldMapping, impactLevel: 'type' };
+function validateVendorRules(body: Partial<Vendor>): string | null {
+  if (body.statusType !== 'API_JSON') return null;
+  if (!isStr(body.apiUrl)) return 'apiUrl is required';
+  if (body.defaultStatus != null && !RULE_STATUSES.includes(body.defaultStatus)) {
+    return 'defaultStatus must be Operational, Degraded or Outage';
+  }
+  if (body.rules == null) return null;
+  if (!Array.isArray(body.rules)) return 'rules must be an array';
+  for (const [index, rule] of body.rules.entries()) {
+    const label = `Rule ${index + 1}`;
+    if (!isStr(rule?.path?.trim())) return `${label}: path is required`;
+    if (!VENDOR_RULE_OPERATORS.includes(rule.operator)) return `${label}: operator must be one of ${VENDOR_RULE_OPERATORS.join(', ')}`;
+    if (typeof rule.value !== 'string') return `${label}: value must be a string`;
+    if (!RULE_STATUSES.includes(rule.status)) return `${label}: status must be Operational, Degraded or Outage`;
+    if (rule.operator === 'regex') {
+      try {
+        new RegExp(rule.value, 'i');
+      } catch {
+        return `${label}: invalid regular expression`;
+      }
+    }
+    if (['gt', 'gte', 'lt', 'lte'].includes(rule.operator) && (rule.value.trim() === '' || Number.isNaN(Number(rule.value)))) {
+      return `${label}: value must be a number`;
+    }
+  }
+  return null;
+}
 
-    const impactMapping = new Map(
-      impactLevelMapping.map((item) => [item.servicenowValue.toLowerCase(), item.dashboardValue])
-    );
+// Status of one vendor; anything that stops us reading the source is Unknown rather than a guess
+async function evaluateVendor(vendor: Vendor): Promise<VendorEvaluation & { components?: VendorComponentStatus[] }> {
+  try {
+    if (isVendorProvider(vendor.statusType)) {
+      const summary = await VENDOR_PROVIDERS[vendor.statusType](vendor);
+      const { status, incident, components } = evaluateProviderSummary(vendor.statusType, vendor, summary);
+      const detail = components.length
+        ? `Worst of ${components.length} tracked component(s)`
+        : `Page indicator "${summary.overall}"`;
+      return { status, incident, detail, components };
+    }
+    if (vendor.statusType === 'FEED' && vendor.apiUrl) {
+      const entries = await fetchStatusFeed(vendor.apiUrl);
+      const { status, incident } = evaluateStatusFeed(vendor, entries, Date.now());
+      return { status, incident, detail: `${entries.length} feed entries read` };
+    }
+    if (vendor.statusType === 'API_JSON' && vendor.apiUrl) {
+      const response = await fetch(vendor.apiUrl, {
+        headers: { 'User-Agent': 'AegisDashboard/1.0' }
+      });
+      if (!response.ok) return { status: 'Unknown', incident: null, detail: `HTTP ${response.status} from the status API` };
+      let json: unknown;
+      try {
+        json = await response.json();
+      } catch {
+        return { status: 'Unknown', incident: null, detail: 'The status API did not return valid JSON' };
+      }
+      return evaluateVendorRules(vendor, json);
+    }
+  } catch (error: any) {
+    console.error(`Failed to fetch status for ${vendor.name}:`, error);
+    return { status: 'Unknown', incident: null, detail: `Could not read the status source: ${error?.message ?? error}` };
+  }
+  // MANUAL vendors (and incomplete configs) default to Operational
+  return { status: 'Operational', incident: null, detail: 'Manual vendor' };
+}
 
-    // define sevenDaysAgo (bug #1)
-    const sevenDaysAgo = format(subDays(new Date(), 7), 'yyyy-MM-dd HH:mm:ss');
-    const typeField = fieldMapping.impactLevel; // 'type'
+async function loadVendorStatuses(env: Env): Promise<FeedResult<VendorStatus[]>> {
+  const { items: vendors } = await VendorEntity.list(env);
+  const statuses = await Promise.all(vendors.map(async (vendor): Promise<VendorStatus> => {
+    const { status, incident, components } = await evaluateVendor(vendor);
+    return { id: vendor.id, name: vendor.name, url: vendor.url, status, incident, ...(components ? { components } : {}) };
+  }));
 
-    // Include ongoing (end empty) OR ended within last 7 days
-    const query = `${typeField}INoutage,degradation^${typeField}ISNOTEMPTY^endISEMPTY^ORend>=${sevenDaysAgo}`;
-    const encodedQuery = encodeURIComponent(query);
+  // Sort: Outage first, then Degraded, then Unknown, then Operational (alphabetically within each group)
+  const sortedStatuses = statuses.sort((a, b) => {
+    const statusOrder: Record<VendorStatusOption, number> = { Outage: 0, Degraded: 1, Unknown: 2, Operational: 3 };
+    const statusDiff = statusOrder[a.status] - statusOrder[b.status];
+    if (statusDiff !== 0) return statusDiff;
+    // Within same status, sort alphabetically by name
+    return a.name.localeCompare(b.name);
+  });
 
-    // build fields
-    const requestedFields = new Set<string>(['sys_id', 'number', ...Object.values(fieldMapping)]);
-    const fieldsParam = Array.from(requestedFields).join(',');
+  return { ok: true, data: sortedStatuses };
+}
 
-    const url =
-      `${config.instanceUrl}/api/now/table/${outageTable}` +
-      `?sysparm_display_value=true` +
-      `&sysparm_query=${encodedQuery}` +
-      `&sysparm_limit=200` +
-      `&sysparm_fields=${fieldsParam}` +
-      `&sysparm_orderby=begin`;
+// Open P1 tickets from the configured ServiceNow ticket table
+async function loadServiceNowTickets(env: Env): Promise<FeedResult<ServiceNowTicket[]>> {
+  const configEntity = new ServiceNowConfigEntity(env);
+  const config = await configEntity.getState();
 
-    try {
-      const request = new Request(url, {
-        headers: {
-          Authorization: 'Basic ' + btoa(`${username}:${password}`),
-          Accept: 'application/json',
-        },
-      });
+  if (!config.enabled || !config.instanceUrl) {
+    return { ok: false, error: 'ServiceNow integration is not configured or enabled.' };
+  }
 
-      const response = await fetch(request);
-      const { response: loggedResponse, data } = await logServiceNowInteraction('OutageHistory', request, response);
+  const username = env[config.usernameVar as keyof Env] as string | undefined;
+  const password = env[config.passwordVar as keyof Env] as string | undefined;
 
-      if (!loggedResponse.ok) {
-        console.error('OutageHistory failed:', loggedResponse.status);
-        return ok(c, []);
-      }
+  if (!username || !password) {
+    return { ok: false, error: 'ServiceNow credentials are not set in Worker secrets.' };
+  }
 
-      if (!data || !data.result) {
-        console.error('OutageHistory invalid data:', { data });
-        return ok(c, []);
-      }
+  const { ticketTable } = config;
+  const feedRequest = serviceNowFeedRequest(config, 'tickets');
+  const fullQuery = encodeURIComponent(feedRequest.query);
+  const url = `${config.instanceUrl}/api/now/table/${ticketTable}?sysparm_display_value=true&sysparm_query=${fullQuery}&sysparm_limit=${feedRequest.limit}&sysparm_fields=${feedRequest.fields.join(',')}`;
 
-      const outages: Outage[] = data.result
-        .filter((record: any) => {
-          const rawImpact = getProperty(record, fieldMapping.impactLevel);
-          return rawImpact && String(rawImpact).trim().length > 0;
-        })
-        .map((record: any) => {
-          const rawImpact = getProperty(record, fieldMapping.impactLevel);
-          const servicenowImpact = String(rawImpact || '').toLowerCase().trim();
-          const mappedImpact = impactMapping.get(servicenowImpact) || 'Degradation';
-
-          return {
-            id: record.number || record.sys_id,
-            systemName: getProperty(record, fieldMapping.systemName) || 'Unknown System',
-            impactLevel: mappedImpact as ImpactLevel,
-            startTime: safeParseDate(getProperty(record, fieldMapping.startTime)),
-            // use 'record' (bug #2) and return "Unknown" when no end
-            eta: (() => {
-              const rawEnd = getProperty(record, fieldMapping.eta);
-              if (!rawEnd || String(rawEnd).trim().length === 0) return 'Unknown';
-              return safeParseDate(rawEnd);
-            })(),
-            description: getProperty(record, fieldMapping.description) || 'No description provided.',
-            teamsBridgeUrl: getProperty(record, fieldMapping.teamsBridgeUrl) || null,
-          };
-        });
+  try {
+    const request = new Request(url, {
+      headers: {
+        'Authorization': 'Basic ' + btoa(`${username}:${password}`),
+        'Accept': 'application/json',
+      },
+    });
+
+    const response = await fetch(request);
+    const { response: loggedResponse, data } = await logServiceNowInteraction('ServiceNowTickets', request, response);
 
-      return ok(c, outages);
-    } catch (error) {
-      console.error('Error fetching outage history from ServiceNow:', error);
-      return ok(c, []);
+    if (!loggedResponse.ok) {
+      return { ok: false, error: `Failed to fetch tickets from ServiceNow: ${loggedResponse.statusText}` };
+    }
+
+    if (!data || !data.result) {
+      return { ok: false, error: 'Invalid response from ServiceNow' };
     }
-  });
 
+    const tickets: ServiceNowTicket[] = data.result.map((item: any) => mapServiceNowTicket(item, config));
 
-// — Change Control
-app.get('/api/changes/today', async (c) => {
-  const cfgEnt = new ServiceNowConfigEntity(c.env);
+    return { ok: true, data: tickets };
+  } catch (error) {
+    console.error('Error fetching tickets from ServiceNow:', error);
+    return { ok: false, error: 'An unexpected error occurred while fetching ServiceNow tickets.' };
+  }
+}
+
+// Map one ticket-table record to a dashboard ticket
+function mapServiceNowTicket(item: any, config: ServiceNowConfig): ServiceNowTicket {
+  const { ticketTable, ticketFieldMapping } = config;
+  return {
+    id: getProperty(item, ticketFieldMapping.id) || 'N/A',
+    summary: getProperty(item, ticketFieldMapping.summary) || 'No summary',
+    affectedCI: getProperty(item, ticketFieldMapping.affectedCI) || 'N/A',
+    status: (getProperty(item, ticketFieldMapping.status) as any) || 'New',
+    assignedTeam: getProperty(item, ticketFieldMapping.assignedTeam) || 'Unassigned',
+    ticketUrl: `${config.instanceUrl}/nav_to.do?uri=${ticketTable}.do?sys_id=${item.sys_id}`,
+  };
+}
+
+// Change requests whose window overlaps [from, to] (today when omitted)
+async function loadChanges(env: Env, range?: { from: Date; to: Date }): Promise<FeedResult<ScheduledChange[]>> {
+  const cfgEnt = new ServiceNowConfigEntity(env);
   const cfg = await cfgEnt.getState();
-  if (!cfg.enabled || !cfg.instanceUrl) return bad(c, 'ServiceNow not configured.');
-
-  const username = c.env[cfg.usernameVar as keyof Env] as string | undefined;
-  const password = c.env[cfg.passwordVar as keyof Env] as string | undefined;
-  if (!username || !password) return bad(c, 'ServiceNow creds missing.');
-
-  const table = cfg.changeTable ?? 'change_request';
-
-  // Field keys in your instance
-  const F = {
-    id: 'number',
-    summary: 'short_description',
-    state: 'state',
-    type: 'type',
-    start: 'start_date',
-    end: 'end_date',
-    plannedStart: 'planned_start_date',
-    plannedEnd: 'planned_end_date',
-    offering: 'service_offering',
-  } as const;
-
-  const fields = [
-    'sys_id',
-    F.id,
-    F.summary,
-    F.state,
-    F.type,
-    F.start,
-    F.end,
-    F.plannedStart,
-    F.plannedEnd,
-    F.offering,
-  ].join(',');
-
-  // "Today" windows (start OR end within today, OR overlap today), and restrict to desired states
-  const q =
-    // active + state restriction (include Scheduled -1, Implement 0, Review 1; keep -2 for sites that label it "Review")
-    `active=true^stateIN-2,-1,0,1^` +
-    // overlap via start/end
-    `${F.start}<=javascript:gs.endOfToday()^${F.end}>=javascript:gs.beginningOfToday()` +
-    // OR overlap via planned_* (records that only set planned_*)
-    `^NQactive=true^stateIN-2,-1,0,1^` +
-    `${F.plannedStart}<=javascript:gs.endOfToday()^${F.plannedEnd}>=javascript:gs.beginningOfToday()` +
-    // order by earliest concrete start, falls back to planned start
-    `^ORDERBY${F.start}^ORDERBY${F.plannedStart}`;
+  if (!cfg.enabled || !cfg.instanceUrl) return { ok: false, error: 'ServiceNow not configured.' };
+
+  const username = env[cfg.usernameVar as keyof Env] as string | undefined;
+  const password = env[cfg.passwordVar as keyof Env] as string | undefined;
+  if (!username || !password) return { ok: false, error: 'ServiceNow creds missing.' };
+
+  // Change columns (display_value=all returns { value, display_value } per field)
+  const F = cfg.changeFieldMapping;
+
+  // Configured filter (default: active + Scheduled/Implement/Review states) overlapping the range,
+  // via start/end OR planned_* (records that only set planned_*)
+  const toServiceNow = (d: Date) => d.toISOString().replace('T', ' ').slice(0, 19);
+  const feedRequest = serviceNowFeedRequest(cfg, 'changes', range && { from: toServiceNow(range.from), to: toServiceNow(range.to) });
 
   const url =
-    `${cfg.instanceUrl}/api/now/table/${table}` +
+    `${cfg.instanceUrl}/api/now/table/${feedRequest.table}` +
     `?sysparm_display_value=all` + // labels + raw values
-    `&sysparm_query=${encodeURIComponent(q)}` +
-    `&sysparm_fields=${encodeURIComponent(fields)}` +
-    `&sysparm_limit=200`;
+    `&sysparm_query=${encodeURIComponent(feedRequest.query)}` +
+    `&sysparm_fields=${encodeURIComponent(feedRequest.fields.join(','))}` +
+    `&sysparm_limit=${feedRequest.limit}`;
 
   // ---- helpers -------------------------------------------------------------
 
@@ -856,23 +1123,23 @@ app.get('/api/changes/today', async (c) => {
 
     const res = await fetch(req);
     const { response: loggedRes, data } =
-      await logServiceNowInteraction('ChangesToday', req, res);
+      await logServiceNowInteraction(range ? 'Changes' : 'ChangesToday', req, res);
 
     if (!loggedRes.ok) {
-      return bad(c, `ServiceNow error: ${loggedRes.statusText}`);
+      return { ok: false, error: `ServiceNow error: ${loggedRes.statusText}` };
     }
 
     const raw = (data?.result ?? []) as any[];
 
-    // Allow only these labels (exclude anything "cancel...")
-    const ALLOW = ['scheduled', 'implement', 'review'];
+    // Allow only the configured state labels (exclude anything "cancel...")
+    const allowed = cfg.changeAllowedStates.map((w) => w.toLowerCase());
 
     const out = raw
       .filter((r) => {
         const s = labelOf(r[F.state]).toLowerCase();
         if (!s) return false;
         if (s.includes('cancel')) return false;
-        return ALLOW.some((w) => s.startsWith(w) || s.includes(w));
+        return allowed.length === 0 || allowed.some((w) => s.includes(w));
       })
       .map((r) => {
         // prefer concrete start/end; fall back to planned_* if concrete is empty
@@ -888,8 +1155,10 @@ app.get('/api/changes/today', async (c) => {
 
         return {
           id: r[F.id]?.value ?? r[F.id] ?? r.sys_id,
+          sysId: String(sysId),
           number: labelOf(r[F.id]) || r.sys_id,
           offering: labelOf(r[F.offering]),
+          ci: labelOf(r[F.ci]) || null,
           title: labelOf(r[F.summary]) || 'Change',
           summary: labelOf(r[F.summary]) || 'Change',
           state: labelOf(r[F.state]),
@@ -899,15 +1168,3072 @@ app.get('/api/changes/today', async (c) => {
           windowStart: startISO,
           windowEnd: endISO,
           url: `${cfg.instanceUrl}/nav_to.do?uri=${encodeURIComponent(
-            `change_request.do?sys_id=${sysId}`
+            `${cfg.changeTable}.do?sys_id=${sysId}`
           )}`,
         };
       });
 
-    return ok(c, out);
+    return { ok: true, data: out };
   } catch (e) {
     console.error('SN changes today error:', e);
-    return bad(c, 'Unexpected error fetching ServiceNow changes.');
+    return { ok: false, error: 'Unexpected error fetching ServiceNow changes.' };
   }
-});
+}
+
+const loadChangesToday = (env: Env) => loadChanges(env);
+
+// Changes from today over CHANGE_CALENDAR_DAYS; the snapshot behind /api/changes/calendar.ics
+async function loadChangeCalendar(env: Env): Promise<FeedResult<ScheduledChange[]>> {
+  const from = startOfToday();
+  return loadChanges(env, { from, to: addDays(from, await changeCalendarDays({ env })) });
+}
+
+// ---------- iCalendar (RFC 5545) ----------
+const DEFAULT_CHANGE_CALENDAR_DAYS = 30;
+// Calendar clients poll often; they may reuse a response for this long
+const CHANGE_CALENDAR_MAX_AGE_S = 300;
+
+// Days covered by the cached calendar (KV > ENV > default)
+async function changeCalendarDays(c: any): Promise<number> {
+  const raw = await kvGetString(c, 'CHANGE_CALENDAR_DAYS', (c.env as any).CHANGE_CALENDAR_DAYS);
+  const n = parseInt(raw, 10);
+  return Number.isFinite(n) && n > 0 ? Math.min(n, MAX_CHANGE_RANGE_DAYS) : DEFAULT_CHANGE_CALENDAR_DAYS;
+}
+
+// TEXT value escaping (3.3.11)
+const icsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// UTC DATE-TIME form: 20240131T220000Z
+const icsDate = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Fold content lines longer than 75 octets (3.1), without splitting UTF-8 sequences
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    // Continuation lines start with a space, which counts toward their 75 octets
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// One VEVENT per change with a start; UIDs come from sys_id so clients update events in place
+function changesToIcs(changes: ScheduledChange[], calendarName: string): string {
+  const stamp = icsDate(Date.now());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Aegis Dashboard//Change Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(calendarName)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+  for (const change of changes) {
+    const start = change.start ? Date.parse(change.start) : NaN;
+    if (Number.isNaN(start)) continue;
+    const parsedEnd = change.end ? Date.parse(change.end) : NaN;
+    const end = Number.isNaN(parsedEnd) || parsedEnd <= start ? start + 3_600_000 : parsedEnd;
+    const description = [
+      change.summary,
+      `Offering: ${change.offering || '—'}`,
+      `Type: ${change.type || '—'}`,
+      `State: ${change.state || '—'}`,
+      change.ci ? `CI: ${change.ci}` : null,
+      change.url,
+    ].filter(Boolean).join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${change.sysId}@aegis-dashboard`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(start)}`,
+      `DTEND:${icsDate(end)}`,
+      `SUMMARY:${icsText(`${change.number} — ${change.title}`)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      `LOCATION:${icsText(change.offering || '')}`,
+      `CATEGORIES:${icsText(change.type || 'Change')}`,
+      `URL:${change.url}`,
+      'STATUS:CONFIRMED',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// ---------- Change collisions ----------
+const MAX_CHANGE_RANGE_DAYS = 92;
+
+// Window of a change or outage in epoch ms; open-ended windows run to +Infinity
+const windowOf = (start: string | null, end: string | null): [number, number] | null => {
+  const s = start ? Date.parse(start) : NaN;
+  if (Number.isNaN(s)) return null;
+  const e = end ? Date.parse(end) : NaN;
+  return [s, Number.isNaN(e) ? Infinity : e];
+};
+
+const overlap = (a: [number, number], b: [number, number]) => a[0] < b[1] && b[0] < a[1];
+
+const sameName = (a: string | null | undefined, b: string | null | undefined) =>
+  Boolean(a && b && a.trim().toLowerCase() === b.trim().toLowerCase());
+
+// Flag changes whose windows overlap another change on the same offering or CI, or an active
+// outage on the change's CI or offering (outage systemName is the CI name)
+function detectChangeConflicts(changes: ScheduledChange[], outages: Outage[]): ScheduledChange[] {
+  const windows = changes.map((ch) => windowOf(ch.start, ch.end));
+  return changes.map((change, i) => {
+    const own = windows[i];
+    if (!own) return { ...change, conflicts: [] };
+    const conflicts: ChangeConflict[] = [];
+    changes.forEach((other, j) => {
+      const theirs = windows[j];
+      if (j === i || !theirs || !overlap(own, theirs)) return;
+      if (sameName(change.offering, other.offering)) conflicts.push({ kind: 'offering', with: other.number });
+      else if (sameName(change.ci, other.ci)) conflicts.push({ kind: 'ci', with: other.number });
+    });
+    for (const outage of outages) {
+      const outageWindow = windowOf(outage.startTime, outage.eta === 'Unknown' ? null : outage.eta);
+      if (!outageWindow || !overlap(own, outageWindow)) continue;
+      if (sameName(outage.systemName, change.ci) || sameName(outage.systemName, change.offering)) {
+        conflicts.push({ kind: 'outage', with: outage.id });
+      }
+    }
+    return { ...change, conflicts };
+  });
+}
+
+// ---------- Outage detail ----------
+const OUTAGE_JOURNAL_LIMIT = 20;
+const OUTAGE_INCIDENT_LIMIT = 20;
+const OUTAGE_INCIDENT_LOOKBACK_DAYS = 7;
+
+// Call a Table API path ("<table>[/<sys_id>]?sysparm_...") with the configured credentials; returns `result`
+async function serviceNowTableRequest(
+  env: Env,
+  config: ServiceNowConfig,
+  endpoint: string,
+  path: string,
+  init: { method: 'GET' | 'POST' | 'PATCH'; body?: Record<string, string> } = { method: 'GET' }
+): Promise<FeedResult<any>> {
+  const username = env[config.usernameVar as keyof Env] as string | undefined;
+  const password = env[config.passwordVar as keyof Env] as string | undefined;
+  if (!username || !password) {
+    return { ok: false, error: 'ServiceNow credentials are not set in Worker secrets.' };
+  }
+  const headers: Record<string, string> = {
+    'Authorization': 'Basic ' + btoa(`${username}:${password}`),
+    'Accept': 'application/json',
+  };
+  if (init.body) headers['Content-Type'] = 'application/json';
+  const request = new Request(`${config.instanceUrl}/api/now/table/${path}`, {
+    method: init.method,
+    headers,
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  });
+  try {
+    const response = await fetch(request);
+    const { response: loggedResponse, data } = await logServiceNowInteraction(endpoint, request, response);
+    if (!loggedResponse.ok) {
+      const detail = data?.error?.message ? `: ${data.error.message}` : '';
+      return { ok: false, error: `ServiceNow returned ${loggedResponse.status} ${loggedResponse.statusText}${detail}` };
+    }
+    if (!data || data.result == null) {
+      return { ok: false, error: 'Invalid response from ServiceNow' };
+    }
+    return { ok: true, data: data.result };
+  } catch (err: any) {
+    return { ok: false, error: `Could not reach ServiceNow: ${err?.message ?? err}` };
+  }
+}
+
+async function serviceNowTableGet(env: Env, config: ServiceNowConfig, endpoint: string, path: string): Promise<FeedResult<any[]>> {
+  const result = await serviceNowTableRequest(env, config, endpoint, path);
+  if (result.ok && !Array.isArray(result.data)) return { ok: false, error: 'Invalid response from ServiceNow' };
+  return result;
+}
+
+// Reference field that ties a record to its CI: the first segment of a dot-walked mapping ("cmdb_ci.name")
+const ciReferenceField = (mapping: string) => (mapping.includes('.') ? mapping.split('.')[0] : 'cmdb_ci');
+
+// One outage (by number or sys_id) with its journal and the incidents on its CI; null when not found
+async function loadOutageDetail(env: Env, id: string): Promise<FeedResult<OutageDetail | null>> {
+  const config = await new ServiceNowConfigEntity(env).getState();
+  if (!config.enabled || !config.instanceUrl) {
+    return { ok: false, error: 'ServiceNow integration is not configured or enabled.' };
+  }
+
+  const { outageTable, ticketFieldMapping } = config;
+  const { fieldMapping, impactMapping } = outageMappings(config);
+  const ciField = ciReferenceField(fieldMapping.systemName);
+  const outageFields = ['sys_id', 'number', `${ciField}.sys_id`, `${ciField}.name`, ...Object.values(fieldMapping)].join(',');
+  const outageQuery = encodeURIComponent(`number=${id}^ORsys_id=${id}`);
+  const outageResult = await serviceNowTableGet(env, config, 'OutageDetail',
+    `${outageTable}?sysparm_display_value=true&sysparm_query=${outageQuery}&sysparm_limit=1&sysparm_fields=${outageFields}`);
+  if (!outageResult.ok) return outageResult;
+  const record = outageResult.data[0];
+  if (!record) return { ok: true, data: null };
+
+  const ciSysId = getProperty(record, `${ciField}.sys_id`);
+  const journalQuery = encodeURIComponent(`element_id=${record.sys_id}^elementINwork_notes,comments^ORDERBYDESCsys_created_on`);
+  const incidentQuery = encodeURIComponent(
+    `${ciReferenceField(ticketFieldMapping.affectedCI)}=${ciSysId}` +
+    `^active=true^ORopened_at>=javascript:gs.daysAgoStart(${OUTAGE_INCIDENT_LOOKBACK_DAYS})^ORDERBYDESCopened_at`
+  );
+  const [journalResult, incidentResult] = await Promise.all([
+    serviceNowTableGet(env, config, 'OutageJournal',
+      `sys_journal_field?sysparm_query=${journalQuery}&sysparm_limit=${OUTAGE_JOURNAL_LIMIT}&sysparm_fields=sys_id,element,value,sys_created_by,sys_created_on`),
+    ciSysId
+      ? serviceNowTableGet(env, config, 'OutageIncidents',
+        `${config.ticketTable}?sysparm_display_value=true&sysparm_query=${incidentQuery}&sysparm_limit=${OUTAGE_INCIDENT_LIMIT}&sysparm_fields=sys_id,${Object.values(ticketFieldMapping).join(',')}`)
+      : Promise.resolve<FeedResult<any[]>>({ ok: true, data: [] }),
+  ]);
+
+  const warnings: string[] = [];
+  if (!journalResult.ok) warnings.push(`Work notes: ${journalResult.error}`);
+  if (!incidentResult.ok) warnings.push(`Linked incidents: ${incidentResult.error}`);
+
+  const journal: OutageJournalEntry[] = (journalResult.ok ? journalResult.data : []).map((j) => ({
+    id: String(j.sys_id),
+    element: j.element === 'comments' ? 'comments' : 'work_notes',
+    value: String(j.value ?? ''),
+    createdBy: String(j.sys_created_by ?? ''),
+    // Raw (non-display) sys_created_on is "yyyy-MM-dd HH:mm:ss" in UTC
+    createdAt: safeParseDate(`${String(j.sys_created_on ?? '').replace(' ', 'T')}Z`),
+  }));
+
+  return {
+    ok: true,
+    data: {
+      outage: mapServiceNowOutage(record, fieldMapping, impactMapping),
+      recordUrl: `${config.instanceUrl}/nav_to.do?uri=${outageTable}.do?sys_id=${record.sys_id}`,
+      ciName: getProperty(record, `${ciField}.name`) || null,
+      journal,
+      incidents: (incidentResult.ok ? incidentResult.data : []).map((item) => mapServiceNowTicket(item, config)),
+      warnings,
+    },
+  };
+}
+
+// ---------- Outage writes ----------
+// Fields the dashboard can set on an outage; written through the inverse of the field/impact mappings
+type OutageWrite = Partial<Pick<Outage, 'systemName' | 'impactLevel' | 'startTime' | 'eta' | 'teamsBridgeUrl' | 'description'>> & {
+  resolved?: boolean;
+};
+
+// "yyyy-MM-dd HH:mm:ss" in UTC, the Table API's internal date-time format
+const toServiceNowDateTime = (iso: string) => new Date(iso).toISOString().replace('T', ' ').slice(0, 19);
+
+function validateOutageWrite(body: OutageWrite, creating: boolean): string | null {
+  if (creating && !isStr(body.systemName?.trim())) return 'systemName is required';
+  if (creating && !body.impactLevel) return 'impactLevel is required';
+  if (creating && !isStr(body.description?.trim())) return 'description is required';
+  if (body.systemName !== undefined && !isStr(body.systemName?.trim())) return 'systemName cannot be empty';
+  if (body.description !== undefined && !isStr(body.description?.trim())) return 'description cannot be empty';
+  if (body.impactLevel !== undefined && body.impactLevel !== 'Outage' && body.impactLevel !== 'Degradation') {
+    return 'impactLevel must be Outage or Degradation';
+  }
+  for (const key of ['startTime', 'eta'] as const) {
+    const value = body[key];
+    if (value != null && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) return `${key} must be an ISO date`;
+  }
+  if (body.eta && Date.parse(body.eta) <= Date.now()) return 'eta must be in the future (use resolved to end the outage)';
+  if (body.teamsBridgeUrl) {
+    try {
+      new URL(body.teamsBridgeUrl);
+    } catch {
+      return 'teamsBridgeUrl must be a valid URL';
+    }
+  }
+  if (body.resolved !== undefined && typeof body.resolved !== 'boolean') return 'resolved must be a boolean';
+  return null;
+}
+
+// Translate a dashboard write into outage-table fields. Dot-walked system names ("cmdb_ci.name")
+// are written to the reference field by looking up the CI's sys_id.
+async function outageWriteFields(env: Env, config: ServiceNowConfig, body: OutageWrite): Promise<FeedResult<Record<string, string>>> {
+  const { fieldMapping } = outageMappings(config);
+  const fields: Record<string, string> = {};
+  const set = (key: keyof ServiceNowConfig['fieldMapping'], value: string): string | null => {
+    const column = fieldMapping[key];
+    if (column.includes('.')) return `Field mapping for ${key} ("${column}") is dot-walked and cannot be written`;
+    fields[column] = value;
+    return null;
+  };
+
+  if (body.systemName !== undefined) {
+    const name = body.systemName.trim();
+    if (fieldMapping.systemName.includes('.')) {
+      const query = encodeURIComponent(`name=${name}`);
+      const lookup = await serviceNowTableGet(env, config, 'OutageCILookup', `cmdb_ci?sysparm_query=${query}&sysparm_fields=sys_id&sysparm_limit=1`);
+      if (!lookup.ok) return lookup;
+      if (!lookup.data[0]?.sys_id) return { ok: false, error: `Configuration item "${name}" was not found` };
+      fields[ciReferenceField(fieldMapping.systemName)] = String(lookup.data[0].sys_id);
+    } else {
+      fields[fieldMapping.systemName] = name;
+    }
+  }
+  if (body.impactLevel !== undefined) {
+    const mapped = config.impactLevelMapping.find((m) => m.dashboardValue === body.impactLevel);
+    if (!mapped) return { ok: false, error: `No ServiceNow value is mapped to impact level ${body.impactLevel}` };
+    fields[fieldMapping.impactLevel] = mapped.servicenowValue;
+  }
+  const errors = [
+    body.startTime ? set('startTime', toServiceNowDateTime(body.startTime)) : null,
+    body.description !== undefined ? set('description', body.description.trim()) : null,
+    body.teamsBridgeUrl !== undefined ? set('teamsBridgeUrl', body.teamsBridgeUrl?.trim() ?? '') : null,
+    // The ETA column doubles as the end time: a past value resolves the outage
+    body.resolved ? set('eta', toServiceNowDateTime(new Date().toISOString()))
+      : body.eta !== undefined ? set('eta', body.eta ? toServiceNowDateTime(body.eta) : '') : null,
+  ].filter(Boolean);
+  if (errors.length) return { ok: false, error: errors[0]! };
+  return { ok: true, data: fields };
+}
+
+// Create (no sysId) or update an outage record, then apply it to the active-outages snapshot
+async function writeOutage(env: Env, config: ServiceNowConfig, body: OutageWrite, sysId: string | null): Promise<FeedResult<Outage>> {
+  const { fieldMapping, impactMapping } = outageMappings(config);
+  const fields = await outageWriteFields(env, config, body);
+  if (!fields.ok) return fields;
+  if (!sysId && !fields.data[fieldMapping.startTime]) {
+    fields.data[fieldMapping.startTime] = toServiceNowDateTime(new Date().toISOString());
+  }
+
+  const returnFields = ['sys_id', 'number', 'active', ...Object.values(fieldMapping)].join(',');
+  const path = `${config.outageTable}${sysId ? `/${sysId}` : ''}?sysparm_display_value=true&sysparm_fields=${returnFields}`;
+  const result = await serviceNowTableRequest(env, config, sysId ? 'UpdateOutage' : 'CreateOutage', path, {
+    method: sysId ? 'PATCH' : 'POST',
+    body: fields.data,
+  });
+  if (!result.ok) return result;
+
+  const record = result.data;
+  const outage = mapServiceNowOutage(record, fieldMapping, impactMapping);
+  const isActive = !body.resolved && String(record.active ?? 'true') !== 'false';
+  await applyFeedUpdate<Outage>(env, 'outages', (current) => {
+    const rest = current.filter((o) => o.id !== outage.id);
+    return isActive ? [...rest, outage] : rest;
+  });
+  return { ok: true, data: outage };
+}
+
+// ---------- Persisted outage history ----------
+const MAX_HISTORY_RANGE_DAYS = 366;
+const HISTORY_SYNC_INTERVAL_MS = 60 * 60_000;
+
+// Update lifecycle records from one active-outage poll: upsert what is active, resolve what vanished
+async function recordOutageLifecycle(env: Env, previous: Outage[] | null, current: Outage[], at: string): Promise<void> {
+  const currentIds = new Set(current.map((o) => o.id));
+  const seenByMonth = new Map<string, Outage[]>();
+  const resolvedByMonth = new Map<string, string[]>();
+  for (const outage of current) {
+    const month = OutageHistoryEntity.monthOf(outage.startTime);
+    seenByMonth.set(month, [...(seenByMonth.get(month) ?? []), outage]);
+  }
+  for (const outage of previous ?? []) {
+    if (currentIds.has(outage.id)) continue;
+    const month = OutageHistoryEntity.monthOf(outage.startTime);
+    resolvedByMonth.set(month, [...(resolvedByMonth.get(month) ?? []), outage.id]);
+  }
+  for (const [month, outages] of seenByMonth) await new OutageHistoryEntity(env, month).recordSeen(outages, at);
+  for (const [month, ids] of resolvedByMonth) await new OutageHistoryEntity(env, month).recordResolved(ids, at);
+}
+
+// Parse from/to query params (ISO dates); returns an error message when invalid
+function parseHistoryRange(q: Record<string, string>, defaultDays: number): { from: Date; to: Date } | string {
+  const to = q.to ? new Date(q.to) : new Date();
+  const from = q.from ? new Date(q.from) : subDays(to, defaultDays);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) return 'from and to must be valid dates';
+  if (from > to) return 'from must be before to';
+  if (to.getTime() - from.getTime() > MAX_HISTORY_RANGE_DAYS * 86_400_000) {
+    return `Range cannot exceed ${MAX_HISTORY_RANGE_DAYS} days`;
+  }
+  return { from, to };
+}
+
+// Load every record whose start time falls within [from, to]
+async function loadOutageRecords(env: Env, from: Date, to: Date): Promise<OutageRecord[]> {
+  const months: string[] = [];
+  const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+  while (cursor <= to) {
+    months.push(OutageHistoryEntity.monthOf(cursor.toISOString()));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  const partitions = await Promise.all(months.map((m) => new OutageHistoryEntity(env, m).getState()));
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
+  return partitions
+    .flatMap((p) => p.records)
+    .filter((r) => r.startTime >= fromIso && r.startTime <= toIso)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+// Import ServiceNow outages that are ongoing or ended within the last `days` into persisted history.
+// Matches SN list filter: type IN (degradation,outage) AND (end is empty OR end on Last N days)
+async function syncOutageHistory(env: Env, days: number): Promise<FeedResult<number>> {
+  const syncEntity = new OutageHistorySyncEntity(env);
+  const finish = async (result: FeedResult<number>) => {
+    await syncEntity.save({
+      id: OutageHistorySyncEntity.singletonId,
+      lastSyncedAt: new Date().toISOString(),
+      lastError: result.ok ? null : result.error,
+      imported: result.ok ? result.data : 0,
+    });
+    return result;
+  };
+
+  const config = await new ServiceNowConfigEntity(env).getState();
+  if (!config.enabled || !config.instanceUrl) {
+    return finish({ ok: false, error: 'ServiceNow integration is not configured or enabled.' });
+  }
+
+  const username = env[config.usernameVar as keyof Env] as string | undefined;
+  const password = env[config.passwordVar as keyof Env] as string | undefined;
+
+  if (!username || !password) {
+    return finish({ ok: false, error: 'ServiceNow credentials are not set in Worker secrets.' });
+  }
+
+  // Normalize mapping (force 'type' for impact)
+  const { outageTable } = config;
+  const { fieldMapping, impactMapping } = outageMappings(config);
+
+  const since = format(subDays(new Date(), days), 'yyyy-MM-dd HH:mm:ss');
+
+  // Configured filter, including ongoing (end empty) OR ended within the window
+  const feedRequest = serviceNowFeedRequest(config, 'history', { from: since });
+  const encodedQuery = encodeURIComponent(feedRequest.query);
+  const fieldsParam = Array.from(new Set(feedRequest.fields)).join(',');
+
+  const pageLimit = feedRequest.limit;
+  const now = new Date().toISOString();
+  const records: OutageRecord[] = [];
+
+  try {
+    // Page through results (bounded) so a 90-day backfill isn't cut off at one page
+    for (let offset = 0; offset < pageLimit * 10; offset += pageLimit) {
+      const url =
+        `${config.instanceUrl}/api/now/table/${outageTable}` +
+        `?sysparm_display_value=true` +
+        `&sysparm_query=${encodedQuery}` +
+        `&sysparm_limit=${pageLimit}` +
+        `&sysparm_offset=${offset}` +
+        `&sysparm_fields=${fieldsParam}`;
+
+      const request = new Request(url, {
+        headers: {
+          Authorization: 'Basic ' + btoa(`${username}:${password}`),
+          Accept: 'application/json',
+        },
+      });
+
+      const response = await fetch(request);
+      const { response: loggedResponse, data } = await logServiceNowInteraction('OutageHistory', request, response);
+
+      if (!loggedResponse.ok) {
+        console.error('OutageHistory failed:', loggedResponse.status);
+        return finish({ ok: false, error: `Failed to fetch outage history from ServiceNow: ${loggedResponse.statusText}` });
+      }
+
+      if (!data || !data.result) {
+        console.error('OutageHistory invalid data:', { data });
+        return finish({ ok: false, error: 'Invalid response from ServiceNow' });
+      }
+
+      for (const record of data.result as any[]) {
+        const rawImpact = getProperty(record, fieldMapping.impactLevel);
+        if (!rawImpact || String(rawImpact).trim().length === 0) continue;
+        const servicenowImpact = String(rawImpact).toLowerCase().trim();
+        const mappedImpact = impactMapping.get(servicenowImpact) || 'Degradation';
+
+        const startTime = safeParseDate(getProperty(record, fieldMapping.startTime));
+        const rawEnd = getProperty(record, fieldMapping.eta);
+        const end = rawEnd && String(rawEnd).trim().length > 0 ? safeParseDate(rawEnd) : null;
+        // 'end' holds the ETA while an outage is ongoing; only a past end is a resolution time
+        const resolvedAt = end && end <= now ? end : null;
+
+        records.push({
+          id: record.number || record.sys_id,
+          systemName: getProperty(record, fieldMapping.systemName) || 'Unknown System',
+          impactLevel: mappedImpact as ImpactLevel,
+          startTime,
+          eta: end ?? 'Unknown',
+          description: getProperty(record, fieldMapping.description) || 'No description provided.',
+          teamsBridgeUrl: getProperty(record, fieldMapping.teamsBridgeUrl) || null,
+          firstSeen: startTime,
+          lastSeen: resolvedAt ?? now,
+          resolvedAt,
+          impactChanges: [],
+        });
+      }
+
+      if (data.result.length < pageLimit) break;
+    }
+
+    const byMonth = new Map<string, OutageRecord[]>();
+    for (const record of records) {
+      const month = OutageHistoryEntity.monthOf(record.startTime);
+      byMonth.set(month, [...(byMonth.get(month) ?? []), record]);
+    }
+    for (const [month, list] of byMonth) await new OutageHistoryEntity(env, month).mergeSynced(list);
+
+    return finish({ ok: true, data: records.length });
+  } catch (error) {
+    console.error('Error syncing outage history from ServiceNow:', error);
+    return finish({ ok: false, error: 'An unexpected error occurred while syncing outage history.' });
+  }
+}
+
+// ---------- Outage analytics ----------
+// Outages that started this long before `from` can still contribute downtime inside the range
+const ANALYTICS_LOOKBACK_DAYS = 31;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Metrics for one system over [start, end): downtime is the union of outage windows (ongoing ones run to `now`)
+function availabilityMetrics(records: OutageRecord[], start: number, end: number, now: number): AvailabilityMetrics {
+  const period = Math.max(0, end - start);
+  const windows = records
+    .map((r) => [Math.max(Date.parse(r.startTime), start), Math.min(r.resolvedAt ? Date.parse(r.resolvedAt) : now, end)])
+    .filter(([s, e]) => e > s)
+    .sort((a, b) => a[0] - b[0]);
+
+  let downtime = 0;
+  let [curStart, curEnd] = [NaN, NaN];
+  for (const [s, e] of windows) {
+    if (isNaN(curStart) || s > curEnd) {
+      if (!isNaN(curStart)) downtime += curEnd - curStart;
+      [curStart, curEnd] = [s, e];
+    } else {
+      curEnd = Math.max(curEnd, e);
+    }
+  }
+  if (!isNaN(curStart)) downtime += curEnd - curStart;
+
+  const started = records.filter((r) => {
+    const t = Date.parse(r.startTime);
+    return t >= start && t < end;
+  });
+  const restored = started.filter((r) => r.resolvedAt && Date.parse(r.resolvedAt) >= Date.parse(r.startTime));
+  const restoreMs = restored.reduce((sum, r) => sum + (Date.parse(r.resolvedAt!) - Date.parse(r.startTime)), 0);
+
+  return {
+    outages: started.length,
+    downtimeMinutes: round(downtime / 60_000, 1),
+    mttrMinutes: restored.length ? round(restoreMs / restored.length / 60_000, 1) : null,
+    mtbfMinutes: started.length ? round((period - downtime) / started.length / 60_000, 1) : null,
+    availability: period ? round((1 - downtime / period) * 100, 3) : 100,
+  };
+}
+
+async function buildAvailabilityReport(env: Env, from: Date, to: Date, impact: ImpactLevel[]): Promise<AvailabilityReport> {
+  const now = Date.now();
+  // Time after "now" is neither uptime nor downtime yet
+  const end = Math.min(to.getTime(), now);
+  const start = Math.min(from.getTime(), end);
+
+  const records = (await loadOutageRecords(env, subDays(from, ANALYTICS_LOOKBACK_DAYS), to)).filter(
+    (r) => impact.includes(r.impactLevel) && (r.resolvedAt ? Date.parse(r.resolvedAt) : now) > start
+  );
+
+  const bySystem = new Map<string, OutageRecord[]>();
+  for (const record of records) {
+    const name = (record.systemName || 'Unknown System').trim();
+    bySystem.set(name, [...(bySystem.get(name) ?? []), record]);
+  }
+
+  // Calendar months (UTC) overlapping the range, clipped to it
+  const months: { month: string; start: number; end: number }[] = [];
+  const cursor = new Date(Date.UTC(new Date(start).getUTCFullYear(), new Date(start).getUTCMonth(), 1));
+  while (cursor.getTime() < end) {
+    const monthStart = cursor.getTime();
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    months.push({
+      month: OutageHistoryEntity.monthOf(new Date(monthStart).toISOString()),
+      start: Math.max(monthStart, start),
+      end: Math.min(cursor.getTime(), end),
+    });
+  }
+
+  const systems: SystemAvailability[] = Array.from(bySystem, ([systemName, list]) => ({
+    systemName,
+    ...availabilityMetrics(list, start, end, now),
+    months: months.map((m) => ({ month: m.month, ...availabilityMetrics(list, m.start, m.end, now) })),
+  }))
+    .filter((s) => s.downtimeMinutes > 0 || s.outages > 0)
+    .sort((a, b) => a.availability - b.availability || a.systemName.localeCompare(b.systemName));
+
+  return { from: from.toISOString(), to: to.toISOString(), impact, systems };
+}
+
+// ---------- Outbound notifications ----------
+const DEFAULT_UNACKNOWLEDGED_MINUTES = 15;
+const NOTIFICATION_TIMEOUT_MS = 5_000;
+
+// What gets sent to a channel
+type NotificationMessage = {
+  ruleType: NotificationDelivery['ruleType'];
+  dedupeKey: string; // Same key = same event; a channel is notified once per key
+  title: string;
+  text: string;
+  critical: boolean;
+  url: string | null;
+  event: unknown;
+};
+
+// Something that may be worth telling a channel about; channels decide via their rules
+type NotificationCandidate = NotificationMessage & {
+  ruleType: NotificationRuleType;
+  subject: string; // System / vendor name matched against rule.systemPattern
+  impactLevel?: ImpactLevel;
+  ageMinutes?: number;
+};
+
+function outageDedupeKeys(id: string): string[] {
+  return [`outage:${id}:Outage`, `outage:${id}:Degradation`];
+}
+
+// Map stream events to notification candidates, plus dedupe keys to release on recovery
+function notificationsForEvents(events: DashboardEventBody[]): { candidates: NotificationCandidate[]; released: string[] } {
+  const candidates: NotificationCandidate[] = [];
+  const released: string[] = [];
+  for (const event of events) {
+    switch (event.type) {
+      case 'outage.added':
+      case 'outage.updated': {
+        const { outage } = event;
+        candidates.push({
+          ruleType: 'OUTAGE_IMPACT',
+          dedupeKey: `outage:${outage.id}:${outage.impactLevel}`,
+          subject: outage.systemName,
+          impactLevel: outage.impactLevel,
+          title: `${outage.impactLevel}: ${outage.systemName}`,
+          text: `${outage.description}\nStarted ${outage.startTime}${outage.eta ? `, ETA ${outage.eta}` : ''}`,
+          critical: outage.impactLevel === 'Outage',
+          url: outage.teamsBridgeUrl,
+          event,
+        });
+        break;
+      }
+      case 'outage.resolved':
+        released.push(...outageDedupeKeys(event.id));
+        break;
+      case 'vendor.status':
+        if (event.vendor.status === 'Outage') {
+          candidates.push({
+            ruleType: 'VENDOR_OUTAGE',
+            dedupeKey: `vendor:${event.vendor.id}:Outage`,
+            subject: event.vendor.name,
+            title: `Vendor outage: ${event.vendor.name}`,
+            text: `${event.vendor.name} changed from ${event.previous} to Outage.`,
+            critical: true,
+            url: event.vendor.url || null,
+            event,
+          });
+        } else {
+          released.push(`vendor:${event.vendor.id}:Outage`);
+        }
+        break;
+      case 'alert.acknowledged':
+        released.push(`alert:${event.alert.id}:unacknowledged`);
+        break;
+      case 'alert.cleared':
+        released.push(`alert:${event.id}:unacknowledged`);
+        break;
+    }
+  }
+  return { candidates, released };
+}
+
+function matchesRule(rule: NotificationRule, candidate: NotificationCandidate): boolean {
+  if (rule.type !== candidate.ruleType) return false;
+  if (rule.systemPattern) {
+    try {
+      if (!new RegExp(rule.systemPattern, 'i').test(candidate.subject)) return false;
+    } catch {
+      return false;
+    }
+  }
+  if (rule.type === 'OUTAGE_IMPACT') {
+    const levels = rule.impactLevels?.length ? rule.impactLevels : ['Outage'];
+    return !!candidate.impactLevel && levels.includes(candidate.impactLevel);
+  }
+  if (rule.type === 'ALERT_UNACKNOWLEDGED') {
+    return (candidate.ageMinutes ?? 0) >= (rule.minutes ?? DEFAULT_UNACKNOWLEDGED_MINUTES);
+  }
+  return true;
+}
+
+// Channel-specific request body: Teams adaptive card, Slack mrkdwn, or the raw candidate as JSON
+function notificationPayload(type: NotificationChannelType, n: NotificationMessage): unknown {
+  if (type === 'TEAMS') {
+    return {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body: [
+            { type: 'TextBlock', text: n.title, weight: 'Bolder', size: 'Medium', color: n.critical ? 'Attention' : 'Warning', wrap: true },
+            { type: 'TextBlock', text: n.text, wrap: true },
+          ],
+          actions: n.url ? [{ type: 'Action.OpenUrl', title: 'Open', url: n.url }] : [],
+        },
+      }],
+    };
+  }
+  if (type === 'SLACK') {
+    return { text: `${n.critical ? ':red_circle:' : ':large_yellow_circle:'} *${n.title}*\n${n.text}${n.url ? `\n<${n.url}|Open>` : ''}` };
+  }
+  return {
+    ruleType: n.ruleType,
+    dedupeKey: n.dedupeKey,
+    title: n.title,
+    text: n.text,
+    critical: n.critical,
+    url: n.url,
+    event: n.event,
+    sentAt: new Date().toISOString(),
+  };
+}
+
+async function deliverNotification(channel: NotificationChannel, n: NotificationMessage): Promise<NotificationDelivery> {
+  const delivery: NotificationDelivery = {
+    id: crypto.randomUUID(),
+    channelId: channel.id,
+    channelName: channel.name,
+    ruleType: n.ruleType,
+    dedupeKey: n.dedupeKey,
+    title: n.title,
+    status: 'sent',
+    httpStatus: null,
+    error: null,
+    at: new Date().toISOString(),
+  };
+  try {
+    const res = await fetch(channel.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notificationPayload(channel.type, n)),
+      signal: AbortSignal.timeout(NOTIFICATION_TIMEOUT_MS),
+    });
+    delivery.httpStatus = res.status;
+    if (!res.ok) {
+      delivery.status = 'failed';
+      delivery.error = `HTTP ${res.status}: ${(await res.text().catch(() => '')).slice(0, 200)}`;
+    }
+  } catch (err: any) {
+    delivery.status = 'failed';
+    delivery.error = err?.name === 'TimeoutError' ? `Timed out after ${NOTIFICATION_TIMEOUT_MS}ms` : String(err?.message ?? err);
+  }
+  return delivery;
+}
+
+// Send each candidate to every enabled channel with a matching rule: once per dedupe key, within the rate limit
+async function dispatchNotifications(env: Env, candidates: NotificationCandidate[], released: string[] = []): Promise<void> {
+  const log = new NotificationLogEntity(env);
+  await log.release(released);
+  if (candidates.length === 0) return;
+
+  const { items: channels } = await NotificationChannelEntity.list(env);
+  const deliveries: NotificationDelivery[] = [];
+  for (const channel of channels.filter((ch) => ch.enabled)) {
+    const matching = candidates.filter((cand) => channel.rules.some((rule) => matchesRule(rule, cand)));
+    const claimed = new Set(await log.claim(matching.map((m) => `${channel.id}|${m.dedupeKey}`)));
+    if (claimed.size === 0) continue;
+
+    const hourAgo = Date.now() - 60 * 60_000;
+    let sentLastHour = (await log.getState()).deliveries.filter(
+      (d) => d.channelId === channel.id && d.status === 'sent' && Date.parse(d.at) >= hourAgo
+    ).length;
+
+    for (const candidate of matching) {
+      if (!claimed.has(`${channel.id}|${candidate.dedupeKey}`)) continue;
+      if (sentLastHour >= channel.rateLimitPerHour) {
+        deliveries.push({
+          id: crypto.randomUUID(),
+          channelId: channel.id,
+          channelName: channel.name,
+          ruleType: candidate.ruleType,
+          dedupeKey: candidate.dedupeKey,
+          title: candidate.title,
+          status: 'rate-limited',
+          httpStatus: null,
+          error: `More than ${channel.rateLimitPerHour} notifications in the last hour`,
+          at: new Date().toISOString(),
+        });
+        continue;
+      }
+      const delivery = await deliverNotification(channel, candidate);
+      if (delivery.status === 'sent') sentLastHour++;
+      deliveries.push(delivery);
+    }
+  }
+  await log.record(deliveries);
+  for (const d of deliveries) {
+    console.log(JSON.stringify({ type: 'Notification', channel: d.channelName, key: d.dedupeKey, status: d.status, error: d.error }));
+  }
+}
+
+// Time-based rule: alerts still unacknowledged after a rule's threshold (checked on each cron tick)
+async function notifyUnacknowledgedAlerts(env: Env): Promise<void> {
+  const { data } = await new FeedSnapshotEntity(env, 'alerts').getState();
+  if (!Array.isArray(data)) return;
+  const now = Date.now();
+  const candidates: NotificationCandidate[] = (data as MonitoringAlert[])
+    .filter((a) => !a.validated)
+    .map((alert) => ({
+      ruleType: 'ALERT_UNACKNOWLEDGED' as const,
+      dedupeKey: `alert:${alert.id}:unacknowledged`,
+      subject: alert.affectedSystem,
+      ageMinutes: (now - Date.parse(alert.timestamp)) / 60_000,
+      title: `Unacknowledged ${alert.severity} alert: ${alert.affectedSystem}`,
+      text: `${alert.type} on ${alert.affectedSystem} has not been acknowledged since ${alert.timestamp}.`,
+      critical: alert.severity === 'Critical',
+      url: null,
+      event: { type: 'alert.unacknowledged', alert },
+    }));
+  await dispatchNotifications(env, candidates);
+}
+
+// ---------- Scheduled polling + cached snapshots ----------
+const FEED_LOADERS: Record<IntegrationFeed, (env: Env) => Promise<FeedResult<unknown>>> = {
+  outages: loadActiveOutages,
+  alerts: loadMonitoringAlerts,
+  vendors: loadVendorStatuses,
+  tickets: loadServiceNowTickets,
+  changes: loadChangesToday,
+  'change-calendar': loadChangeCalendar,
+};
+
+const DEFAULT_POLL_INTERVAL_MINUTES = 2;
+
+// Poll cadence in minutes (KV > ENV > default)
+async function pollIntervalMinutes(c: any): Promise<number> {
+  const raw = await kvGetString(c, 'POLL_INTERVAL_MINUTES', (c.env as any).POLL_INTERVAL_MINUTES);
+  const n = parseInt(raw, 10);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_POLL_INTERVAL_MINUTES;
+}
+
+// Compare two snapshots of the same feed and describe what changed for /api/stream
+function diffFeed(feed: IntegrationFeed, previous: unknown, next: unknown): DashboardEventBody[] {
+  if (!Array.isArray(previous) || !Array.isArray(next)) return [];
+  const events: DashboardEventBody[] = [];
+  if (feed === 'outages') {
+    const before = new Map((previous as Outage[]).map((o) => [o.id, o]));
+    const after = new Map((next as Outage[]).map((o) => [o.id, o]));
+    for (const [id, outage] of after) {
+      const prev = before.get(id);
+      if (!prev) events.push({ type: 'outage.added', outage });
+      else if (prev.impactLevel !== outage.impactLevel || prev.eta !== outage.eta || prev.description !== outage.description) {
+        events.push({ type: 'outage.updated', outage });
+      }
+    }
+    for (const id of before.keys()) if (!after.has(id)) events.push({ type: 'outage.resolved', id });
+  } else if (feed === 'alerts') {
+    const before = new Map((previous as MonitoringAlert[]).map((a) => [a.id, a]));
+    const after = new Map((next as MonitoringAlert[]).map((a) => [a.id, a]));
+    for (const [id, alert] of after) {
+      const prev = before.get(id);
+      if (!prev) events.push({ type: 'alert.triggered', alert });
+      else if (!prev.validated && alert.validated) events.push({ type: 'alert.acknowledged', alert });
+    }
+    for (const id of before.keys()) if (!after.has(id)) events.push({ type: 'alert.cleared', id });
+  } else if (feed === 'vendors') {
+    const before = new Map((previous as VendorStatus[]).map((v) => [v.id, v]));
+    for (const vendor of next as VendorStatus[]) {
+      const prev = before.get(vendor.id);
+      if (prev && prev.status !== vendor.status) {
+        events.push({ type: 'vendor.status', vendor, previous: prev.status });
+      }
+    }
+  }
+  return events;
+}
+
+// Run one live fetch and persist the result as the feed's snapshot
+async function refreshFeed(env: Env, feed: IntegrationFeed): Promise<FeedSnapshot> {
+  const entity = new FeedSnapshotEntity(env, feed);
+  const previous = await entity.getState();
+  const fetchedAt = new Date().toISOString();
+  let snapshot: FeedSnapshot;
+  try {
+    const result = await FEED_LOADERS[feed](env);
+    // A failed poll keeps the last good data as the baseline for the next diff
+    snapshot = result.ok
+      ? { id: feed, data: result.data, fetchedAt, error: null }
+      : { id: feed, data: previous.data, fetchedAt, error: result.error };
+  } catch (err: any) {
+    console.error(`Unexpected error refreshing ${feed} feed:`, err);
+    snapshot = { id: feed, data: previous.data, fetchedAt, error: `Unexpected error fetching ${feed}.` };
+  }
+  await entity.save(snapshot);
+  if (snapshot.error) return snapshot;
+  await publishFeedChanges(env, feed, previous.data, snapshot.data, fetchedAt);
+  return snapshot;
+}
+
+// Everything that follows a change in a feed's stored data (poll or inbound webhook):
+// outage lifecycle history, stream events and notifications
+async function publishFeedChanges(env: Env, feed: IntegrationFeed, previous: unknown, next: unknown, at: string): Promise<void> {
+  if (feed === 'outages') {
+    await recordOutageLifecycle(env, previous as Outage[] | null, next as Outage[], at);
+  }
+  // No baseline (first poll): nothing meaningful to diff
+  const events = diffFeed(feed, previous, next);
+  await new DashboardEventLogEntity(env).append(events);
+  if (feed === 'vendors') {
+    await new VendorStatusHistoryEntity(env).record(events.flatMap((e): VendorStatusTransition[] => e.type === 'vendor.status'
+      ? [{ vendorId: e.vendor.id, name: e.vendor.name, url: e.vendor.url, from: e.previous, to: e.vendor.status, at }]
+      : []));
+  }
+  try {
+    const { candidates, released } = notificationsForEvents(events);
+    await dispatchNotifications(env, candidates, released);
+  } catch (err) {
+    console.error('Notification dispatch failed:', err);
+  }
+}
+
+// Mark cached snapshots stale after a config/vendor change so the next read fetches live.
+// The data is kept as the diff baseline for /api/stream.
+async function invalidateFeeds(env: Env, feeds: IntegrationFeed[]): Promise<void> {
+  await Promise.all(feeds.map((feed) => new FeedSnapshotEntity(env, feed).patch({ fetchedAt: null })));
+}
+
+// A feed's snapshot, fetched live when `fresh` is set or the snapshot is missing or stale.
+// A snapshot older than 3 poll intervals is treated as stale so a stalled cron never pins old data.
+async function feedSnapshot(c: any, feed: IntegrationFeed, fresh: boolean): Promise<FeedSnapshot> {
+  let snapshot: FeedSnapshot | null = null;
+  if (!fresh) {
+    const cached = await new FeedSnapshotEntity(c.env, feed).getState();
+    const maxAgeMs = (await pollIntervalMinutes(c)) * 3 * 60_000;
+    if (cached.fetchedAt && Date.now() - Date.parse(cached.fetchedAt) <= maxAgeMs) {
+      snapshot = cached;
+    }
+  }
+  c.header('X-Data-Source', snapshot ? 'snapshot' : 'live');
+  if (!snapshot) snapshot = await refreshFeed(c.env, feed);
+  c.header('X-Fetched-At', snapshot.fetchedAt ?? '');
+  return snapshot;
+}
+
+// Serve a feed from its snapshot; `?fresh=1` forces a live fetch
+async function serveFeed(c: any, feed: IntegrationFeed) {
+  const snapshot = await feedSnapshot(c, feed, c.req.query('fresh') === '1');
+  if (snapshot.error) return bad(c, snapshot.error);
+  return ok(c, snapshot.data);
+}
+
+// /api/stream: how often each connection checks the event log, and how long it stays open
+const STREAM_POLL_MS = 2_000;
+const STREAM_LIFETIME_MS = 120_000;
+
+/**
+ * Cron entry point: refresh every feed whose snapshot is older than the configured cadence.
+ * The trigger fires every minute; 30s of slack keeps a 1-minute cadence from skipping ticks.
+ */
+export async function runScheduledPoll(env: Env): Promise<void> {
+  const intervalMs = (await pollIntervalMinutes({ env })) * 60_000;
+  const feeds = Object.keys(FEED_LOADERS) as IntegrationFeed[];
+  await Promise.all(feeds.map(async (feed) => {
+    const current = await new FeedSnapshotEntity(env, feed).getState();
+    const age = current.fetchedAt ? Date.now() - Date.parse(current.fetchedAt) : Infinity;
+    if (age < intervalMs - 30_000) return;
+    const next = await refreshFeed(env, feed);
+    console.log(JSON.stringify({ type: 'ScheduledPoll', feed, fetchedAt: next.fetchedAt, error: next.error }));
+  }));
+
+  try {
+    await notifyUnacknowledgedAlerts(env);
+  } catch (err) {
+    console.error('Unacknowledged alert check failed:', err);
+  }
+
+  // Hourly import of recently ended outages so records get ServiceNow's own end times
+  const sync = await new OutageHistorySyncEntity(env).getState();
+  if (!sync.lastSyncedAt || Date.now() - Date.parse(sync.lastSyncedAt) >= HISTORY_SYNC_INTERVAL_MS) {
+    const result = await syncOutageHistory(env, 7);
+    console.log(JSON.stringify({ type: 'ScheduledHistorySync', ok: result.ok, result: result.ok ? result.data : result.error }));
+  }
+}
+
+// ---------- Inbound webhooks ----------
+// Worker secrets holding each sender's shared secret (also the HMAC key)
+const INGEST_SECRET_VARS: Record<IngestSource, string> = {
+  servicenow: 'SERVICENOW_WEBHOOK_SECRET',
+  solarwinds: 'SOLARWINDS_WEBHOOK_SECRET',
+};
+
+type IngestFailure = { status: 400 | 401 | 503; reason: string };
+
+// Compare without short-circuiting so timing doesn't leak how much of a secret matched
+function timingSafeEqual(a: string, b: string): boolean {
+  const enc = new TextEncoder();
+  const x = enc.encode(a);
+  const y = enc.encode(b);
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < Math.max(x.length, y.length); i++) diff |= (x[i] ?? 0) ^ (y[i] ?? 0);
+  return diff === 0;
+}
+
+async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const sig = await crypto.subtle.sign('HMAC', key, enc.encode(body));
+  return Array.from(new Uint8Array(sig), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Accepts `X-Signature: sha256=<hex HMAC-SHA256 of the raw body>`, or the shared secret itself
+// in `X-Webhook-Secret` / `Authorization: Bearer` (for senders that can't sign)
+async function authenticateIngest(c: any, source: IngestSource, rawBody: string): Promise<IngestFailure | null> {
+  const secretVar = INGEST_SECRET_VARS[source];
+  const secret = (c.env as any)[secretVar] as string | undefined;
+  if (!secret) return { status: 503, reason: `Ingest secret ${secretVar} is not configured` };
+
+  const signature = c.req.header('X-Signature');
+  if (signature) {
+    const expected = `sha256=${await hmacSha256Hex(secret, rawBody)}`;
+    return timingSafeEqual(signature.trim().toLowerCase(), expected) ? null : { status: 401, reason: 'Invalid signature' };
+  }
+  const bearer = c.req.header('Authorization')?.replace(/^Bearer\s+/i, '');
+  const provided = c.req.header('X-Webhook-Secret') ?? bearer;
+  if (!provided) return { status: 401, reason: 'Missing X-Signature or shared secret' };
+  return timingSafeEqual(provided, secret) ? null : { status: 401, reason: 'Invalid shared secret' };
+}
+
+async function rejectIngest(c: any, source: IngestSource, failure: IngestFailure, rawBody: string) {
+  const rejection: IngestRejection = {
+    id: crypto.randomUUID(),
+    source,
+    status: failure.status,
+    reason: failure.reason,
+    payloadExcerpt: rawBody.slice(0, 500),
+    at: new Date().toISOString(),
+  };
+  console.warn(JSON.stringify({ type: 'IngestRejected', source, status: failure.status, reason: failure.reason }));
+  await new IngestLogEntity(c.env).reject(rejection);
+  return c.json({ success: false, error: failure.reason }, failure.status);
+}
+
+// Authenticate and parse an inbound webhook; returns the JSON payload or the failure to reject with
+async function readIngest(c: any, source: IngestSource, rawBody: string): Promise<{ payload: any } | IngestFailure> {
+  const authFailure = await authenticateIngest(c, source, rawBody);
+  if (authFailure) return authFailure;
+  try {
+    const payload = JSON.parse(rawBody);
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return { status: 400, reason: 'Payload must be a JSON object' };
+    }
+    return { payload };
+  } catch {
+    return { status: 400, reason: 'Body is not valid JSON' };
+  }
+}
+
+// Apply a webhook change to a feed's stored snapshot right away; the next poll reconciles
+async function applyFeedUpdate<T>(env: Env, feed: IntegrationFeed, update: (current: T[]) => T[]): Promise<{ previous: T[]; next: T[] }> {
+  let previous: T[] = [];
+  let next: T[] = [];
+  await new FeedSnapshotEntity(env, feed).mutate((s) => {
+    previous = Array.isArray(s.data) ? (s.data as T[]) : [];
+    next = update(previous);
+    return { ...s, id: feed, data: next };
+  });
+  await publishFeedChanges(env, feed, previous, next, new Date().toISOString());
+  return { previous, next };
+}
+
+// ---------- Atom feeds (RFC 4287) ----------
+interface AtomEntry {
+  id: string; // Stable URI; readers use it to recognise an updated entry
+  title: string;
+  updated: string; // ISO 8601 string
+  summary: string;
+  link?: string | null;
+}
+
+const xmlEscape = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Feed <updated> is the newest entry's, so it only moves when an entry does
+function atomFeed(feed: { id: string; title: string; selfUrl: string; alternateUrl: string; entries: AtomEntry[]; emptyUpdated: string }): string {
+  const entries = [...feed.entries].sort((a, b) => b.updated.localeCompare(a.updated));
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${xmlEscape(feed.id)}</id>`,
+    `  <title>${xmlEscape(feed.title)}</title>`,
+    `  <updated>${entries[0]?.updated ?? feed.emptyUpdated}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${xmlEscape(feed.selfUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${xmlEscape(feed.alternateUrl)}"/>`,
+    '  <author><name>Aegis Dashboard</name></author>',
+    ...entries.flatMap((entry) => [
+      '  <entry>',
+      `    <id>${xmlEscape(entry.id)}</id>`,
+      `    <title>${xmlEscape(entry.title)}</title>`,
+      `    <updated>${entry.updated}</updated>`,
+      `    <summary>${xmlEscape(entry.summary)}</summary>`,
+      ...(entry.link ? [`    <link rel="alternate" type="text/html" href="${xmlEscape(entry.link)}"/>`] : []),
+      '  </entry>',
+    ]),
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+const atomResponse = (c: any, xml: string) =>
+  c.body(xml, 200, { 'Content-Type': 'application/atom+xml; charset=utf-8', 'Cache-Control': 'public, max-age=60' });
+
+// ---------- Event feeds ----------
+const DEFAULT_EVENT_FEED_DAYS = 30;
+const MAX_EVENT_FEED_ENTRIES = 200;
+
+function eventFeedDays(c: any): number | string {
+  const raw = c.req.query('days');
+  if (!raw) return DEFAULT_EVENT_FEED_DAYS;
+  const days = Number(raw);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_RANGE_DAYS) return `days must be between 1 and ${MAX_HISTORY_RANGE_DAYS}`;
+  return days;
+}
+
+const formatEta = (eta: string | null) => (eta ? new Date(eta).toUTCString() : 'none');
+
+// One entry per lifecycle step of each stored outage record. Entry ids are derived from the outage id and
+// the step (plus its time for repeatable steps), so a re-read never produces new entries for old events.
+function outageFeedEntries(records: OutageRecord[], recordUrl: (id: string) => string | null): AtomEntry[] {
+  return records.flatMap((record) => {
+    const base = `urn:aegis-dashboard:outage:${encodeURIComponent(record.id)}`;
+    const link = recordUrl(record.id);
+    const subject = `${record.systemName} (${record.id})`;
+    const entries: AtomEntry[] = [{
+      id: `${base}:started`,
+      title: `${record.impactLevel} started: ${subject}`,
+      updated: record.startTime,
+      summary: `${record.description}\nETA: ${formatEta(record.etaChanges?.[0]?.from ?? record.eta)}`,
+      link,
+    }];
+    for (const change of record.impactChanges) {
+      entries.push({
+        id: `${base}:impact:${change.at}`,
+        title: `Impact changed to ${change.to}: ${subject}`,
+        updated: change.at,
+        summary: `Impact changed from ${change.from} to ${change.to}.`,
+        link,
+      });
+    }
+    for (const change of record.etaChanges ?? []) {
+      entries.push({
+        id: `${base}:eta:${change.at}`,
+        title: `ETA changed: ${subject}`,
+        updated: change.at,
+        summary: `ETA changed from ${formatEta(change.from)} to ${formatEta(change.to)}.`,
+        link,
+      });
+    }
+    if (record.resolvedAt) {
+      entries.push({
+        id: `${base}:resolved`,
+        title: `Resolved: ${subject}`,
+        updated: record.resolvedAt,
+        summary: `${record.impactLevel} on ${record.systemName} resolved.`,
+        link,
+      });
+    }
+    return entries;
+  });
+}
+
+const vendorFeedEntry = (t: VendorStatusTransition): AtomEntry => ({
+  id: `urn:aegis-dashboard:vendor:${encodeURIComponent(t.vendorId)}:${t.at}`,
+  title: `${t.name}: ${t.to}`,
+  updated: t.at,
+  summary: `${t.name} changed from ${t.from} to ${t.to}.`,
+  link: t.url,
+});
+
+const newestEntries = (entries: AtomEntry[]) =>
+  entries.sort((a, b) => b.updated.localeCompare(a.updated)).slice(0, MAX_EVENT_FEED_ENTRIES);
+
+// ---------- Public status page ----------
+const RECENT_INCIDENT_DAYS = 7;
+const MESSAGE_RETENTION_DAYS = 30;
+const PUBLIC_STATUS_RANK: Record<VendorStatusOption, number> = { Operational: 0, Unknown: 1, Degraded: 2, Outage: 3 };
+
+const publicStatusOf = (impact: ImpactLevel): VendorStatusOption => (impact === 'Outage' ? 'Outage' : 'Degraded');
+
+const worstStatus = (statuses: VendorStatusOption[]) =>
+  statuses.reduce<VendorStatusOption>((worst, s) => (PUBLIC_STATUS_RANK[s] > PUBLIC_STATUS_RANK[worst] ? s : worst), 'Operational');
+
+function defaultIncidentMessage(status: VendorStatusOption, resolvedAt: string | null): string {
+  if (resolvedAt) return 'This incident has been resolved.';
+  return status === 'Outage'
+    ? 'We are aware of a service outage and are working to restore service.'
+    : 'Some users may experience degraded performance. We are investigating.';
+}
+
+// Outage ids are internal; publish a stable digest instead
+async function publicIncidentId(outageId: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`status:${outageId}`));
+  return Array.from(new Uint8Array(digest).slice(0, 8), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Latest stored time anything public about the incident changed (never "now", so feeds stay stable)
+function incidentUpdatedAt(outage: Outage, record: OutageRecord | undefined, message: StatusPageMessage | undefined, resolvedAt: string | null): string {
+  const times = [
+    record?.firstSeen ?? outage.startTime,
+    ...(record?.impactChanges.map((c) => c.at) ?? []),
+    ...(record?.etaChanges?.map((c) => c.at) ?? []),
+    message?.updatedAt,
+    resolvedAt,
+  ];
+  return times.filter(isStr).reduce((latest, t) => (t > latest ? t : latest));
+}
+
+// Cached snapshot data; only fetches live when the feed has never been polled
+async function cachedFeedData<T>(env: Env, feed: IntegrationFeed): Promise<T[]> {
+  let snapshot = await new FeedSnapshotEntity(env, feed).getState();
+  if (!snapshot.fetchedAt && snapshot.data === null) snapshot = await refreshFeed(env, feed);
+  return (snapshot.data as T[] | null) ?? [];
+}
+
+async function buildPublicStatus(env: Env): Promise<PublicStatus> {
+  const config = await new StatusPageConfigEntity(env).getState();
+  const displayNames = new Map(config.systems.map((s) => [s.systemName.trim().toLowerCase(), s.displayName]));
+  const [outages, vendors] = await Promise.all([
+    cachedFeedData<Outage>(env, 'outages'),
+    cachedFeedData<VendorStatus>(env, 'vendors'),
+  ]);
+  const now = new Date();
+  const records = await loadOutageRecords(env, subDays(now, MESSAGE_RETENTION_DAYS), now);
+  const recordById = new Map(records.map((r) => [r.id, r]));
+
+  const toIncident = async (outage: Outage, resolvedAt: string | null): Promise<PublicIncident | null> => {
+    const component = displayNames.get(outage.systemName.trim().toLowerCase());
+    if (!component) return null;
+    const status = publicStatusOf(outage.impactLevel);
+    const message = config.messages[outage.id];
+    return {
+      id: await publicIncidentId(outage.id),
+      component,
+      status,
+      message: message?.message || defaultIncidentMessage(status, resolvedAt),
+      startedAt: outage.startTime,
+      eta: resolvedAt ? null : outage.eta,
+      resolvedAt,
+      updatedAt: incidentUpdatedAt(outage, recordById.get(outage.id), message, resolvedAt),
+    };
+  };
+  const activeIds = new Set(outages.map((o) => o.id));
+  const cutoff = subDays(now, RECENT_INCIDENT_DAYS).toISOString();
+  const resolved = records.filter((r) => r.resolvedAt && r.resolvedAt >= cutoff && !activeIds.has(r.id));
+  const incidents = (await Promise.all([
+    ...outages.map((o) => toIncident(o, null)),
+    ...resolved.map((r) => toIncident(r, r.resolvedAt)),
+  ]))
+    .filter((i): i is PublicIncident => i !== null)
+    .sort((a, b) => Number(!!a.resolvedAt) - Number(!!b.resolvedAt) || b.startedAt.localeCompare(a.startedAt));
+
+  const components: PublicStatusComponent[] = [
+    ...config.systems.map((s): PublicStatusComponent => ({
+      name: s.displayName,
+      group: 'system',
+      status: worstStatus(incidents.filter((i) => !i.resolvedAt && i.component === s.displayName).map((i) => i.status)),
+    })),
+    ...vendors
+      .filter((v) => config.vendorIds.includes(v.id))
+      .map((v): PublicStatusComponent => ({ name: v.name, group: 'vendor', status: v.status })),
+  ];
+  return {
+    title: config.title,
+    overall: worstStatus(components.map((c) => c.status)),
+    components,
+    incidents,
+    generatedAt: now.toISOString(),
+  };
+}
+
+type StatusPageConfigInput = Omit<StatusPageConfig, 'id' | 'messages'> & { messages?: Record<string, string> };
+
+function validateStatusPageConfig(body: Partial<StatusPageConfigInput>): string | null {
+  if (!isStr(body.title?.trim())) return 'title is required';
+  if (!Array.isArray(body.systems) || !body.systems.every((s) => isStr(s?.systemName?.trim()) && isStr(s?.displayName?.trim()))) {
+    return 'systems must be a list of { systemName, displayName }';
+  }
+  if (!Array.isArray(body.vendorIds) || !body.vendorIds.every(isStr)) return 'vendorIds must be a list of vendor ids';
+  if (body.messages != null && (typeof body.messages !== 'object' || !Object.values(body.messages).every((m) => typeof m === 'string'))) {
+    return 'messages must map outage ids to text';
+  }
+  return null;
+}
+
+// Messages are stamped when their text changes (that moves the incident's feed entry); empty text removes one
+function mergeStatusMessages(current: Record<string, StatusPageMessage>, edits: Record<string, string>, at: string): Record<string, StatusPageMessage> {
+  const cutoff = subDays(new Date(at), MESSAGE_RETENTION_DAYS).toISOString();
+  const merged: Record<string, StatusPageMessage> = Object.fromEntries(
+    Object.entries(current).filter(([, m]) => m.updatedAt >= cutoff)
+  );
+  for (const [id, raw] of Object.entries(edits)) {
+    const message = raw.trim();
+    if (!message) delete merged[id];
+    else if (merged[id]?.message !== message) merged[id] = { message, updatedAt: at };
+  }
+  return merged;
+}
+
+// ---------- Authentication & roles ----------
+// Callers are identified by a Cloudflare Access JWT (Cf-Access-Jwt-Assertion header or
+// CF_Authorization cookie, verified against the team's JWKS) or an API token sent as
+// `Authorization: Bearer aegis_...`. Access settings are read from env only; the role lists can
+// be overridden in KV. Without Access configured the legacy ENABLE_MANAGEMENT flag applies:
+// everyone is an admin when it's on and a viewer when it's off (API tokens still work).
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, operator: 1, admin: 2 };
+const USER_ROLES = Object.keys(ROLE_RANK) as UserRole[];
+const API_TOKEN_PREFIX = 'aegis_';
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+const JWKS_REFETCH_MS = 60 * 1000; // Unknown kid (key rotation): refetch at most this often
+const JWT_CLOCK_SKEW_S = 60;
+const TOKEN_TOUCH_MS = 60 * 60 * 1000; // lastUsedAt is written at most hourly
+
+interface Caller {
+  name: string | null;
+  via: 'access' | 'token' | null;
+  role: UserRole;
+  authMode: DashboardConfig['authMode'];
+}
+
+interface AccessSettings {
+  issuer: string;
+  audience: string;
+  jwksUrl: string;
+}
+
+type AccessJwk = JsonWebKey & { kid?: string };
+
+let jwksCache: { url: string; keys: AccessJwk[]; fetchedAt: number } | null = null;
+
+function accessSettings(env: Env): AccessSettings | null {
+  const teamDomain = String(env.ACCESS_TEAM_DOMAIN ?? '').trim().replace(/\/+$/, '');
+  const audience = String(env.ACCESS_AUD ?? '').trim();
+  if (!teamDomain || !audience) return null;
+  const issuer = /^https?:\/\//i.test(teamDomain) ? teamDomain : `https://${teamDomain}`;
+  const jwksUrl = String(env.ACCESS_JWKS_URL ?? '').trim() || `${issuer}/cdn-cgi/access/certs`;
+  return { issuer, audience, jwksUrl };
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const b64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+  return Uint8Array.from(atob(b64), (ch) => ch.charCodeAt(0));
+}
+
+function decodeJwtPart(part: string): any {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+}
+
+async function accessSigningKey(jwksUrl: string, kid: string): Promise<AccessJwk | null> {
+  const age = jwksCache?.url === jwksUrl ? Date.now() - jwksCache.fetchedAt : Infinity;
+  let key = age < JWKS_CACHE_MS ? jwksCache!.keys.find((k) => k.kid === kid) : undefined;
+  if (!key && age > JWKS_REFETCH_MS) {
+    const response = await fetch(jwksUrl, { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) throw new Error(`JWKS fetch failed: HTTP ${response.status}`);
+    const { keys } = await response.json<{ keys?: AccessJwk[] }>();
+    jwksCache = { url: jwksUrl, keys: Array.isArray(keys) ? keys : [], fetchedAt: Date.now() };
+    key = jwksCache.keys.find((k) => k.kid === kid);
+  }
+  return key ?? null;
+}
+
+// Email of a valid Access JWT (common_name for Access service tokens), otherwise null
+async function verifyAccessJwt(token: string, settings: AccessSettings): Promise<string | null> {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+  try {
+    const { alg, kid } = decodeJwtPart(header);
+    if (alg !== 'RS256' || typeof kid !== 'string') return null;
+    const jwk = await accessSigningKey(settings.jwksUrl, kid);
+    if (!jwk) return null;
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, base64UrlDecode(signature), new TextEncoder().encode(`${header}.${payload}`));
+    if (!valid) return null;
+
+    const claims = decodeJwtPart(payload);
+    const now = Date.now() / 1000;
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== settings.issuer || !audiences.includes(settings.audience)) return null;
+    if (typeof claims.exp !== 'number' || claims.exp < now - JWT_CLOCK_SKEW_S) return null;
+    if (typeof claims.nbf === 'number' && claims.nbf > now + JWT_CLOCK_SKEW_S) return null;
+    const name = claims.email ?? claims.common_name;
+    return isStr(name) ? name : null;
+  } catch (error) {
+    console.warn('Access JWT rejected:', error);
+    return null;
+  }
+}
+
+// Entries are addresses or whole domains ("@example.com" / "*@example.com")
+function identityListed(list: string[], name: string): boolean {
+  const lower = name.toLowerCase();
+  return list.some((entry) => {
+    const e = entry.toLowerCase();
+    return e.startsWith('@') || e.startsWith('*@') ? lower.endsWith(e.replace(/^\*/, '')) : lower === e;
+  });
+}
+
+async function roleForIdentity(c: any, name: string): Promise<UserRole> {
+  if (identityListed(csvToList(await kvGetString(c, 'AUTH_ADMINS', c.env.AUTH_ADMINS)), name)) return 'admin';
+  if (identityListed(csvToList(await kvGetString(c, 'AUTH_OPERATORS', c.env.AUTH_OPERATORS)), name)) return 'operator';
+  return 'viewer';
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function generateApiToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return API_TOKEN_PREFIX + Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function callerFromApiToken(env: Env, token: string): Promise<Pick<Caller, 'name' | 'role'> | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+  const entity = new ApiTokenEntity(env, await sha256Hex(token));
+  if (!(await entity.exists())) return null;
+  const apiToken = await entity.getState();
+  if (!apiToken.lastUsedAt || Date.now() - Date.parse(apiToken.lastUsedAt) > TOKEN_TOUCH_MS) {
+    await entity.patch({ lastUsedAt: new Date().toISOString() });
+  }
+  return { name: apiToken.name, role: apiToken.role };
+}
+
+async function identifyCaller(c: any, queryToken?: string): Promise<Caller> {
+  const access = accessSettings(c.env);
+  const authMode = access ? 'access' : 'legacy';
+  const bearer = c.req.header('Authorization')?.match(/^Bearer\s+(\S+)/i)?.[1] ?? queryToken;
+  const fromToken = bearer ? await callerFromApiToken(c.env, bearer) : null;
+  if (fromToken) return { ...fromToken, via: 'token', authMode };
+
+  if (access) {
+    const assertion = c.req.header('Cf-Access-Jwt-Assertion') ?? getCookie(c, 'CF_Authorization');
+    const name = assertion ? await verifyAccessJwt(assertion, access) : null;
+    if (!name) return { name: null, via: null, role: 'viewer', authMode };
+    return { name, via: 'access', role: await roleForIdentity(c, name), authMode };
+  }
+  const enableManagement = await kvGetBool(c, 'ENABLE_MANAGEMENT', c.env.ENABLE_MANAGEMENT as any);
+  return { name: null, via: null, role: enableManagement ? 'admin' : 'viewer', authMode };
+}
+
+// Resolved once per request (the role middleware and the route handler both ask)
+const callersByRequest = new WeakMap<Request, Promise<Caller>>();
+function resolveCaller(c: any): Promise<Caller> {
+  let caller = callersByRequest.get(c.req.raw);
+  if (!caller) {
+    caller = identifyCaller(c);
+    callersByRequest.set(c.req.raw, caller);
+  }
+  return caller;
+}
+
+// With Access configured every role, viewer included, needs a verified identity or an API token
+function hasRole(caller: Caller, role: UserRole): boolean {
+  if (caller.authMode === 'access' && !caller.via) return false;
+  return ROLE_RANK[caller.role] >= ROLE_RANK[role];
+}
+
+function permissionsFor(caller: Caller): DashboardPermissions {
+  return { operate: hasRole(caller, 'operator'), configure: hasRole(caller, 'admin') };
+}
+
+// ---------- Audit log ----------
+// Every POST / PUT / PATCH / DELETE is recorded by the audit middleware with the caller and the
+// response status. Handlers that change stored state describe it with auditChange(); the entry
+// then carries a field-level before/after diff. Secret-looking fields are recorded as changed
+// but their values are redacted.
+const AUDITED_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+const AUDIT_SKIPPED_ROUTES = new Set(['/api/client-errors']);
+const AUDIT_MAX_TIME = 9_999_999_999_999; // Inverted into ids so the index lists newest first
+const AUDIT_MAX_CHANGES = 200;
+const AUDIT_REDACTED_FIELD = /password|secret|webhookUrl/i;
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+const MAX_AUDIT_PAGE_SIZE = 500;
+const AUDIT_SCAN_BATCH = 100;
+const AUDIT_SCAN_LIMIT = 2000; // Entries read per request; filtered queries continue from `next`
+
+interface AuditChangeInput {
+  entity: string;
+  entityId: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+interface AuditFilters {
+  actor?: string;
+  entity?: string;
+  entityId?: string;
+  method?: string;
+  route?: string;
+  outcome?: 'success' | 'failed';
+  from?: string;
+  to?: string;
+}
+
+const auditChangesByRequest = new WeakMap<Request, AuditChangeInput>();
+
+// Called by route handlers: what the request changed (before is absent on create, after on delete)
+function auditChange(c: any, change: AuditChangeInput): void {
+  auditChangesByRequest.set(c.req.raw, change);
+}
+
+function auditEntryId(at: number): string {
+  return `${String(AUDIT_MAX_TIME - at).padStart(13, '0')}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+function auditCursorAt(iso: string): string {
+  return `i:${String(AUDIT_MAX_TIME - Date.parse(iso)).padStart(13, '0')}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Field-level differences: objects compare by key, arrays by index, anything else by value
+function diffValues(before: unknown, after: unknown, path = ''): AuditChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return keys.flatMap((key) => diffValues(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return Array.from({ length: Math.max(before.length, after.length) }, (_, i) => diffValues(before[i], after[i], `${path}[${i}]`)).flat();
+  }
+  if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) return [];
+  return [{ path: path || '(value)', before: before ?? null, after: after ?? null }];
+}
+
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, v]) =>
+    [key, AUDIT_REDACTED_FIELD.test(key) && v ? '[redacted]' : redactSecrets(v)]
+  ));
+}
+
+function redactChange(change: AuditChange): AuditChange {
+  const field = change.path.split(/[.[]/).pop() ?? '';
+  if (AUDIT_REDACTED_FIELD.test(field)) {
+    return { ...change, before: change.before == null ? null : '[redacted]', after: change.after == null ? null : '[redacted]' };
+  }
+  return { ...change, before: redactSecrets(change.before), after: redactSecrets(change.after) };
+}
+
+function auditChanges(change: AuditChangeInput | undefined): AuditChange[] {
+  if (!change) return [];
+  // Creates and deletes list every field rather than one whole-object change
+  const empty = (other: unknown) => (Array.isArray(other) ? [] : isPlainObject(other) ? {} : undefined);
+  const before = change.before == null ? empty(change.after) : change.before;
+  const after = change.after == null ? empty(change.before) : change.after;
+  return diffValues(before, after).map(redactChange);
+}
+
+async function recordAudit(c: Context<{ Bindings: Env }>, route: string): Promise<void> {
+  try {
+    const caller = await resolveCaller(c);
+    const isWebhook = route.startsWith('/api/ingest/');
+    // Anyone can send these, so recording them would let the log be flooded; rejected
+    // webhooks are kept in the ingest rejection log instead
+    const rejected = c.res.status === 401 || c.res.status === 403 || (isWebhook && c.res.status >= 400);
+    if (!caller.via && rejected) return;
+    const change = auditChangesByRequest.get(c.req.raw);
+    const changes = auditChanges(change);
+    const now = Date.now();
+    const entry: AuditEntry = {
+      id: auditEntryId(now),
+      at: new Date(now).toISOString(),
+      actor: caller.name ?? (isWebhook ? 'webhook' : 'anonymous'),
+      via: caller.via ?? (isWebhook ? 'webhook' : null),
+      role: isWebhook && !caller.via ? null : caller.role,
+      method: c.req.method,
+      route,
+      path: c.req.path,
+      status: c.res.status,
+      entity: change?.entity ?? null,
+      entityId: change?.entityId ?? null,
+      changes: changes.slice(0, AUDIT_MAX_CHANGES),
+      omittedChanges: Math.max(0, changes.length - AUDIT_MAX_CHANGES),
+    };
+    await AuditEntryEntity.create(c.env, entry);
+  } catch (error) {
+    // The request already happened; a lost audit entry must not turn it into an error
+    console.error('Failed to write audit entry:', error);
+  }
+}
+
+function auditFiltersFromQuery(c: any): AuditFilters | string {
+  const q = (key: string) => c.req.query(key)?.trim() || undefined;
+  const filters: AuditFilters = {
+    actor: q('actor'),
+    entity: q('entity'),
+    entityId: q('entityId'),
+    method: q('method')?.toUpperCase(),
+    route: q('route'),
+    outcome: q('outcome') as AuditFilters['outcome'],
+    from: q('from'),
+    to: q('to'),
+  };
+  if (filters.method && !AUDITED_METHODS.has(filters.method)) return `method must be one of ${Array.from(AUDITED_METHODS).join(', ')}`;
+  if (filters.outcome && !['success', 'failed'].includes(filters.outcome)) return 'outcome must be success or failed';
+  for (const key of ['from', 'to'] as const) {
+    if (filters[key] && Number.isNaN(Date.parse(filters[key]!))) return `${key} must be an ISO 8601 date`;
+  }
+  return filters;
+}
+
+function auditEntryMatches(entry: AuditEntry, f: AuditFilters): boolean {
+  const contains = (value: string | null, needle?: string) => !needle || (value ?? '').toLowerCase().includes(needle.toLowerCase());
+  if (!contains(entry.actor, f.actor) || !contains(entry.route, f.route)) return false;
+  if (f.entity && entry.entity !== f.entity) return false;
+  if (f.entityId && entry.entityId !== f.entityId) return false;
+  if (f.method && entry.method !== f.method) return false;
+  if (f.outcome && (entry.status < 400) !== (f.outcome === 'success')) return false;
+  return true;
+}
+
+// Walks the index newest first from `cursor` (or `to`) until `limit` matches, `from`, or the scan limit
+async function queryAudit(env: Env, filters: AuditFilters, cursor: string | null, limit: number): Promise<AuditPage> {
+  const items: AuditEntry[] = [];
+  let position = cursor ?? (filters.to ? auditCursorAt(filters.to) : null);
+  let scanned = 0;
+  while (scanned < AUDIT_SCAN_LIMIT) {
+    const page = await AuditEntryEntity.list(env, position, AUDIT_SCAN_BATCH);
+    for (const entry of page.items) {
+      scanned++;
+      position = `i:${entry.id}`;
+      if (filters.from && entry.at < new Date(filters.from).toISOString()) return { items, next: null };
+      if (auditEntryMatches(entry, filters)) items.push(entry);
+      if (items.length === limit) return { items, next: position };
+    }
+    if (!page.next) return { items, next: null };
+  }
+  return { items, next: position };
+}
+
+// ---------- Config versions ----------
+// Every save of the ServiceNow / SolarWinds config is also kept as a ConfigVersion, numbered by
+// the config document's storage version (Doc.v), so a bad edit can be diffed and rolled back.
+type VersionedConfig = ServiceNowConfig | SolarWindsConfig;
+type VersionedConfigStore = Entity<VersionedConfig> & { readonly version: number };
+
+const VERSIONED_CONFIGS: VersionedConfigName[] = ['servicenow', 'solarwinds'];
+const CONFIG_VERSION_MAX = 9_999_999_999; // Inverted into ids so the index lists newest first
+const DEFAULT_CONFIG_VERSION_PAGE_SIZE = 20;
+const MAX_CONFIG_VERSION_PAGE_SIZE = 100;
+// Snapshots built from each config; a rollback invalidates them like a save does
+const CONFIG_VERSION_FEEDS: Record<VersionedConfigName, IntegrationFeed[]> = {
+  servicenow: ['outages', 'tickets', 'changes', 'change-calendar'],
+  solarwinds: ['alerts'],
+};
+
+function configStore(env: Env, name: VersionedConfigName): VersionedConfigStore {
+  return name === 'servicenow' ? new ServiceNowConfigEntity(env) : new SolarWindsConfigEntity(env);
+}
+
+function configVersionId(name: VersionedConfigName, version: number): string {
+  return `${name}:${String(CONFIG_VERSION_MAX - version).padStart(10, '0')}`;
+}
+
+// Saves `next` over `current` (as last read by `store`) and records the new version. The version
+// it replaces is recorded as well when missing: the config saved before version history existed.
+async function saveConfigVersion(
+  c: any,
+  name: VersionedConfigName,
+  store: VersionedConfigStore,
+  current: VersionedConfig,
+  next: VersionedConfig,
+  rollbackOf: number | null = null,
+): Promise<ConfigVersion> {
+  const replaced = store.version;
+  await store.save(next);
+  if (replaced > 0) {
+    const id = configVersionId(name, replaced);
+    if (!(await new ConfigVersionEntity(c.env, id).exists())) {
+      await ConfigVersionEntity.create(c.env, { id, configName: name, version: replaced, savedAt: null, savedBy: null, rollbackOf: null, config: current });
+    }
+  }
+  const caller = await resolveCaller(c);
+  return ConfigVersionEntity.create(c.env, {
+    id: configVersionId(name, store.version),
+    configName: name,
+    version: store.version,
+    savedAt: new Date().toISOString(),
+    savedBy: caller.name ?? 'anonymous',
+    rollbackOf,
+    config: next,
+  });
+}
+
+async function findConfigVersion(env: Env, name: VersionedConfigName, version: number): Promise<ConfigVersion | null> {
+  if (!Number.isInteger(version) || version < 1) return null;
+  const entity = new ConfigVersionEntity(env, configVersionId(name, version));
+  return (await entity.exists()) ? entity.getState() : null;
+}
+
+// Both configs share one index; start at this config's prefix and stop where it ends
+async function listConfigVersions(env: Env, name: VersionedConfigName, cursor: string | null, limit: number): Promise<ConfigVersionPage> {
+  const page = await ConfigVersionEntity.list(env, cursor ?? `i:${name}:`, limit);
+  const items = page.items.filter((version) => version.configName === name);
+  return { items, next: items.length === page.items.length ? page.next : null };
+}
+
+// ---------- Runtime settings ----------
+// Settings read with kvGetBool / kvGetString: a KV key wins (even when empty), then the env var,
+// then the built-in default. /api/settings edits the KV keys; removing one falls back to env.
+interface RuntimeSettingDefinition {
+  key: string;
+  type: RuntimeSettingType;
+  description: string;
+  defaultValue: string;
+  min?: number;
+  max?: number;
+}
+
+const RUNTIME_SETTINGS = [
+  { key: 'ENABLE_MANAGEMENT', type: 'boolean', defaultValue: 'false', description: 'Legacy mode only (no Access configured): everyone is an admin when on, a viewer otherwise' },
+  { key: 'AUTH_ADMINS', type: 'list', defaultValue: '', description: 'Emails or domains (@example.com) granted the admin role' },
+  { key: 'AUTH_OPERATORS', type: 'list', defaultValue: '', description: 'Emails or domains (@example.com) granted the operator role' },
+  { key: 'SOLARWINDS_UI_BASE', type: 'url', defaultValue: '', description: 'Base URL for SolarWinds alert links; empty derives it from the API URL' },
+  { key: 'SOLARWINDS_EXCLUDE_CAPTIONS', type: 'list', defaultValue: '', description: 'Alerts whose object caption equals or starts with one of these (case-insensitive) are hidden' },
+  { key: 'POLL_INTERVAL_MINUTES', type: 'integer', defaultValue: String(DEFAULT_POLL_INTERVAL_MINUTES), min: 1, max: 1440, description: 'Background polling cadence for cached integration snapshots' },
+  { key: 'CHANGE_CALENDAR_DAYS', type: 'integer', defaultValue: String(DEFAULT_CHANGE_CALENDAR_DAYS), min: 1, max: MAX_CHANGE_RANGE_DAYS, description: 'Days ahead published by the change calendar (.ics) feed' },
+] as const satisfies readonly RuntimeSettingDefinition[];
+
+const KV_SETTING_KEYS = RUNTIME_SETTINGS.map((setting) => setting.key);
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Accepts the typed value (or its string form) and yields the string stored in KV
+function runtimeSettingSchema(setting: RuntimeSettingDefinition): z.ZodType<string, unknown> {
+  switch (setting.type) {
+    case 'boolean':
+      return z.union([z.boolean(), z.enum(['true', 'false'])]).transform(String);
+    case 'integer':
+      return z.coerce.number().int().min(setting.min ?? 1).max(setting.max ?? Number.MAX_SAFE_INTEGER).transform(String);
+    case 'url':
+      return z.string().trim().refine((value) => value === '' || isHttpUrl(value), { message: 'Must be an http(s) URL' })
+        .transform((value) => value.replace(/\/+$/, ''));
+    case 'list':
+      // Stored as CSV, so entries can't contain commas
+      return z.union([z.array(z.string()), z.string().transform(csvToList)])
+        .transform((items) => Array.from(new Set(items.map((item) => item.trim()).filter(Boolean))))
+        .refine((items) => items.every((item) => !item.includes(',')), { message: 'Entries cannot contain commas' })
+        .transform((items) => items.join(', '));
+  }
+}
+
+// PATCH body: { KEY: value } sets the KV key, { KEY: null } removes it
+const runtimeSettingsPatchSchema = z.strictObject(Object.fromEntries(
+  RUNTIME_SETTINGS.map((setting) => [setting.key, runtimeSettingSchema(setting).nullable().optional()])
+) as Record<(typeof KV_SETTING_KEYS)[number], z.ZodOptional<z.ZodNullable<z.ZodType<string, unknown>>>>);
+
+function envSetting(c: any, key: string): string | null {
+  const value = (c.env as any)[key];
+  return value == null || value === '' ? null : String(value);
+}
+
+async function readRuntimeSettings(c: any): Promise<RuntimeSetting[]> {
+  return Promise.all(RUNTIME_SETTINGS.map(async (setting: RuntimeSettingDefinition) => {
+    const kvValue = await kvGet(c, setting.key);
+    const envValue = envSetting(c, setting.key);
+    return {
+      key: setting.key,
+      type: setting.type,
+      description: setting.description,
+      value: kvValue ?? envValue ?? setting.defaultValue,
+      source: kvValue != null ? 'kv' : envValue != null ? 'env' : 'default',
+      envValue,
+      defaultValue: setting.defaultValue,
+      min: setting.min ?? null,
+      max: setting.max ?? null,
+    };
+  }));
+}
+
+// Edits that would take management away from the caller making them can only be done outside the dashboard
+async function settingsLockoutError(c: any, changes: Record<string, string | null>, current: RuntimeSetting[]): Promise<string | null> {
+  const caller = await resolveCaller(c);
+  const effective = (key: string) => {
+    if (!(key in changes)) return current.find((setting) => setting.key === key)!.value;
+    return changes[key] ?? envSetting(c, key) ?? '';
+  };
+  if (caller.via === 'access' && 'AUTH_ADMINS' in changes && !identityListed(csvToList(effective('AUTH_ADMINS')), caller.name!)) {
+    return 'AUTH_ADMINS must still include you; ask another admin to remove your admin role';
+  }
+  if (caller.authMode === 'legacy' && !caller.via && 'ENABLE_MANAGEMENT' in changes
+    && !['true', '1', 'yes', 'on'].includes(effective('ENABLE_MANAGEMENT').trim().toLowerCase())) {
+    return 'Turning ENABLE_MANAGEMENT off here would leave no one able to turn it back on; change it with wrangler instead';
+  }
+  return null;
+}
+
+// ---------- Config export / import ----------
+// A bundle carries vendors, bridges, both integration configs and the KV settings so a dashboard
+// can be copied between environments. Imports are checked with zod plus the validators the edit
+// routes use, and always return the per-item plan; a dry run stops before writing it.
+const CONFIG_BUNDLE_FORMAT = 'aegis-dashboard-config';
+const CONFIG_BUNDLE_VERSION = 1;
+const MAX_IMPORT_ISSUES = 5;
+
+// Credentials stay in env secrets; a bundle may only name the variable
+const envVarName = z.string().trim().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, { message: 'Must be an environment variable name, not a credential' });
+const ruleStatus = z.enum(['Operational', 'Degraded', 'Outage']);
+const stringFields = <K extends string>(keys: K[]) =>
+  z.object(Object.fromEntries(keys.map((key) => [key, z.string()])) as Record<K, z.ZodString>);
+const hasUniqueIds = (items: { id: string }[]) => new Set(items.map((item) => item.id)).size === items.length;
+const issue = (ctx: z.RefinementCtx, message: string | null, path: string[] = []) => {
+  if (message) ctx.addIssue({ code: 'custom', message, path });
+};
+
+const bundleVendorSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  url: z.string().min(1),
+  statusType: z.enum(['API_JSON', 'MANUAL', 'FEED', 'STATUSPAGE_IO', 'STATUS_IO', 'INSTATUS']),
+  apiUrl: z.string().nullish(),
+  jsonPath: z.string().nullish(),
+  expectedValue: z.string().nullish(),
+  rules: z.array(z.object({ path: z.string(), operator: z.enum(VENDOR_RULE_OPERATORS), value: z.string(), status: ruleStatus })).nullish(),
+  defaultStatus: ruleStatus.nullish(),
+  components: z.array(z.string()).nullish(),
+  indicatorMapping: z.array(z.object({ providerValue: z.string(), dashboardValue: ruleStatus })).nullish(),
+  feedWindowHours: z.number().nullish(),
+  feedRules: z.array(z.object({ keyword: z.string(), status: z.enum(['Degraded', 'Outage']) })).nullish(),
+}).superRefine((vendor, ctx) => issue(ctx, validateVendorProvider(vendor) ?? validateVendorFeed(vendor) ?? validateVendorRules(vendor)));
+
+const serviceNowConfigSchema = z.object({
+  id: z.string(),
+  enabled: z.boolean(),
+  instanceUrl: z.string(),
+  usernameVar: envVarName,
+  passwordVar: envVarName,
+  outageTable: z.string().min(1),
+  fieldMapping: stringFields(['systemName', 'impactLevel', 'startTime', 'eta', 'description', 'teamsBridgeUrl']),
+  impactLevelMapping: z.array(z.object({ servicenowValue: z.string(), dashboardValue: z.enum(['Outage', 'Degradation']) })),
+  ticketTable: z.string().min(1),
+  ticketFieldMapping: stringFields(['id', 'summary', 'affectedCI', 'status', 'assignedTeam', 'priority']),
+  changeTable: z.string().trim().min(1),
+  changeFieldMapping: stringFields(['id', 'summary', 'state', 'type', 'start', 'end', 'plannedStart', 'plannedEnd', 'offering', 'ci']),
+  changeAllowedStates: z.array(z.string().trim()).transform((states) => states.filter(Boolean)),
+  feedQueries: z.record(z.enum(SERVICENOW_FEEDS), z.object({ query: z.string(), limit: z.number(), orderBy: z.string() })),
+}).superRefine((config, ctx) => issue(ctx, validateServiceNowConfig(config)));
+
+const bundleSolarWindsSchema = z.object({
+  id: z.string(),
+  enabled: z.boolean(),
+  apiUrl: z.string(),
+  usernameVar: envVarName,
+  passwordVar: envVarName,
+  severityMapping: z.array(z.object({ solarwindsValue: z.string(), dashboardValue: z.enum(['Critical', 'Warning', 'Info']) })),
+}).superRefine((config, ctx) => issue(ctx, validateSolarWindsConfig(config)));
+
+const bundleBridgeSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  participants: z.number().int().min(0),
+  duration: z.string(),
+  isHighSeverity: z.boolean(),
+  teamsCallUrl: z.string().min(1),
+});
+
+const configBundleSchema = z.object({
+  format: z.literal(CONFIG_BUNDLE_FORMAT, { message: 'Not a dashboard configuration bundle' }),
+  version: z.literal(CONFIG_BUNDLE_VERSION, { message: `Unsupported bundle version; this dashboard imports version ${CONFIG_BUNDLE_VERSION}` }),
+  exportedAt: z.string(),
+  exportedBy: z.string().nullable(),
+  vendors: z.array(bundleVendorSchema).refine(hasUniqueIds, { message: 'Vendor ids must be unique' }),
+  servicenowConfig: serviceNowConfigSchema,
+  solarwindsConfig: bundleSolarWindsSchema,
+  bridges: z.array(bundleBridgeSchema).refine(hasUniqueIds, { message: 'Bridge ids must be unique' }),
+  kv: z.partialRecord(z.enum(KV_SETTING_KEYS), z.string()),
+});
+
+const configImportSchema = z.object({
+  mode: z.enum(['merge', 'replace']),
+  dryRun: z.boolean().default(true),
+  bundle: configBundleSchema,
+});
+
+interface ConfigImportStep {
+  item: ConfigImportItem;
+  apply: () => Promise<unknown>;
+}
+
+function zodIssues(error: z.ZodError): string {
+  const messages = error.issues.slice(0, MAX_IMPORT_ISSUES).map((i) => (i.path.length ? `${i.path.join('.')}: ${i.message}` : i.message));
+  const more = error.issues.length - MAX_IMPORT_ISSUES;
+  return messages.join('; ') + (more > 0 ? ` (and ${more} more)` : '');
+}
+
+async function exportConfigBundle(c: any): Promise<ConfigBundle> {
+  const [vendors, bridges, servicenowConfig, solarwindsConfig, kv, caller] = await Promise.all([
+    VendorEntity.list(c.env),
+    CollaborationBridgeEntity.list(c.env),
+    new ServiceNowConfigEntity(c.env).getState(),
+    new SolarWindsConfigEntity(c.env).getState(),
+    Promise.all(KV_SETTING_KEYS.map(async (key) => [key, await kvGet(c, key)] as const)),
+    resolveCaller(c),
+  ]);
+  return {
+    format: CONFIG_BUNDLE_FORMAT,
+    version: CONFIG_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: caller.name,
+    vendors: vendors.items,
+    servicenowConfig,
+    solarwindsConfig: { ...solarwindsConfig, severityMapping: solarwindsConfig.severityMapping ?? SolarWindsConfigEntity.initialState.severityMapping },
+    bridges: bridges.items,
+    kv: Object.fromEntries(kv.filter(([, value]) => value != null)) as Record<string, string>,
+  };
+}
+
+function importStep(kind: ConfigImportItem['kind'], id: string, label: string, before: unknown, after: unknown, apply: () => Promise<unknown>): ConfigImportStep {
+  // Objects diff field by field from nothing on create and to nothing on delete
+  const changes = isPlainObject(before ?? after) ? diffValues(before ?? {}, after ?? {}) : diffValues(before, after);
+  const action: ConfigImportAction = changes.length === 0 ? 'unchanged' : before == null ? 'create' : after == null ? 'delete' : 'update';
+  return { item: { kind, id, label, action, changes }, apply };
+}
+
+function planEntities<T extends { id: string }>(
+  kind: 'vendor' | 'bridge',
+  current: T[],
+  incoming: T[],
+  mode: ConfigImportMode,
+  label: (item: T) => string,
+  write: (item: T) => Promise<unknown>,
+  remove: (item: T) => Promise<unknown>,
+): ConfigImportStep[] {
+  const existing = new Map(current.map((item) => [item.id, item]));
+  const steps = incoming.map((item) => importStep(kind, item.id, label(item), existing.get(item.id) ?? null, item, () => write(item)));
+  if (mode === 'replace') {
+    const kept = new Set(incoming.map((item) => item.id));
+    for (const item of current.filter((item) => !kept.has(item.id))) {
+      steps.push(importStep(kind, item.id, label(item), item, null, () => remove(item)));
+    }
+  }
+  return steps;
+}
+
+// Collections keyed by id, so the audit diff names the vendor or bridge instead of an array index
+function bundleForAudit(bundle: ConfigBundle) {
+  return {
+    vendors: Object.fromEntries(bundle.vendors.map((vendor) => [vendor.id, vendor])),
+    bridges: Object.fromEntries(bundle.bridges.map((bridge) => [bridge.id, bridge])),
+    servicenowConfig: bundle.servicenowConfig,
+    solarwindsConfig: bundle.solarwindsConfig,
+    kv: bundle.kv,
+  };
+}
+
+async function importConfigBundle(c: any, bundle: ConfigBundle, mode: ConfigImportMode, dryRun: boolean): Promise<ConfigImportResult> {
+  const current = await exportConfigBundle(c);
+  const serviceNowStore = new ServiceNowConfigEntity(c.env);
+  const solarWindsStore = new SolarWindsConfigEntity(c.env);
+  const [serviceNowCurrent, solarWindsCurrent] = await Promise.all([serviceNowStore.getState(), solarWindsStore.getState()]);
+  const servicenowConfig: ServiceNowConfig = { ...bundle.servicenowConfig, id: ServiceNowConfigEntity.singletonId };
+  const solarwindsConfig: SolarWindsConfig = { ...bundle.solarwindsConfig, id: SolarWindsConfigEntity.singletonId };
+  const kvKeys = KV_SETTING_KEYS.filter((key) => key in bundle.kv || (mode === 'replace' && key in current.kv));
+
+  const steps: ConfigImportStep[] = [
+    ...planEntities('vendor', current.vendors, bundle.vendors, mode, (vendor) => vendor.name,
+      (vendor) => VendorEntity.create(c.env, vendor), (vendor) => VendorEntity.delete(c.env, vendor.id)),
+    ...planEntities('bridge', current.bridges, bundle.bridges, mode, (bridge) => bridge.title,
+      (bridge) => CollaborationBridgeEntity.create(c.env, bridge), (bridge) => CollaborationBridgeEntity.delete(c.env, bridge.id)),
+    // Saved as new config versions, so an import can be rolled back per integration
+    importStep('servicenow-config', servicenowConfig.id, 'ServiceNow integration', current.servicenowConfig, servicenowConfig,
+      () => saveConfigVersion(c, 'servicenow', serviceNowStore, serviceNowCurrent, servicenowConfig)),
+    importStep('solarwinds-config', solarwindsConfig.id, 'SolarWinds integration', current.solarwindsConfig, solarwindsConfig,
+      () => saveConfigVersion(c, 'solarwinds', solarWindsStore, solarWindsCurrent, solarwindsConfig)),
+    ...kvKeys.map((key) => {
+      const value = bundle.kv[key];
+      return importStep('kv', key, key, current.kv[key] ?? null, value ?? null, () => (value == null ? kvDelete(c, key) : kvPut(c, key, value)));
+    }),
+  ];
+
+  const changed = steps.filter((step) => step.item.action !== 'unchanged');
+  const counts: Record<ConfigImportAction, number> = { create: 0, update: 0, delete: 0, unchanged: 0 };
+  steps.forEach((step) => counts[step.item.action]++);
+  // The same lockout guard as PATCH /api/settings, checked against the KV values the import writes
+  const kvChanges = Object.fromEntries(changed.filter((step) => step.item.kind === 'kv').map(({ item }) => [item.id, bundle.kv[item.id] ?? null]));
+  const blocked = await settingsLockoutError(c, kvChanges, await readRuntimeSettings(c));
+  const result: ConfigImportResult = { mode, dryRun, items: changed.map((step) => step.item), counts, blocked };
+  if (dryRun || blocked || changed.length === 0) return result;
+
+  for (const step of changed) await step.apply();
+
+  const kinds = new Set(changed.map((step) => step.item.kind));
+  const feeds: IntegrationFeed[] = [
+    ...(kinds.has('vendor') ? ['vendors' as const] : []),
+    ...(kinds.has('servicenow-config') ? CONFIG_VERSION_FEEDS.servicenow : []),
+    ...(kinds.has('solarwinds-config') ? CONFIG_VERSION_FEEDS.solarwinds : []),
+    ...(kinds.has('kv') ? ['change-calendar' as const] : []),
+  ];
+  await invalidateFeeds(c.env, feeds);
+  const bridges = new Map(bundle.bridges.map((bridge) => [bridge.id, bridge]));
+  const bridgeEvents: DashboardEventBody[] = changed
+    .filter((step) => step.item.kind === 'bridge')
+    .map(({ item }) => item.action === 'delete'
+      ? { type: 'bridge.deleted', id: item.id }
+      : { type: item.action === 'create' ? 'bridge.created' : 'bridge.updated', bridge: bridges.get(item.id)! });
+  if (bridgeEvents.length > 0) await new DashboardEventLogEntity(c.env).append(bridgeEvents);
+  auditChange(c, { entity: 'config-bundle', entityId: null, before: bundleForAudit(current), after: bundleForAudit(await exportConfigBundle(c)) });
+  return result;
+}
+
+export function userRoutes(app: Hono<{ Bindings: Env }>) {
+  // — Aegis Dashboard Routes —
+
+  // Global error handler for all routes
+  app.onError((err, c) => {
+    console.error('Global error handler caught:', {
+      message: err.message,
+      stack: err.stack,
+      name: err.name,
+    });
+    return c.json({
+      success: false,
+      error: 'Internal Server Error',
+      details: err.message,
+      stack: err.stack
+    }, 500);
+  });
+
+  // Caller identity and effective permissions; the UI hides controls the caller can't use
+  app.get('/api/config', async (c) => {
+    const caller = await resolveCaller(c);
+    const permissions = permissionsFor(caller);
+    const config: DashboardConfig = {
+      enableManagement: permissions.operate,
+      authMode: caller.authMode,
+      user: caller.name && caller.via ? { name: caller.name, via: caller.via } : null,
+      role: caller.role,
+      permissions,
+    };
+    return c.json(config);
+  });
+
+  // Role gate: viewers read the dashboard, operators run incidents, admins change configuration
+  const requireRole = (role: UserRole) => async (c: any, next: any) => {
+    const caller = await resolveCaller(c);
+    if (hasRole(caller, role)) return next();
+    if (caller.authMode === 'legacy' && !caller.via) {
+      return c.json({ success: false, error: 'Management features are disabled' }, 403);
+    }
+    if (!caller.via) return c.json({ success: false, error: 'Authentication required' }, 401);
+    return c.json({ success: false, error: `This action requires the ${role} role` }, 403);
+  };
+  const requireViewer = requireRole('viewer');
+  // Feed readers and calendar clients can't send headers, so subscription feeds also accept an
+  // API token as `?token=`; it is checked like a Bearer token and its role applies
+  const acceptQueryToken = async (c: any, next: any) => {
+    const token = c.req.query('token');
+    if (token) callersByRequest.set(c.req.raw, identifyCaller(c, token));
+    return next();
+  };
+  const requireOperator = requireRole('operator');
+  const requireAdmin = requireRole('admin');
+
+  // Audit every mutating request once its handler has responded
+  app.use('/api/*', async (c, next) => {
+    await next();
+    if (!AUDITED_METHODS.has(c.req.method)) return;
+    const route = routePath(c, -1);
+    if (route.endsWith('*') || AUDIT_SKIPPED_ROUTES.has(route)) return;
+    await recordAudit(c, route);
+  });
+
+  // — AUDIT LOG (admin) —
+  // Newest first; filters: actor, route (substring), entity, entityId, method, outcome, from, to
+  app.get('/api/audit', requireAdmin, async (c) => {
+    const filters = auditFiltersFromQuery(c);
+    if (typeof filters === 'string') return bad(c, filters);
+    const limit = Math.min(Math.max(Number(c.req.query('limit')) || DEFAULT_AUDIT_PAGE_SIZE, 1), MAX_AUDIT_PAGE_SIZE);
+    return ok(c, await queryAudit(c.env, filters, c.req.query('cursor') || null, limit));
+  });
+
+  // — RUNTIME SETTINGS (admin) —
+  app.get('/api/settings', requireAdmin, async (c) => {
+    return ok(c, await readRuntimeSettings(c));
+  });
+
+  app.patch('/api/settings', requireAdmin, async (c) => {
+    const parsed = runtimeSettingsPatchSchema.safeParse(await c.req.json().catch(() => null));
+    if (!parsed.success) return bad(c, zodIssues(parsed.error));
+    const current = await readRuntimeSettings(c);
+    const changes = Object.fromEntries(Object.entries(parsed.data).filter(([, value]) => value !== undefined)) as Record<string, string | null>;
+    const lockout = await settingsLockoutError(c, changes, current);
+    if (lockout) return c.json({ success: false, error: lockout }, 403);
+
+    const before: Record<string, string | null> = {};
+    const after: Record<string, string | null> = {};
+    for (const [key, value] of Object.entries(changes)) {
+      const stored = await kvGet(c, key);
+      if (stored === value) continue;
+      before[key] = stored;
+      after[key] = value;
+      if (value == null) await kvDelete(c, key);
+      else await kvPut(c, key, value);
+    }
+    auditChange(c, { entity: 'settings', entityId: null, before, after });
+    if ('CHANGE_CALENDAR_DAYS' in after) await invalidateFeeds(c.env, ['change-calendar']);
+    return ok(c, await readRuntimeSettings(c));
+  });
+
+  // — CONFIG EXPORT / IMPORT (admin) —
+  app.get('/api/admin/export', requireAdmin, async (c) => {
+    return ok(c, await exportConfigBundle(c));
+  });
+
+  // Body: { mode: 'merge' | 'replace', dryRun (default true), bundle }
+  app.post('/api/admin/import', requireAdmin, async (c) => {
+    const parsed = configImportSchema.safeParse(await c.req.json().catch(() => null));
+    if (!parsed.success) return bad(c, zodIssues(parsed.error));
+    const { mode, dryRun, bundle } = parsed.data;
+    const result = await importConfigBundle(c, bundle, mode, dryRun);
+    if (result.blocked && !dryRun) return c.json({ success: false, error: result.blocked }, 403);
+    return ok(c, result);
+  });
+
+  // — API TOKENS (admin) —
+  app.get('/api/auth/tokens', requireAdmin, async (c) => {
+    const { items } = await ApiTokenEntity.list(c.env);
+    return ok(c, items.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+  });
+
+  // The token is returned once; only its SHA-256 is stored
+  app.post('/api/auth/tokens', requireAdmin, async (c) => {
+    const body = await c.req.json<{ name?: string; role?: UserRole }>().catch(() => ({} as { name?: string; role?: UserRole }));
+    if (!isStr(body.name?.trim())) return bad(c, 'name is required');
+    if (!body.role || !USER_ROLES.includes(body.role)) return bad(c, `role must be one of ${USER_ROLES.join(', ')}`);
+    const caller = await resolveCaller(c);
+    const token = generateApiToken();
+    const apiToken: ApiToken = {
+      id: await sha256Hex(token),
+      name: body.name!.trim(),
+      role: body.role,
+      prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+      createdBy: caller.name ?? 'legacy admin',
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+    };
+    await ApiTokenEntity.create(c.env, apiToken);
+    auditChange(c, { entity: 'api-token', entityId: apiToken.id, after: apiToken });
+    return ok(c, { token, apiToken } satisfies ApiTokenCreated);
+  });
+
+  app.delete('/api/auth/tokens/:id', requireAdmin, async (c) => {
+    const id = c.req.param('id');
+    const before = await new ApiTokenEntity(c.env, id).getState();
+    const deleted = await ApiTokenEntity.delete(c.env, id);
+    if (!deleted) return notFound(c, 'API token not found');
+    auditChange(c, { entity: 'api-token', entityId: id, before });
+    return ok(c, { id, deleted });
+  });
+
+  // — LIVE UPDATES (SSE) —
+  // Streams DashboardEvents appended by the poller and mutations. Each connection lives for a
+  // bounded time (subrequest limits); EventSource reconnects with Last-Event-ID and resumes.
+  app.get('/api/stream', requireViewer, async (c) => {
+    const lastId = c.req.header('Last-Event-ID') ?? c.req.query('since');
+    let cursor = lastId != null && lastId !== '' && !isNaN(Number(lastId)) ? Number(lastId) : null;
+    const log = new DashboardEventLogEntity(c.env);
+
+    return streamSSE(c, async (stream) => {
+      let aborted = false;
+      stream.onAbort(() => { aborted = true; });
+      const deadline = Date.now() + STREAM_LIFETIME_MS;
+
+      while (!aborted && Date.now() < deadline) {
+        const { seq, events } = await log.getState();
+        if (cursor == null) {
+          cursor = seq;
+          await stream.writeSSE({ event: 'ready', id: String(seq), data: JSON.stringify({ seq }), retry: 1000 });
+        } else if (cursor > seq || (events.length > 0 && events[0].seq > cursor + 1)) {
+          // Log was reset or the client fell behind the ring buffer: ask it to refetch everything
+          cursor = seq;
+          await stream.writeSSE({ event: 'resync', id: String(seq), data: JSON.stringify({ seq }) });
+        } else {
+          for (const event of events) {
+            if (event.seq <= cursor) continue;
+            await stream.writeSSE({ id: String(event.seq), data: JSON.stringify(event) });
+            cursor = event.seq;
+          }
+        }
+        await stream.write(': ping\n\n');
+        await stream.sleep(STREAM_POLL_MS);
+      }
+    });
+  });
+
+  // — VENDOR CRUD —
+  app.get('/api/vendors', requireOperator, async (c) => {
+    const { items } = await VendorEntity.list(c.env);
+    return ok(c, items);
+  });
+
+  app.post('/api/vendors', requireAdmin, async (c) => {
+    const body = await c.req.json<Partial<Vendor>>();
+    if (!isStr(body.name) || !isStr(body.url) || !isStr(body.statusType)) {
+      return bad(c, 'name, url, and statusType are required');
+    }
+    const providerError = validateVendorProvider(body) ?? validateVendorFeed(body) ?? validateVendorRules(body);
+    if (providerError) return bad(c, providerError);
+    const newVendor: Vendor = {
+      id: crypto.randomUUID(),
+      name: body.name,
+      url: body.url,
+      statusType: body.statusType,
+      apiUrl: body.apiUrl,
+      jsonPath: body.jsonPath,
+      expectedValue: body.expectedValue,
+      rules: body.rules ?? null,
+      defaultStatus: body.defaultStatus ?? null,
+      components: body.components ?? null,
+      indicatorMapping: body.indicatorMapping ?? null,
+      feedWindowHours: body.feedWindowHours ?? null,
+      feedRules: body.feedRules ?? null,
+    };
+    await VendorEntity.create(c.env, newVendor);
+    auditChange(c, { entity: 'vendor', entityId: newVendor.id, after: newVendor });
+    await invalidateFeeds(c.env, ['vendors']);
+    return ok(c, newVendor);
+  });
+
+  app.put('/api/vendors/:id', requireAdmin, async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json<Partial<Vendor>>();
+    if (!isStr(body.name) || !isStr(body.url) || !isStr(body.statusType)) {
+      return bad(c, 'name, url, and statusType are required');
+    }
+    const providerError = validateVendorProvider(body) ?? validateVendorFeed(body) ?? validateVendorRules(body);
+    if (providerError) return bad(c, providerError);
+    const vendor = new VendorEntity(c.env, id);
+    if (!(await vendor.exists())) return notFound(c, 'Vendor not found');
+    const updatedVendor: Vendor = {
+      id,
+      name: body.name,
+      url: body.url,
+      statusType: body.statusType,
+      apiUrl: body.apiUrl,
+      jsonPath: body.jsonPath,
+      expectedValue: body.expectedValue,
+      rules: body.rules ?? null,
+      defaultStatus: body.defaultStatus ?? null,
+      components: body.components ?? null,
+      indicatorMapping: body.indicatorMapping ?? null,
+      feedWindowHours: body.feedWindowHours ?? null,
+      feedRules: body.feedRules ?? null,
+    };
+    const before = await vendor.getState();
+    await vendor.save(updatedVendor);
+    auditChange(c, { entity: 'vendor', entityId: id, before, after: updatedVendor });
+    await invalidateFeeds(c.env, ['vendors']);
+    return ok(c, updatedVendor);
+  });
+
+  app.delete('/api/vendors/:id', requireAdmin, async (c) => {
+    const id = c.req.param('id');
+    const before = await new VendorEntity(c.env, id).getState();
+    const deleted = await VendorEntity.delete(c.env, id);
+    if (!deleted) return notFound(c, 'Vendor not found');
+    auditChange(c, { entity: 'vendor', entityId: id, before });
+    await invalidateFeeds(c.env, ['vendors']);
+    return ok(c, { id, deleted });
+  });
+
+  // "Evaluate now": run the (unsaved) vendor settings once and report the status and what decided it
+  app.post('/api/vendors/evaluate', requireAdmin, async (c) => {
+    const body = await c.req.json<Partial<Vendor>>().catch(() => ({} as Partial<Vendor>));
+    if (!isStr(body.statusType)) return bad(c, 'statusType is required');
+    const error = validateVendorProvider(body) ?? validateVendorFeed(body) ?? validateVendorRules(body);
+    if (error) return bad(c, error);
+    const { status, incident, detail } = await evaluateVendor({ ...VendorEntity.initialState, ...body } as Vendor);
+    return ok(c, { status, incident, detail } satisfies VendorEvaluation);
+  });
+
+  // Fetch a provider summary with the (unsaved) vendor settings: components to pick from and the resulting status
+  app.post('/api/vendors/provider-preview', requireAdmin, async (c) => {
+    const body = await c.req.json<Partial<Vendor>>().catch(() => ({} as Partial<Vendor>));
+    if (!isVendorProvider(body.statusType)) return bad(c, `statusType must be one of ${VENDOR_PROVIDER_TYPES.join(', ')}`);
+    if (!isStr(body.url)) return bad(c, 'url is required');
+    const error = validateVendorProvider(body);
+    if (error) return bad(c, error);
+    try {
+      const summary = await VENDOR_PROVIDERS[body.statusType]({ url: body.url, apiUrl: body.apiUrl });
+      const { status, incident } = evaluateProviderSummary(body.statusType, body, summary);
+      const preview: VendorProviderPreview = {
+        overall: summary.overall,
+        status,
+        incident,
+        components: summary.components,
+        defaultMapping: DEFAULT_INDICATOR_MAPPINGS[body.statusType],
+      };
+      return ok(c, preview);
+    } catch (err: any) {
+      return c.json({ success: false, error: `Could not read the status page: ${err?.message ?? err}` }, 502);
+    }
+  });
+
+  // — VENDOR STATUS (Now Dynamic & Resilient & Sorted) —
+  app.get('/api/vendors/status', requireViewer, async (c) => {
+    return serveFeed(c, 'vendors');
+  });
+
+  // — SERVICENOW CONFIG —
+  app.get('/api/servicenow/config', requireAdmin, async (c) => {
+    const configEntity = new ServiceNowConfigEntity(c.env);
+    const config = await configEntity.getState();
+    return ok(c, config);
+  });
+
+  app.post('/api/servicenow/config', requireAdmin, async (c) => {
+    const body = await c.req.json<Partial<ServiceNowConfig>>().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return bad(c, 'Request body must be a JSON object');
+    const configEntity = new ServiceNowConfigEntity(c.env);
+    const current = await configEntity.getState();
+    // Settings added after the first release keep their stored values when a client omits them
+    const parsed = serviceNowConfigSchema.safeParse({
+      ...body,
+      id: ServiceNowConfigEntity.singletonId,
+      changeTable: body.changeTable || current.changeTable,
+      changeFieldMapping: { ...current.changeFieldMapping, ...body.changeFieldMapping },
+      changeAllowedStates: body.changeAllowedStates ?? current.changeAllowedStates,
+      feedQueries: body.feedQueries ?? current.feedQueries,
+    });
+    if (!parsed.success) return bad(c, zodIssues(parsed.error));
+    const next: ServiceNowConfig = parsed.data;
+    await saveConfigVersion(c, 'servicenow', configEntity, current, next);
+    auditChange(c, { entity: 'servicenow-config', entityId: ServiceNowConfigEntity.singletonId, before: current, after: next });
+    await invalidateFeeds(c.env, CONFIG_VERSION_FEEDS.servicenow);
+    return ok(c, next);
+  });
+
+  // Preview a feed with the (optionally unsaved) config: runs its query and returns the first rows
+  app.post('/api/servicenow/preview', requireAdmin, async (c) => {
+    const body = await c.req.json<{ feed?: ServiceNowFeedName; config?: Partial<ServiceNowConfig> }>().catch(() => ({} as { feed?: ServiceNowFeedName; config?: Partial<ServiceNowConfig> }));
+    if (!body.feed || !SERVICENOW_FEEDS.includes(body.feed)) return bad(c, `feed must be one of ${SERVICENOW_FEEDS.join(', ')}`);
+    const saved = await new ServiceNowConfigEntity(c.env).getState();
+    // Credentials always come from the saved var names, whatever the unsaved form holds
+    const parsed = serviceNowConfigSchema.safeParse({
+      ...saved,
+      ...body.config,
+      id: saved.id,
+      usernameVar: saved.usernameVar,
+      passwordVar: saved.passwordVar,
+      feedQueries: { ...saved.feedQueries, ...body.config?.feedQueries },
+    });
+    if (!parsed.success) return bad(c, zodIssues(parsed.error));
+    const config: ServiceNowConfig = parsed.data;
+    if (!config.instanceUrl) return bad(c, 'instanceUrl is required');
+
+    const feedRequest = serviceNowFeedRequest(config, body.feed);
+    const columns = Array.from(new Set(feedRequest.fields));
+    const result = await serviceNowTableGet(c.env, config, 'FeedPreview',
+      `${feedRequest.table}?sysparm_display_value=true&sysparm_query=${encodeURIComponent(feedRequest.query)}` +
+      `&sysparm_limit=${feedRequest.limit}&sysparm_fields=${columns.join(',')}`);
+    if (!result.ok) return bad(c, result.error);
+
+    const preview: ServiceNowFeedPreview = {
+      feed: body.feed,
+      table: feedRequest.table,
+      query: feedRequest.query,
+      count: result.data.length,
+      columns,
+      rows: result.data.slice(0, FEED_PREVIEW_ROWS).map((item) =>
+        Object.fromEntries(columns.map((column) => [column, String(getProperty(item, column) ?? '')]))),
+    };
+    return ok(c, preview);
+  });
+
+  // — ACTIVE OUTAGES (Now Dynamic)
+  app.get('/api/outages/active', requireViewer, async (c) => {
+    return serveFeed(c, 'outages');
+  });
+
+// — MONITORING ALERTS
+app.get('/api/monitoring/alerts', requireViewer, async (c) => {
+  return serveFeed(c, 'alerts');
+});
+
+  // Acknowledge an active alert in Orion (Orion.AlertActive.Acknowledge) and record who did it.
+  // The operator is the authenticated caller; only legacy (no Access) deployments name themselves.
+  app.post('/api/monitoring/alerts/:id/acknowledge', requireOperator, async (c) => {
+    const id = c.req.param('id');
+    if (!/^\d+$/.test(id)) return bad(c, 'Alert id must be a SolarWinds AlertObjectID');
+    const body = await c.req.json<{ note?: string; acknowledgedBy?: string }>().catch(() => ({} as { note?: string; acknowledgedBy?: string }));
+    const caller = await resolveCaller(c);
+    const acknowledgedBy = (caller.name ?? (caller.authMode === 'legacy' ? body.acknowledgedBy : null) ?? '').trim();
+    if (!acknowledgedBy) return bad(c, 'acknowledgedBy is required');
+    if (body.note !== undefined && typeof body.note !== 'string') return bad(c, 'note must be a string');
+    const note = body.note?.trim() || null;
+
+    const config = await new SolarWindsConfigEntity(c.env).getState();
+    if (!config.enabled || !config.apiUrl) return bad(c, 'SolarWinds integration is not configured or enabled.');
+    const username = c.env[config.usernameVar as keyof Env] as string | undefined;
+    const password = c.env[config.passwordVar as keyof Env] as string | undefined;
+    if (!username || !password) return bad(c, 'SolarWinds credentials are not set in Worker secrets.');
+
+    // Orion attributes the acknowledgement to the API account, so name the operator in the note
+    const orionNote = `Acknowledged by ${acknowledgedBy} via Aegis Dashboard${note ? `: ${note}` : ''}`;
+    try {
+      const resp = await fetch(`${config.apiUrl}/SolarWinds/InformationService/v3/Json/Invoke/Orion.AlertActive/Acknowledge`, {
+        method: 'POST',
+        headers: solarWindsHeaders(c.env, username, password),
+        body: JSON.stringify([[Number(id)], orionNote]),
+      });
+      if (!resp.ok) {
+        const txt = await resp.text();
+        console.error(`SolarWinds Acknowledge Error (${resp.status}): ${txt}`);
+        return c.json({ success: false, error: `SolarWinds rejected the acknowledgement: ${resp.status} ${resp.statusText}` }, 502);
+      }
+    } catch (err) {
+      console.error('Unexpected error acknowledging SolarWinds alert:', err);
+      return c.json({ success: false, error: 'Could not reach SolarWinds to acknowledge the alert.' }, 502);
+    }
+
+    const ack: AlertAcknowledgement = { alertId: id, acknowledgedBy, acknowledgedAt: new Date().toISOString(), note };
+    await new AlertAcknowledgementEntity(c.env).record(ack);
+    console.log(JSON.stringify({ type: 'AlertAcknowledged', ...ack }));
+    const { previous, next } = await applyFeedUpdate<MonitoringAlert>(c.env, 'alerts', (current) =>
+      current.map((a) => a.id === id
+        ? { ...a, validated: true, acknowledgedBy: ack.acknowledgedBy, acknowledgedAt: ack.acknowledgedAt }
+        : a)
+    );
+    auditChange(c, {
+      entity: 'alert',
+      entityId: id,
+      before: previous.find((a) => a.id === id) ?? null,
+      after: next.find((a) => a.id === id) ?? ack,
+    });
+    return ok(c, ack);
+  });
+
+  // — SOLARWINDS CONFIG —
+  app.get('/api/solarwinds/config', requireAdmin, async (c) => {
+    const configEntity = new SolarWindsConfigEntity(c.env);
+    const config = await configEntity.getState();
+    return ok(c, { ...config, severityMapping: config.severityMapping ?? SolarWindsConfigEntity.initialState.severityMapping });
+  });
+
+  app.post('/api/solarwinds/config', requireAdmin, async (c) => {
+    const body = await c.req.json<Partial<SolarWindsConfig>>().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return bad(c, 'Request body must be a JSON object');
+    const error = validateSolarWindsConfig(body);
+    if (error) return bad(c, error);
+    const configEntity = new SolarWindsConfigEntity(c.env);
+    const current = await configEntity.getState();
+    const next: SolarWindsConfig = {
+      ...current,
+      id: SolarWindsConfigEntity.singletonId,
+      enabled: body.enabled as boolean,
+      // Routes append "/SolarWinds/..." so drop any trailing slash
+      apiUrl: (body.apiUrl ?? '').trim().replace(/\/+$/, ''),
+      usernameVar: (body.usernameVar as string).trim(),
+      passwordVar: (body.passwordVar as string).trim(),
+      severityMapping: body.severityMapping
+        ? body.severityMapping.map((m) => ({ solarwindsValue: m.solarwindsValue.trim(), dashboardValue: m.dashboardValue }))
+        : current.severityMapping ?? SolarWindsConfigEntity.initialState.severityMapping,
+    };
+    await saveConfigVersion(c, 'solarwinds', configEntity, current, next);
+    auditChange(c, { entity: 'solarwinds-config', entityId: SolarWindsConfigEntity.singletonId, before: current, after: next });
+    await invalidateFeeds(c.env, ['alerts']);
+    return ok(c, next);
+  });
+
+  // Test connection: runs a trivial SWQL query against the (optionally unsaved) API URL. The
+  // credential variable names always come from the saved config, never from the request.
+  app.post('/api/solarwinds/test', requireAdmin, async (c) => {
+    const body = await c.req.json<Partial<SolarWindsConfig>>().catch(() => null);
+    const requestedUrl = body?.apiUrl;
+    const saved = await new SolarWindsConfigEntity(c.env).getState();
+    const config: SolarWindsConfig = { ...saved, apiUrl: isStr(requestedUrl) ? requestedUrl : saved.apiUrl, enabled: true };
+    const error = validateSolarWindsConfig(config);
+    if (error) return bad(c, error);
+
+    const apiUrl = config.apiUrl.trim().replace(/\/+$/, '');
+    const result: SolarWindsConnectionTestResult = {
+      ok: false,
+      status: null,
+      auth: 'unknown',
+      tls: apiUrl.startsWith('https:') ? 'unknown' : 'not-used',
+      latencyMs: null,
+      message: '',
+    };
+
+    const username = c.env[config.usernameVar as keyof Env] as string | undefined;
+    const password = c.env[config.passwordVar as keyof Env] as string | undefined;
+    if (!username || !password) {
+      result.auth = 'missing-credentials';
+      result.message = `Worker secrets ${config.usernameVar} / ${config.passwordVar} are not set.`;
+      return ok(c, result);
+    }
+
+    const started = Date.now();
+    try {
+      const resp = await fetch(`${apiUrl}/SolarWinds/InformationService/v3/Json/Query`, {
+        method: 'POST',
+        headers: solarWindsHeaders(c.env, username, password),
+        body: JSON.stringify({ query: 'SELECT TOP 1 NodeID FROM Orion.Nodes' }),
+      });
+      result.latencyMs = Date.now() - started;
+      result.status = resp.status;
+      if (result.tls === 'unknown') result.tls = 'ok';
+
+      if (resp.status === 401 || resp.status === 403) {
+        result.auth = 'failed';
+        result.message = `Authentication rejected (${resp.status} ${resp.statusText}).`;
+      } else if (!resp.ok) {
+        result.auth = 'ok';
+        const txt = await resp.text();
+        result.message = `SWQL query failed (${resp.status} ${resp.statusText}): ${txt.slice(0, 200)}`;
+      } else {
+        result.auth = 'ok';
+        result.ok = true;
+        result.message = `Connected in ${result.latencyMs} ms.`;
+      }
+    } catch (err: any) {
+      result.latencyMs = Date.now() - started;
+      const msg = String(err?.message ?? err);
+      if (/certificate|ssl|tls|handshake/i.test(msg)) result.tls = 'failed';
+      result.message = `Connection failed: ${msg}`;
+    }
+
+    console.log(JSON.stringify({ type: 'SolarWindsConnectionTest', apiUrl, ...result }));
+    return ok(c, result);
+  });
+
+  // — CONFIG VERSIONS (ServiceNow / SolarWinds; admin) —
+  for (const name of VERSIONED_CONFIGS) {
+    // Newest first
+    app.get(`/api/${name}/config/versions`, requireAdmin, async (c) => {
+      const limit = Math.min(Math.max(Number(c.req.query('limit')) || DEFAULT_CONFIG_VERSION_PAGE_SIZE, 1), MAX_CONFIG_VERSION_PAGE_SIZE);
+      return ok(c, await listConfigVersions(c.env, name, c.req.query('cursor') || null, limit));
+    });
+
+    // Field-level changes going from version `from` to version `to`
+    app.get(`/api/${name}/config/versions/diff`, requireAdmin, async (c) => {
+      const [from, to] = await Promise.all([
+        findConfigVersion(c.env, name, Number(c.req.query('from'))),
+        findConfigVersion(c.env, name, Number(c.req.query('to'))),
+      ]);
+      if (!from || !to) return notFound(c, 'Config version not found');
+      const diff: ConfigVersionDiff = { from: from.version, to: to.version, changes: diffValues(from.config, to.config) };
+      return ok(c, diff);
+    });
+
+    // Saves an earlier version as a new one, so the rollback itself can be rolled back
+    app.post(`/api/${name}/config/versions/:version/rollback`, requireAdmin, async (c) => {
+      const target = await findConfigVersion(c.env, name, Number(c.req.param('version')));
+      if (!target) return notFound(c, 'Config version not found');
+      const store = configStore(c.env, name);
+      const current = await store.getState();
+      if (target.version === store.version) return bad(c, `Version ${target.version} is already the current config`);
+      const version = await saveConfigVersion(c, name, store, current, target.config, target.version);
+      auditChange(c, { entity: `${name}-config`, entityId: current.id, before: current, after: target.config });
+      await invalidateFeeds(c.env, CONFIG_VERSION_FEEDS[name]);
+      return ok(c, version);
+    });
+  }
+
+  // — SERVICENOW TICKETS
+  app.get('/api/servicenow/tickets', requireViewer, async (c) => {
+    return serveFeed(c, 'tickets');
+  });
+
+  // — COLLABORATION BRIDGES CRUD —
+  app.get('/api/collaboration/bridges', requireViewer, async (c) => {
+    await CollaborationBridgeEntity.ensureSeed(c.env);
+    const { items } = await CollaborationBridgeEntity.list(c.env);
+    return ok(c, items);
+  });
+
+  app.post('/api/collaboration/bridges', requireOperator, async (c) => {
+    const body = await c.req.json<Partial<CollaborationBridge>>();
+    if (!isStr(body.title) || !isStr(body.teamsCallUrl) || typeof body.participants !== 'number') {
+      return bad(c, 'title, teamsCallUrl, and participants are required');
+    }
+    const newBridge: CollaborationBridge = {
+      id: crypto.randomUUID(),
+      title: body.title,
+      participants: body.participants,
+      duration: body.duration || '0m',
+      isHighSeverity: body.isHighSeverity || false,
+      teamsCallUrl: body.teamsCallUrl,
+    };
+    await CollaborationBridgeEntity.create(c.env, newBridge);
+    auditChange(c, { entity: 'bridge', entityId: newBridge.id, after: newBridge });
+    await new DashboardEventLogEntity(c.env).append([{ type: 'bridge.created', bridge: newBridge }]);
+    return ok(c, newBridge);
+  });
+
+  app.put('/api/collaboration/bridges/:id', requireOperator, async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json<Partial<CollaborationBridge>>();
+    if (!isStr(body.title) || !isStr(body.teamsCallUrl) || typeof body.participants !== 'number') {
+      return bad(c, 'title, teamsCallUrl, and participants are required');
+    }
+    const bridge = new CollaborationBridgeEntity(c.env, id);
+    if (!(await bridge.exists())) return notFound(c, 'Bridge not found');
+    const currentState = await bridge.getState();
+    const updatedBridge: CollaborationBridge = { ...currentState, ...body, id };
+    await bridge.save(updatedBridge);
+    auditChange(c, { entity: 'bridge', entityId: id, before: currentState, after: updatedBridge });
+    await new DashboardEventLogEntity(c.env).append([{ type: 'bridge.updated', bridge: updatedBridge }]);
+    return ok(c, updatedBridge);
+  });
+
+  app.delete('/api/collaboration/bridges/:id', requireOperator, async (c) => {
+    const id = c.req.param('id');
+    const before = await new CollaborationBridgeEntity(c.env, id).getState();
+    const deleted = await CollaborationBridgeEntity.delete(c.env, id);
+    if (!deleted) return notFound(c, 'Bridge not found');
+    auditChange(c, { entity: 'bridge', entityId: id, before });
+    await new DashboardEventLogEntity(c.env).append([{ type: 'bridge.deleted', id }]);
+    return ok(c, { id, deleted });
+  });
+
+  // — INBOUND WEBHOOKS —
+  // ServiceNow Business Rule: POST the outage record (optionally as { operation, record }).
+  // Mapped through the configured fieldMapping; a record that no longer matches the active
+  // query (end set, active=false, or operation "delete") is removed from active outages.
+  app.post('/api/ingest/servicenow/outage', async (c) => {
+    const rawBody = await c.req.text();
+    const read = await readIngest(c, 'servicenow', rawBody);
+    if (!('payload' in read)) return rejectIngest(c, 'servicenow', read, rawBody);
+
+    const { payload } = read;
+    const record = payload.record ?? payload;
+    if (!record || typeof record !== 'object') {
+      return rejectIngest(c, 'servicenow', { status: 400, reason: 'record must be an object' }, rawBody);
+    }
+    if (!isStr(record.number) && !isStr(record.sys_id)) {
+      return rejectIngest(c, 'servicenow', { status: 400, reason: 'record.number or record.sys_id is required' }, rawBody);
+    }
+
+    const config = await new ServiceNowConfigEntity(c.env).getState();
+    if (!config.enabled) {
+      return rejectIngest(c, 'servicenow', { status: 503, reason: 'ServiceNow integration is not enabled' }, rawBody);
+    }
+    const { fieldMapping, impactMapping } = outageMappings(config);
+    const rawEnd = getProperty(record, fieldMapping.eta);
+    const isActive =
+      String(payload.operation ?? '').toLowerCase() !== 'delete' &&
+      String(record.active ?? 'true') !== 'false' &&
+      (!rawEnd || String(rawEnd).trim().length === 0 || Date.parse(String(rawEnd)) > Date.now());
+    if (isActive && !getProperty(record, fieldMapping.impactLevel)) {
+      return rejectIngest(c, 'servicenow', { status: 400, reason: `Missing impact field "${fieldMapping.impactLevel}"` }, rawBody);
+    }
+
+    const outage = mapServiceNowOutage(record, fieldMapping, impactMapping);
+    const { previous } = await applyFeedUpdate<Outage>(c.env, 'outages', (current) => {
+      const rest = current.filter((o) => o.id !== outage.id);
+      return isActive ? [...rest, outage] : rest;
+    });
+    auditChange(c, { entity: 'outage', entityId: outage.id, before: previous.find((o) => o.id === outage.id) ?? null, after: isActive ? outage : null });
+    return ok(c, { id: outage.id, action: isActive ? 'upserted' : 'resolved' });
+  });
+
+  // SolarWinds alert action: POST the same columns the SWQL query returns (AlertObjectID,
+  // EntityCaption, RelatedNodeCaption, EntityType, EntityDetailsUrl, TriggeredDateTime,
+  // Acknowledged, AlertName, Severity) plus Action = trigger | acknowledge | reset.
+  app.post('/api/ingest/solarwinds/alert', async (c) => {
+    const rawBody = await c.req.text();
+    const read = await readIngest(c, 'solarwinds', rawBody);
+    if (!('payload' in read)) return rejectIngest(c, 'solarwinds', read, rawBody);
+
+    const { payload } = read;
+    if (payload.AlertObjectID == null || String(payload.AlertObjectID).trim() === '') {
+      return rejectIngest(c, 'solarwinds', { status: 400, reason: 'AlertObjectID is required' }, rawBody);
+    }
+    const action = String(payload.Action ?? 'trigger').toLowerCase();
+    if (!['trigger', 'acknowledge', 'reset'].includes(action)) {
+      return rejectIngest(c, 'solarwinds', { status: 400, reason: `Unknown Action "${payload.Action}"` }, rawBody);
+    }
+
+    const config = await new SolarWindsConfigEntity(c.env).getState();
+    if (!config.enabled) {
+      return rejectIngest(c, 'solarwinds', { status: 503, reason: 'SolarWinds integration is not enabled' }, rawBody);
+    }
+    // Excluded captions are not an error: the sender did nothing wrong, we just don't show them
+    if (isExcludedCaption(payload.EntityCaption, await solarWindsExcludeList(c.env))) {
+      return ok(c, { id: String(payload.AlertObjectID), action: 'ignored' });
+    }
+
+    const toAbsoluteUrl = await solarWindsLinkBuilder(c.env, config);
+    const alert = normalizeSolarWindsAlert(
+      { ...payload, Acknowledged: action === 'acknowledge' || payload.Acknowledged === true || payload.Acknowledged === 'true' },
+      toAbsoluteUrl,
+      solarWindsSeverityMapping(config)
+    );
+    const { previous } = await applyFeedUpdate<MonitoringAlert>(c.env, 'alerts', (current) => {
+      const rest = current.filter((a) => a.id !== alert.id);
+      if (action === 'reset') return rest;
+      return [...rest, alert].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    });
+    auditChange(c, { entity: 'alert', entityId: alert.id, before: previous.find((a) => a.id === alert.id) ?? null, after: action === 'reset' ? null : alert });
+    return ok(c, { id: alert.id, action });
+  });
+
+  app.get('/api/ingest/rejections', requireAdmin, async (c) => {
+    const { rejections } = await new IngestLogEntity(c.env).getState();
+    return ok(c, rejections);
+  });
+
+  // — NOTIFICATIONS —
+  app.get('/api/notifications/channels', requireAdmin, async (c) => {
+    const { items } = await NotificationChannelEntity.list(c.env);
+    return ok(c, items);
+  });
+
+  app.post('/api/notifications/channels', requireAdmin, async (c) => {
+    const body = await c.req.json<Partial<NotificationChannel>>();
+    const error = validateNotificationChannel(body);
+    if (error) return bad(c, error);
+    const channel: NotificationChannel = {
+      id: crypto.randomUUID(),
+      name: body.name!.trim(),
+      type: body.type!,
+      webhookUrl: body.webhookUrl!.trim(),
+      enabled: body.enabled!,
+      rules: body.rules!,
+      rateLimitPerHour: body.rateLimitPerHour!,
+    };
+    await NotificationChannelEntity.create(c.env, channel);
+    auditChange(c, { entity: 'notification-channel', entityId: channel.id, after: channel });
+    return ok(c, channel);
+  });
+
+  app.put('/api/notifications/channels/:id', requireAdmin, async (c) => {
+    const id = c.req.param('id');
+    const body = await c.req.json<Partial<NotificationChannel>>();
+    const error = validateNotificationChannel(body);
+    if (error) return bad(c, error);
+    const entity = new NotificationChannelEntity(c.env, id);
+    if (!(await entity.exists())) return notFound(c, 'Notification channel not found');
+    const channel: NotificationChannel = {
+      id,
+      name: body.name!.trim(),
+      type: body.type!,
+      webhookUrl: body.webhookUrl!.trim(),
+      enabled: body.enabled!,
+      rules: body.rules!,
+      rateLimitPerHour: body.rateLimitPerHour!,
+    };
+    const before = await entity.getState();
+    await entity.save(channel);
+    auditChange(c, { entity: 'notification-channel', entityId: id, before, after: channel });
+    return ok(c, channel);
+  });
+
+  app.delete('/api/notifications/channels/:id', requireAdmin, async (c) => {
+    const id = c.req.param('id');
+    const before = await new NotificationChannelEntity(c.env, id).getState();
+    const deleted = await NotificationChannelEntity.delete(c.env, id);
+    if (!deleted) return notFound(c, 'Notification channel not found');
+    auditChange(c, { entity: 'notification-channel', entityId: id, before });
+    return ok(c, { id, deleted });
+  });
+
+  // Send a sample message through one channel (bypasses rules, dedupe and rate limit; still logged)
+  app.post('/api/notifications/channels/:id/test', requireAdmin, async (c) => {
+    const entity = new NotificationChannelEntity(c.env, c.req.param('id'));
+    if (!(await entity.exists())) return notFound(c, 'Notification channel not found');
+    const channel = await entity.getState();
+    const delivery = await deliverNotification(channel, {
+      ruleType: 'TEST',
+      dedupeKey: `test:${crypto.randomUUID()}`,
+      title: 'Test notification from the Live Outage Dashboard',
+      text: `If you can read this, the "${channel.name}" channel is configured correctly.`,
+      critical: false,
+      url: null,
+      event: { type: 'test' },
+    });
+    await new NotificationLogEntity(c.env).record([delivery]);
+    return ok(c, delivery);
+  });
+
+  // Recent deliveries, newest first; ?channelId= narrows to one channel
+  app.get('/api/notifications/deliveries', requireAdmin, async (c) => {
+    const channelId = c.req.query('channelId');
+    const { deliveries } = await new NotificationLogEntity(c.env).getState();
+    return ok(c, channelId ? deliveries.filter((d) => d.channelId === channelId) : deliveries);
+  });
+
+  // — EVENT FEEDS (Atom) —
+  // Built from persisted outage lifecycle records and vendor transitions; `?days=` (default 30).
+  // Viewer role; readers without Access send an API token as `?token=`
+  app.get('/api/feeds/outages.atom', acceptQueryToken, requireViewer, async (c) => {
+    const days = eventFeedDays(c);
+    if (typeof days === 'string') return bad(c, days);
+    const now = new Date();
+    const [records, config] = await Promise.all([
+      loadOutageRecords(c.env, subDays(now, days), now),
+      new ServiceNowConfigEntity(c.env).getState(),
+    ]);
+    const recordUrl = (id: string) => config.instanceUrl
+      ? `${config.instanceUrl}/${config.outageTable}.do?sysparm_query=number%3D${encodeURIComponent(id)}`
+      : null;
+    const origin = new URL(c.req.url).origin;
+    return atomResponse(c, atomFeed({
+      id: 'urn:aegis-dashboard:feeds:outages',
+      title: 'Aegis Dashboard: outages',
+      selfUrl: `${origin}/api/feeds/outages.atom`,
+      alternateUrl: `${origin}/`,
+      entries: newestEntries(outageFeedEntries(records, recordUrl)),
+      emptyUpdated: now.toISOString(),
+    }));
+  });
+
+  app.get('/api/feeds/vendors.atom', acceptQueryToken, requireViewer, async (c) => {
+    const days = eventFeedDays(c);
+    if (typeof days === 'string') return bad(c, days);
+    const now = new Date();
+    const cutoff = subDays(now, days).toISOString();
+    const { transitions } = await new VendorStatusHistoryEntity(c.env).getState();
+    const origin = new URL(c.req.url).origin;
+    return atomResponse(c, atomFeed({
+      id: 'urn:aegis-dashboard:feeds:vendors',
+      title: 'Aegis Dashboard: vendor status',
+      selfUrl: `${origin}/api/feeds/vendors.atom`,
+      alternateUrl: `${origin}/`,
+      entries: newestEntries(transitions.filter((t) => t.at >= cutoff).map(vendorFeedEntry)),
+      emptyUpdated: now.toISOString(),
+    }));
+  });
+
+  // — PUBLIC STATUS PAGE (read-only; no internal IDs or bridge links) —
+  app.get('/api/status', async (c) => {
+    c.header('Cache-Control', 'public, max-age=60');
+    return ok(c, await buildPublicStatus(c.env));
+  });
+
+  app.get('/api/status/feed.atom', async (c) => {
+    const status = await buildPublicStatus(c.env);
+    const origin = new URL(c.req.url).origin;
+    const entries: AtomEntry[] = status.incidents.map((incident) => ({
+      id: `urn:aegis-dashboard:status:incident:${incident.id}`,
+      title: incident.resolvedAt ? `Resolved: ${incident.component}` : `${incident.status}: ${incident.component}`,
+      updated: incident.updatedAt,
+      summary: incident.message,
+      link: `${origin}/status`,
+    }));
+    return atomResponse(c, atomFeed({
+      id: 'urn:aegis-dashboard:status',
+      title: status.title,
+      selfUrl: `${origin}/api/status/feed.atom`,
+      alternateUrl: `${origin}/status`,
+      entries,
+      emptyUpdated: status.generatedAt,
+    }));
+  });
+
+  app.get('/api/status-page/config', requireAdmin, async (c) => {
+    return ok(c, await new StatusPageConfigEntity(c.env).getState());
+  });
+
+  app.post('/api/status-page/config', requireAdmin, async (c) => {
+    const body = await c.req.json<Partial<StatusPageConfigInput>>();
+    const error = validateStatusPageConfig(body);
+    if (error) return bad(c, error);
+    const entity = new StatusPageConfigEntity(c.env);
+    const current = await entity.getState();
+    const next: StatusPageConfig = {
+      id: StatusPageConfigEntity.singletonId,
+      title: body.title!.trim(),
+      systems: body.systems!.map((s) => ({ systemName: s.systemName.trim(), displayName: s.displayName.trim() })),
+      vendorIds: Array.from(new Set(body.vendorIds!)),
+      messages: mergeStatusMessages(current.messages, body.messages ?? {}, new Date().toISOString()),
+    };
+    await entity.save(next);
+    auditChange(c, { entity: 'status-page-config', entityId: StatusPageConfigEntity.singletonId, before: current, after: next });
+    return ok(c, next);
+  });
+
+  // — OUTAGE WRITES (declare / update / resolve) —
+  app.post('/api/outages', requireOperator, async (c) => {
+    const body = await c.req.json<OutageWrite>().catch(() => ({} as OutageWrite));
+    const error = validateOutageWrite(body, true);
+    if (error) return bad(c, error);
+    const config = await new ServiceNowConfigEntity(c.env).getState();
+    if (!config.enabled || !config.instanceUrl) return bad(c, 'ServiceNow integration is not configured or enabled.');
+    const result = await writeOutage(c.env, config, { ...body, resolved: false }, null);
+    if (!result.ok) return bad(c, result.error);
+    auditChange(c, { entity: 'outage', entityId: result.data.id, after: result.data });
+    return ok(c, result.data);
+  });
+
+  // :id is the outage number or sys_id; send { resolved: true } to end the outage now
+  app.patch('/api/outages/:id', requireOperator, async (c) => {
+    const id = c.req.param('id');
+    if (!/^[\w-]+$/.test(id)) return bad(c, 'Invalid outage id');
+    const body = await c.req.json<OutageWrite>().catch(() => ({} as OutageWrite));
+    const error = validateOutageWrite(body, false);
+    if (error) return bad(c, error);
+    const config = await new ServiceNowConfigEntity(c.env).getState();
+    if (!config.enabled || !config.instanceUrl) return bad(c, 'ServiceNow integration is not configured or enabled.');
+
+    const query = encodeURIComponent(`number=${id}^ORsys_id=${id}`);
+    const lookup = await serviceNowTableGet(c.env, config, 'OutageLookup', `${config.outageTable}?sysparm_query=${query}&sysparm_fields=sys_id&sysparm_limit=1`);
+    if (!lookup.ok) return bad(c, lookup.error);
+    if (!lookup.data[0]?.sys_id) return notFound(c, 'Outage not found');
+
+    const cached = ((await new FeedSnapshotEntity(c.env, 'outages').getState()).data as Outage[] | null) ?? [];
+    const result = await writeOutage(c.env, config, body, String(lookup.data[0].sys_id));
+    if (!result.ok) return bad(c, result.error);
+    auditChange(c, {
+      entity: 'outage',
+      entityId: result.data.id,
+      before: cached.find((o) => o.id === result.data.id) ?? null,
+      after: body.resolved ? { ...result.data, resolved: true } : result.data,
+    });
+    return ok(c, result.data);
+  });
+
+  // — OUTAGE DETAIL —
+  // Detail for the outage drawer: the record, its work notes/comments and incidents on the same CI
+  app.get('/api/outages/:id/detail', requireViewer, async (c) => {
+    const id = c.req.param('id');
+    // The id is interpolated into an encoded query, so keep it to number/sys_id characters
+    if (!/^[\w-]+$/.test(id)) return bad(c, 'Invalid outage id');
+    const result = await loadOutageDetail(c.env, id);
+    if (!result.ok) return bad(c, result.error);
+    if (!result.data) return notFound(c, 'Outage not found');
+    return ok(c, result.data);
+  });
+
+  // — OUTAGE HISTORY (Trends) —
+  // Served from persisted lifecycle records. Filters: from/to (start time, ISO; default last 7 days),
+  // system (substring), impact (comma list), status (open|resolved), page/pageSize.
+  app.get('/api/outages/history', requireViewer, async (c) => {
+    const q = c.req.query();
+    const range = parseHistoryRange(q, 7);
+    if (typeof range === 'string') return bad(c, range);
+    const { from, to } = range;
+    if (q.status && q.status !== 'open' && q.status !== 'resolved') return bad(c, 'status must be open or resolved');
+
+    const page = Math.max(1, parseInt(q.page ?? '1', 10) || 1);
+    const pageSize = Math.min(500, Math.max(1, parseInt(q.pageSize ?? '100', 10) || 100));
+    const impacts = csvToList(q.impact ?? '').map((v) => v.toLowerCase());
+    const system = (q.system ?? '').trim().toLowerCase();
+
+    const records = (await loadOutageRecords(c.env, from, to)).filter((r) =>
+      (!system || r.systemName.toLowerCase().includes(system)) &&
+      (impacts.length === 0 || impacts.includes(r.impactLevel.toLowerCase())) &&
+      (!q.status || (q.status === 'open' ? !r.resolvedAt : !!r.resolvedAt))
+    );
+    const { lastSyncedAt } = await new OutageHistorySyncEntity(c.env).getState();
+
+    const result: OutageHistoryPage = {
+      items: records.slice((page - 1) * pageSize, page * pageSize),
+      total: records.length,
+      page,
+      pageSize,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      lastSyncedAt,
+    };
+    return ok(c, result);
+  });
+
+  // — OUTAGE ANALYTICS (MTTR / MTBF / availability) —
+  // from/to default to the last 90 days; impact (comma list) selects what counts as downtime (default Outage)
+  app.get('/api/outages/analytics', requireViewer, async (c) => {
+    const q = c.req.query();
+    const range = parseHistoryRange(q, 90);
+    if (typeof range === 'string') return bad(c, range);
+    const impact = q.impact ? csvToList(q.impact) : ['Outage'];
+    const invalid = impact.filter((v) => v !== 'Outage' && v !== 'Degradation');
+    if (invalid.length > 0) return bad(c, `Unknown impact level(s): ${invalid.join(', ')}`);
+
+    const report = await buildAvailabilityReport(c.env, range.from, range.to, impact as ImpactLevel[]);
+    return ok(c, report);
+  });
+
+  // Backfill persisted history from ServiceNow (ongoing + ended within `days`, default 90)
+  app.post('/api/outages/history/sync', requireAdmin, async (c) => {
+    const body = await c.req.json<{ days?: number }>().catch(() => ({} as { days?: number }));
+    const days = typeof body.days === 'number' ? body.days : 90;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_RANGE_DAYS) {
+      return bad(c, `days must be an integer between 1 and ${MAX_HISTORY_RANGE_DAYS}`);
+    }
+    const result = await syncOutageHistory(c.env, days);
+    if (!result.ok) return bad(c, result.error);
+    return ok(c, { imported: result.data });
+  });
+
+
+// — Change Control
+app.get('/api/changes/today', requireViewer, async (c) => {
+  return serveFeed(c, 'changes');
+});
+
+  // iCalendar feed of the same changes, served from the cached snapshot over CHANGE_CALENDAR_DAYS
+  // (default 30); `days` narrows it. offering / type / state filter with comma-separated,
+  // case-insensitive values. Only operators may force a live fetch with `?fresh=1`.
+  // Viewer role; calendar apps that can't sign in send an API token as `?token=`.
+  app.get('/api/changes/calendar.ics', acceptQueryToken, requireViewer, async (c) => {
+    const fresh = c.req.query('fresh') === '1' && hasRole(await resolveCaller(c), 'operator');
+    const snapshot = await feedSnapshot(c, 'change-calendar', fresh);
+    if (snapshot.error) return bad(c, snapshot.error);
+
+    const days = parseInt(c.req.query('days') ?? '', 10);
+    const until = Number.isFinite(days) && days > 0 ? addDays(startOfToday(), days).getTime() : Infinity;
+    const filters = (['offering', 'type', 'state'] as const).map((key) => {
+      const wanted = csvToList(c.req.query(key) ?? '').map((v) => v.toLowerCase());
+      return (change: ScheduledChange) => wanted.length === 0 || wanted.includes((change[key] ?? '').toLowerCase());
+    });
+    const changes = ((snapshot.data as ScheduledChange[] | null) ?? [])
+      .filter((change) => !change.windowStart || Date.parse(change.windowStart) <= until)
+      .filter((change) => filters.every((matches) => matches(change)));
+
+    return c.body(changesToIcs(changes, 'Aegis Change Calendar'), 200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="changes.ics"',
+      'Cache-Control': `private, max-age=${CHANGE_CALENDAR_MAX_AGE_S}`,
+    });
+  });
+
+  // Changes overlapping [from, to] (ISO; default today + 7 days) with collision flags
+  app.get('/api/changes', requireViewer, async (c) => {
+    const from = c.req.query('from') ? new Date(c.req.query('from')!) : startOfToday();
+    const to = c.req.query('to') ? new Date(c.req.query('to')!) : addDays(startOfToday(), 7);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) return bad(c, 'from and to must be ISO dates');
+    if (from >= to) return bad(c, 'from must be before to');
+    if (to.getTime() - from.getTime() > MAX_CHANGE_RANGE_DAYS * 86_400_000) {
+      return bad(c, `Range cannot exceed ${MAX_CHANGE_RANGE_DAYS} days`);
+    }
+
+    const result = await loadChanges(c.env, { from, to });
+    if (!result.ok) return bad(c, result.error);
+    const outages = await new FeedSnapshotEntity(c.env, 'outages').getState();
+    const changes = detectChangeConflicts(result.data, Array.isArray(outages.data) ? (outages.data as Outage[]) : []);
+    return ok(c, changes);
+  });
 }